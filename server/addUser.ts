@@ -0,0 +1,33 @@
+import 'dotenv/config';
+import { Role, ROLES } from '../src/types/auth';
+import { createUserStore } from './users';
+
+// npm run add-user -- <username> <viewer|operator>, with the password in USER_PASSWORD or prompted for
+const readPassword = async (): Promise<string> => {
+  if (process.env.USER_PASSWORD) return process.env.USER_PASSWORD;
+  process.stdout.write('Password: ');
+  return new Promise(resolve => {
+    process.stdin.once('data', data => resolve(data.toString().trim()));
+  });
+};
+
+const main = async () => {
+  const [username, role] = process.argv.slice(2);
+  if (!username || !ROLES.includes(role as Role)) {
+    throw new Error(`Usage: add-user <username> <${ROLES.join('|')}>`);
+  }
+  const password = await readPassword();
+  if (password.length < 8) {
+    throw new Error('Passwords need at least 8 characters');
+  }
+  const users = createUserStore(process.env.USERS_FILE ?? 'server/data/users.json');
+  await users.load();
+  await users.upsert(username, password, role as Role);
+  console.log(`Saved ${username} as ${role}`);
+  process.exit(0);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,126 @@
+/**
+ * @jest-environment ./server/testEnvironment.js
+ */
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { createSandwichFeed } from '../src/services/sandwichFeed';
+import { Role } from '../src/types/auth';
+import { createApp } from './app';
+import { createAuth } from './auth';
+import { loadConfig } from './config';
+import { nodeSocket } from './nodeSocket';
+import { createRecentSandwiches } from './recentSandwiches';
+import { createSharedSettings } from './sharedSettings';
+import { createUserStore } from './users';
+
+const SECRET = 'test-secret';
+
+const tokenFor = (role: Role) => jwt.sign({ role }, SECRET, { subject: 'alice' });
+
+describe('createApp', () => {
+  let dir: string;
+  let server: Server;
+  let baseUrl: string;
+
+  const request = (pathname: string, role: Role | null, init: RequestInit = {}) =>
+    fetch(`${baseUrl}${pathname}`, {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(role ? { Authorization: `Bearer ${tokenFor(role)}` } : {}),
+      },
+    });
+
+  const HISTORY = { retentionDays: 3, maxEntries: 1000 };
+
+  const putSettings = (role: Role | null, body: unknown) =>
+    request('/settings', role, { method: 'PUT', body: JSON.stringify(body) });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'dashboard-app-'));
+    const config = loadConfig({ JWT_SECRET: SECRET, SETTINGS_FILE: path.join(dir, 'settings.json') });
+    const settings = createSharedSettings(config.settingsFile);
+    await settings.load();
+
+    // The feed is never started, only its status is read
+    const app = createApp({
+      config,
+      feed: createSandwichFeed({
+        primaryUrl: config.primaryWsUrl,
+        fallbackUrl: config.fallbackWsUrl,
+        reconnect: config.reconnect,
+        createSocket: nodeSocket,
+      }),
+      recent: createRecentSandwiches({ file: path.join(dir, 'sandwiches.json'), limit: 3 }),
+      auth: createAuth({ secret: SECRET, sessionTtl: '1h', users: createUserStore(path.join(dir, 'users.json')) }),
+      settings,
+      clientCount: () => 0,
+    });
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>(resolve => {
+      server.close(() => resolve());
+      server.closeAllConnections();
+    });
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('requires a session for shared settings', async () => {
+    expect((await request('/settings', null)).status).toBe(401);
+    expect((await putSettings(null, { alerts: {} })).status).toBe(401);
+  });
+
+  it('lets viewers read shared settings but not change them', async () => {
+    const read = await request('/settings', 'viewer');
+    const write = await putSettings('viewer', { alerts: { enabled: false } });
+
+    expect(read.status).toBe(200);
+    expect(await read.json()).toEqual({});
+    expect(write.status).toBe(403);
+    expect(await request('/settings', 'viewer').then(res => res.json())).toEqual({});
+  });
+
+  it('lets operators change shared settings', async () => {
+    const write = await putSettings('operator', { history: HISTORY });
+
+    expect(write.status).toBe(200);
+    expect(await write.json()).toEqual({ history: HISTORY });
+    expect(await request('/settings', 'viewer').then(res => res.json())).toEqual({ history: HISTORY });
+    expect(JSON.parse(await readFile(path.join(dir, 'settings.json'), 'utf8'))).toEqual({ history: HISTORY });
+  });
+
+  it('rejects settings that are not an object', async () => {
+    expect((await putSettings('operator', [1, 2])).status).toBe(400);
+  });
+
+  it('rejects unknown and mistyped settings without saving any of them', async () => {
+    const unknown = await putSettings('operator', { history: HISTORY, explorer: { id: 'solscan' } });
+    const mistyped = await putSettings('operator', { history: { ...HISTORY, maxEntries: '1000' } });
+    const extraField = await putSettings('operator', { history: { ...HISTORY, keepForever: true } });
+    const badDecimals = await putSettings('operator', { tokenDecimalOverrides: { Mint1: 6.5 } });
+
+    expect(unknown.status).toBe(400);
+    expect(await unknown.json()).toEqual({ error: 'settings.explorer: unknown field' });
+    expect(mistyped.status).toBe(400);
+    expect(await mistyped.json()).toEqual({ error: 'settings.history.maxEntries: expected a number, got string "1000"' });
+    expect(extraField.status).toBe(400);
+    expect(badDecimals.status).toBe(400);
+    expect(await request('/settings', 'viewer').then(res => res.json())).toEqual({});
+  });
+
+  it('reports health to any signed-in user', async () => {
+    const response = await request('/health', 'viewer');
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ clients: 0, recentSandwiches: 0 });
+  });
+});
@@ -0,0 +1,59 @@
+import cors from 'cors';
+import express from 'express';
+import { SandwichFeed } from '../src/services/sandwichFeed';
+import { validateSharedSettings } from '../src/services/settingsSchema';
+import { Auth } from './auth';
+import { ServerConfig } from './config';
+import { createPromProxy } from './promProxy';
+import { RecentSandwiches } from './recentSandwiches';
+import { SharedSettingsStore } from './sharedSettings';
+
+interface AppOptions {
+  config: ServerConfig;
+  feed: SandwichFeed;
+  recent: RecentSandwiches;
+  auth: Auth;
+  settings: SharedSettingsStore;
+  // The hub is attached to the HTTP server after the app is created
+  clientCount: () => number;
+  fetchImpl?: typeof fetch;
+}
+
+export const createApp = ({ config, feed, recent, auth, settings, clientCount, fetchImpl }: AppOptions) => {
+  const app = express();
+  app.use(cors(config.allowedOrigins.length > 0 ? { origin: config.allowedOrigins } : undefined));
+
+  app.use('/auth', auth.router);
+
+  // Charts are read-only, so viewers may query as well
+  app.use(config.prometheusBaseUrl, auth.requireAuth(), createPromProxy({
+    prometheusUrl: `${config.prometheusEndpoint}${config.prometheusBaseUrl}`,
+    allowedMetrics: config.allowedMetrics,
+    fetchImpl,
+  }));
+
+  app.get('/settings', auth.requireAuth(), (req, res) => {
+    res.json(settings.get());
+  });
+
+  // What every dashboard applies, so only operators may change it
+  app.put('/settings', auth.requireAuth(['operator']), express.json(), async (req, res) => {
+    const body = validateSharedSettings(req.body);
+    if (!body.ok) {
+      res.status(400).json({ error: body.reason });
+      return;
+    }
+    try {
+      res.json(await settings.update(body.value));
+    } catch (error) {
+      console.error('Error saving shared settings:', error);
+      res.status(500).json({ error: 'Could not save the settings' });
+    }
+  });
+
+  app.get('/health', auth.requireAuth(), (req, res) => {
+    res.json({ upstream: feed.getStatus(), clients: clientCount(), recentSandwiches: recent.list().length });
+  });
+
+  return app;
+};
@@ -0,0 +1,83 @@
+import bcrypt from 'bcryptjs';
+import express, { NextFunction, Request, Response, Router } from 'express';
+import { IncomingMessage } from 'http';
+import jwt, { JwtPayload } from 'jsonwebtoken';
+import { LoginResponse, Role, ROLES, SessionUser } from '../src/types/auth';
+import { UserStore } from './users';
+
+interface AuthOptions {
+  secret: string;
+  // jsonwebtoken duration such as '12h'
+  sessionTtl: string;
+  users: UserStore;
+}
+
+// Compared against for unknown users, so a login takes as long whether or not the user exists
+const DUMMY_HASH = bcrypt.hashSync('dummy-password', 12);
+
+const bearerToken = (header: string | undefined): string | null =>
+  header?.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+
+export const createAuth = ({ secret, sessionTtl, users }: AuthOptions) => {
+  const verifyToken = (token: string | null): SessionUser | null => {
+    if (!token) return null;
+    try {
+      const payload = jwt.verify(token, secret) as JwtPayload;
+      if (typeof payload.sub !== 'string' || !ROLES.includes(payload.role)) return null;
+      return { username: payload.sub, role: payload.role };
+    } catch {
+      return null;
+    }
+  };
+
+  // Any signed-in user by default, or only the listed roles
+  const requireAuth = (roles: Role[] = ROLES) => (req: Request, res: Response, next: NextFunction) => {
+    const user = verifyToken(bearerToken(req.headers.authorization));
+    if (!user) {
+      res.status(401).json({ status: 'error', errorType: 'unauthorized', error: 'Sign in required' });
+      return;
+    }
+    if (!roles.includes(user.role)) {
+      res.status(403).json({ status: 'error', errorType: 'forbidden', error: `Requires the ${roles.join(' or ')} role` });
+      return;
+    }
+    res.locals.user = user;
+    next();
+  };
+
+  // Browsers can't set headers on WebSockets, so sockets pass the token as a query parameter
+  const authenticateUpgrade = (req: IncomingMessage): boolean => {
+    const token = new URL(req.url ?? '', 'http://localhost').searchParams.get('token');
+    return verifyToken(token) !== null;
+  };
+
+  const router = Router();
+  router.use(express.json());
+
+  router.post('/login', async (req, res) => {
+    const { username, password } = req.body ?? {};
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      res.status(400).json({ error: 'Username and password are required' });
+      return;
+    }
+    const record = users.find(username);
+    const matches = await bcrypt.compare(password, record?.passwordHash ?? DUMMY_HASH);
+    if (!record || !matches) {
+      res.status(401).json({ error: 'Invalid username or password' });
+      return;
+    }
+    const user: SessionUser = { username: record.username, role: record.role };
+    const token = jwt.sign({ role: user.role }, secret, { subject: user.username, expiresIn: sessionTtl as jwt.SignOptions['expiresIn'] });
+    const { exp } = jwt.decode(token) as JwtPayload;
+    const body: LoginResponse = { token, user, expiresAt: (exp as number) * 1000 };
+    res.json(body);
+  });
+
+  router.get('/me', requireAuth(), (req, res) => {
+    res.json(res.locals.user);
+  });
+
+  return { router, requireAuth, authenticateUpgrade };
+};
+
+export type Auth = ReturnType<typeof createAuth>;
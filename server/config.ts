@@ -0,0 +1,139 @@
+import cron from 'node-cron';
+import { ENVIRONMENTS, Environment, ReconnectSettings } from '../src/config';
+
+export interface ReportConfig {
+  smtpHost: string;
+  smtpPort: number;
+  // TLS from the start, otherwise STARTTLS when the server offers it
+  smtpSecure: boolean;
+  smtpUser: string | null;
+  smtpPassword: string | null;
+  from: string;
+  to: string[];
+  // Cron expressions, weekly reports are off without one
+  dailyCron: string;
+  weeklyCron: string | null;
+  // IANA zone the cron expressions run in and report periods and dates are read in, the server's own when null
+  timezone: string | null;
+  // Every sandwich of the last week, for the token and sandwich rankings
+  sandwichLogFile: string;
+}
+
+export interface PrometheusConfig {
+  prometheusEndpoint: string;
+  prometheusBaseUrl: string;
+}
+
+export interface ServerConfig extends PrometheusConfig {
+  port: number;
+  // Origins allowed by CORS, empty allows any
+  allowedOrigins: string[];
+  // Metric names a proxied query may reference
+  allowedMetrics: string[];
+  primaryWsUrl: string;
+  fallbackWsUrl: string;
+  reconnect: ReconnectSettings;
+  // Path of the fan-out socket, the same as the bot's so clients only change the host
+  livefeedPath: string;
+  // Recent sandwiches kept for backfill, and the file they survive restarts in
+  backfillSize: number;
+  dataFile: string;
+  // Signs session tokens, sessions don't survive a change of it
+  jwtSecret: string;
+  sessionTtl: string;
+  usersFile: string;
+  // Operator settings every dashboard applies
+  settingsFile: string;
+  // Null when SMTP_HOST or REPORT_TO is missing
+  report: ReportConfig | null;
+}
+
+const DEFAULT_ALLOWED_METRICS = [
+  'sandwich_bank_balance_amount',
+  'sandwich_possible_profit_total',
+  'sandwich_tips_total',
+  'sandwiches_landed_total',
+  'last_sandwich_data',
+  'token_price_usd',
+];
+
+const list = (raw: string | undefined): string[] =>
+  (raw ?? '').split(',').map(item => item.trim()).filter(item => item.length > 0);
+
+const integer = (raw: string | undefined, fallback: number): number => {
+  const parsed = parseInt(raw ?? '', 10);
+  return isNaN(parsed) ? fallback : parsed;
+};
+
+const cronExpression = (name: string, raw: string): string => {
+  if (!cron.validate(raw)) {
+    throw new Error(`${name} is not a valid cron expression: ${raw}`);
+  }
+  return raw;
+};
+
+const timeZone = (name: string, raw: string): string => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: raw });
+  } catch {
+    throw new Error(`${name} is not a valid IANA time zone: ${raw}`);
+  }
+  return raw;
+};
+
+// Upstreams default to one of the dashboard's environments, picked by UPSTREAM_ENVIRONMENT,
+// so the addresses only need to live on the server
+const upstreamEnvironment = (env: NodeJS.ProcessEnv): Environment =>
+  ENVIRONMENTS.find(e => e.id === env.UPSTREAM_ENVIRONMENT) ?? ENVIRONMENTS[0];
+
+// Also read on its own by send-report, which needs no sessions
+export const loadPrometheusConfig = (env: NodeJS.ProcessEnv = process.env): PrometheusConfig => {
+  const upstream = upstreamEnvironment(env);
+  return {
+    prometheusEndpoint: env.PROMETHEUS_ENDPOINT ?? upstream.prometheusEndpoint,
+    prometheusBaseUrl: env.PROMETHEUS_BASE_URL ?? upstream.prometheusBaseUrl,
+  };
+};
+
+export const loadReportConfig = (env: NodeJS.ProcessEnv = process.env): ReportConfig | null => {
+  const to = list(env.REPORT_TO);
+  if (!env.SMTP_HOST || to.length === 0) return null;
+  return {
+    smtpHost: env.SMTP_HOST,
+    smtpPort: integer(env.SMTP_PORT, 587),
+    smtpSecure: env.SMTP_SECURE === 'true',
+    smtpUser: env.SMTP_USER || null,
+    smtpPassword: env.SMTP_PASSWORD || null,
+    from: env.REPORT_FROM ?? env.SMTP_USER ?? 'mev-dashboard@localhost',
+    to,
+    dailyCron: cronExpression('REPORT_DAILY_CRON', env.REPORT_DAILY_CRON ?? '0 8 * * *'),
+    weeklyCron: env.REPORT_WEEKLY_CRON ? cronExpression('REPORT_WEEKLY_CRON', env.REPORT_WEEKLY_CRON) : null,
+    timezone: env.REPORT_TIMEZONE ? timeZone('REPORT_TIMEZONE', env.REPORT_TIMEZONE) : null,
+    sandwichLogFile: env.SANDWICH_LOG_FILE ?? 'server/data/sandwich-log.ndjson',
+  };
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => {
+  if (!env.JWT_SECRET) {
+    throw new Error('JWT_SECRET must be set');
+  }
+  const upstream = upstreamEnvironment(env);
+  const allowedMetrics = list(env.PROMQL_ALLOWED_METRICS);
+  return {
+    ...loadPrometheusConfig(env),
+    port: integer(env.PORT, 4000),
+    allowedOrigins: list(env.ALLOWED_ORIGINS),
+    allowedMetrics: allowedMetrics.length > 0 ? allowedMetrics : DEFAULT_ALLOWED_METRICS,
+    primaryWsUrl: env.LIVEFEED_PRIMARY_URL ?? upstream.primaryWsUrl,
+    fallbackWsUrl: env.LIVEFEED_FALLBACK_URL ?? env.LIVEFEED_PRIMARY_URL ?? upstream.fallbackWsUrl,
+    reconnect: upstream.reconnect,
+    livefeedPath: env.LIVEFEED_PATH ?? '/ws/livefeed',
+    backfillSize: integer(env.BACKFILL_SIZE, 200),
+    dataFile: env.DATA_FILE ?? 'server/data/sandwiches.json',
+    jwtSecret: env.JWT_SECRET,
+    sessionTtl: env.SESSION_TTL ?? '12h',
+    usersFile: env.USERS_FILE ?? 'server/data/users.json',
+    settingsFile: env.SETTINGS_FILE ?? 'server/data/settings.json',
+    report: loadReportConfig(env),
+  };
+};
@@ -0,0 +1,76 @@
+import 'dotenv/config';
+import http from 'http';
+import { PrometheusDriver } from 'prometheus-query';
+import { createPrometheusFallback, createSandwichFeed } from '../src/services/sandwichFeed';
+import { createApp } from './app';
+import { createAuth } from './auth';
+import { loadConfig } from './config';
+import { createLivefeedHub, LivefeedHub } from './livefeedHub';
+import { nodeSocket } from './nodeSocket';
+import { createRecentSandwiches } from './recentSandwiches';
+import { REPORT_RETENTION } from './report';
+import { createReportMailer } from './reportMailer';
+import { createSandwichLog } from './sandwichLog';
+import { createSharedSettings } from './sharedSettings';
+import { createUserStore } from './users';
+
+const main = async () => {
+  const config = loadConfig();
+  const recent = createRecentSandwiches({ file: config.dataFile, limit: config.backfillSize });
+  await recent.load();
+  const users = createUserStore(config.usersFile);
+  await users.load();
+  if (users.count() === 0) {
+    console.warn('No users yet, add one with `npm run add-user -- <username> <viewer|operator>`');
+  }
+  const settings = createSharedSettings(config.settingsFile);
+  await settings.load();
+  const auth = createAuth({ secret: config.jwtSecret, sessionTtl: config.sessionTtl, users });
+
+  const prom = new PrometheusDriver({ endpoint: config.prometheusEndpoint, baseURL: config.prometheusBaseUrl });
+  // The dashboard's own feed, with its reconnect and fallback handling, as the single upstream connection
+  const feed = createSandwichFeed({
+    primaryUrl: config.primaryWsUrl,
+    fallbackUrl: config.fallbackWsUrl,
+    reconnect: config.reconnect,
+    fetchFallback: createPrometheusFallback(prom),
+    createSocket: nodeSocket,
+    // Every client shares this connection, an upstream restart must not end the feed for good
+    reconnectOnNormalClose: true,
+  });
+
+  let hub: LivefeedHub | null = null;
+  const app = createApp({ config, feed, recent, auth, settings, clientCount: () => hub?.clientCount() ?? 0 });
+  const server = http.createServer(app);
+  hub = createLivefeedHub({ server, path: config.livefeedPath, feed, recent, authenticate: auth.authenticateUpgrade });
+
+  let stopReports: (() => void) | null = null;
+  if (config.report) {
+    const log = createSandwichLog({ file: config.report.sandwichLogFile, retentionMs: REPORT_RETENTION });
+    feed.on('sandwich', log.append);
+    stopReports = createReportMailer({ config: config.report, prom, log }).schedule();
+  } else {
+    console.warn('Reports are off, set SMTP_HOST and REPORT_TO to mail them');
+  }
+
+  feed.start();
+  server.listen(config.port, () => {
+    console.log(`Dashboard server listening on port ${config.port}`);
+  });
+
+  const shutdown = async () => {
+    console.log('Shutting down...');
+    feed.stop();
+    stopReports?.();
+    await hub?.close();
+    await recent.flush();
+    server.close(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+};
+
+main().catch(error => {
+  console.error('Error starting dashboard server:', error);
+  process.exit(1);
+});
@@ -0,0 +1,180 @@
+/**
+ * @jest-environment ./server/testEnvironment.js
+ */
+import { once } from 'events';
+import { mkdtemp, rm } from 'fs/promises';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import WebSocket, { WebSocketServer } from 'ws';
+import { ReconnectSettings } from '../src/config';
+import { createSandwichFeed, SandwichFeed } from '../src/services/sandwichFeed';
+import { makeSandwich } from '../src/testing/fixtures';
+import { SandwichData } from '../src/types/sandwich';
+import { createLivefeedHub, LivefeedHub } from './livefeedHub';
+import { nodeSocket } from './nodeSocket';
+import { createRecentSandwiches, RecentSandwiches } from './recentSandwiches';
+
+const PATH = '/ws/livefeed';
+
+// Retries come quickly, the feed is stopped before the upstream goes away on teardown
+const reconnect: ReconnectSettings = {
+  maxAttempts: 2,
+  delayMs: 10,
+  backoffMultiplier: 1,
+  maxDelayMs: 10,
+  jitter: 0,
+  periodicReconnectMs: 60000,
+  fallbackPollMs: 60000,
+};
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000) => {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+};
+
+const slotsOf = (frames: string[]) => frames.map(frame => (JSON.parse(frame) as SandwichData).data?.sandwich?.slot);
+
+describe('createLivefeedHub', () => {
+  let dir: string;
+  let upstream: WebSocketServer;
+  let upstreamSocket: WebSocket;
+  let feed: SandwichFeed;
+  let recent: RecentSandwiches;
+  let server: Server;
+  let hub: LivefeedHub;
+  let hubUrl: string;
+  let clients: WebSocket[];
+
+  // Connects a browser-like client, collecting every frame it is sent
+  const connectClient = async (token: string = 'ok') => {
+    const socket = new WebSocket(`${hubUrl}?token=${token}`);
+    clients.push(socket);
+    const frames: string[] = [];
+    socket.on('message', data => frames.push(data.toString()));
+    await once(socket, 'open');
+    return frames;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await mkdtemp(path.join(tmpdir(), 'livefeed-hub-'));
+    clients = [];
+
+    // Stands in for the bot's livefeed socket
+    upstream = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await once(upstream, 'listening');
+    const upstreamUrl = `ws://127.0.0.1:${(upstream.address() as AddressInfo).port}${PATH}`;
+
+    feed = createSandwichFeed({
+      primaryUrl: upstreamUrl,
+      fallbackUrl: upstreamUrl,
+      reconnect,
+      createSocket: nodeSocket,
+      reconnectOnNormalClose: true,
+    });
+    recent = createRecentSandwiches({ file: path.join(dir, 'sandwiches.json'), limit: 3 });
+    server = createServer();
+    hub = createLivefeedHub({ server, path: PATH, feed, recent, authenticate: req => (req.url ?? '').endsWith('token=ok') });
+    server.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    hubUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${PATH}`;
+
+    const connected = once(upstream, 'connection');
+    feed.start();
+    [upstreamSocket] = await connected;
+  });
+
+  afterEach(async () => {
+    clients.forEach(client => client.terminate());
+    feed.stop();
+    await hub.close();
+    await new Promise(resolve => server.close(resolve));
+    upstream.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => upstream.close(resolve));
+    await recent.flush();
+    await rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('backfills new clients with the recent sandwiches, oldest first', async () => {
+    recent.add(makeSandwich(1));
+    recent.add(makeSandwich(2));
+
+    const messages = await connectClient();
+    await waitFor(() => messages.length === 2);
+
+    expect(slotsOf(messages)).toEqual([1, 2]);
+  });
+
+  it('fans every upstream event out to each client once', async () => {
+    const first = await connectClient();
+    const second = await connectClient();
+
+    upstreamSocket.send(JSON.stringify(makeSandwich(10)));
+    // Seen on both upstream sockets in production, the feed dedupes it
+    upstreamSocket.send(JSON.stringify(makeSandwich(10)));
+    upstreamSocket.send(JSON.stringify({ type: 'tip', data: { slot: 11, timestamp: 1700000011, tipAmount: 5000 } }));
+    await waitFor(() => first.length === 2 && second.length === 2);
+    // Anything else still in flight would show up by now
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    [first, second].forEach(messages => {
+      expect(messages).toHaveLength(2);
+      expect(slotsOf(messages)[0]).toBe(10);
+      expect(JSON.parse(messages[1])).toMatchObject({ type: 'tip', data: { slot: 11, tipAmount: 5000 } });
+    });
+    expect(recent.list().map(s => s.data.sandwich.slot)).toEqual([10]);
+  });
+
+  it('passes frames on as the upstream sent them', async () => {
+    const messages = await connectClient();
+    const frame = JSON.stringify(makeSandwich(12), null, 2);
+
+    upstreamSocket.send(frame);
+    await waitFor(() => messages.length === 1);
+
+    expect(messages).toEqual([frame]);
+  });
+
+  it('passes rejected upstream frames on for the clients to quarantine', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const messages = await connectClient();
+    const invalid = JSON.stringify({ type: 'sandwich', data: { sandwich: { slot: 'twelve' } } });
+
+    upstreamSocket.send('not json');
+    upstreamSocket.send(invalid);
+    upstreamSocket.send(JSON.stringify(makeSandwich(13)));
+    await waitFor(() => messages.length === 3);
+
+    expect(messages.slice(0, 2)).toEqual(['not json', invalid]);
+    expect(slotsOf(messages.slice(2))).toEqual([13]);
+    expect(feed.getStatus().rejectedMessages).toBe(2);
+  });
+
+  it('reconnects to the upstream after it closes normally', async () => {
+    const messages = await connectClient();
+
+    const reconnected = once(upstream, 'connection');
+    upstreamSocket.close(1000, 'Restarting');
+    [upstreamSocket] = await reconnected;
+    await waitFor(() => feed.getStatus().state === 'open');
+    upstreamSocket.send(JSON.stringify(makeSandwich(14)));
+    await waitFor(() => messages.length === 1);
+
+    expect(slotsOf(messages)).toEqual([14]);
+  });
+
+  it('refuses clients that fail authentication', async () => {
+    const socket = new WebSocket(`${hubUrl}?token=wrong`);
+    clients.push(socket);
+    const [error] = await once(socket, 'error');
+
+    expect(String(error)).toContain('401');
+    expect(hub.clientCount()).toBe(0);
+  });
+});
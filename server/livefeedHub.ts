@@ -0,0 +1,68 @@
+import { IncomingMessage, Server } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { SandwichFeed } from '../src/services/sandwichFeed';
+import { RecentSandwiches } from './recentSandwiches';
+
+// Connections that miss a ping for this long are dropped
+const PING_INTERVAL = 30000;
+
+interface LivefeedHubOptions {
+  server: Server;
+  path: string;
+  // The single upstream connection, every browser client shares it
+  feed: SandwichFeed;
+  recent: RecentSandwiches;
+  // Rejects the upgrade when false
+  authenticate: (req: IncomingMessage) => boolean;
+}
+
+// Fans the upstream feed out to browser clients, each new client is first sent the recent sandwiches
+export const createLivefeedHub = ({ server, path, feed, recent, authenticate }: LivefeedHubOptions) => {
+  const wss = new WebSocketServer({ server, path, verifyClient: ({ req }: { req: IncomingMessage }) => authenticate(req) });
+  const alive = new WeakSet<WebSocket>();
+
+  wss.on('connection', (socket) => {
+    alive.add(socket);
+    socket.on('pong', () => alive.add(socket));
+    // Oldest first, in the order they arrived live
+    [...recent.list()].reverse().forEach(sandwich => socket.send(JSON.stringify(sandwich)));
+  });
+
+  const broadcast = (data: string) => {
+    wss.clients.forEach(client => {
+      if (client.readyState === WebSocket.OPEN) client.send(data);
+    });
+  };
+
+  // Frames go out as the upstream sent them, so clients validate and record what the bot actually sent.
+  // Accepted events are already deduped by the feed, so sandwiches seen on both upstream sockets go out once.
+  const unsubscribeEvent = feed.on('event', (_, data) => broadcast(data));
+  // Rejected frames too, for the clients' quarantine
+  const unsubscribeRejected = feed.on('rejected', message => broadcast(message.data));
+  const unsubscribeSandwich = feed.on('sandwich', recent.add);
+
+  const heartbeat = setInterval(() => {
+    wss.clients.forEach(client => {
+      if (!alive.has(client)) {
+        client.terminate();
+        return;
+      }
+      alive.delete(client);
+      client.ping();
+    });
+  }, PING_INTERVAL);
+
+  const close = () => new Promise<void>(resolve => {
+    clearInterval(heartbeat);
+    unsubscribeEvent();
+    unsubscribeRejected();
+    unsubscribeSandwich();
+    // Not a normal closure, so browsers reconnect once the server is back
+    wss.clients.forEach(client => client.close(1001, 'Server shutting down'));
+    wss.close(() => resolve());
+  });
+
+  return { close, clientCount: () => wss.clients.size };
+};
+
+export type LivefeedHub = ReturnType<typeof createLivefeedHub>;
@@ -0,0 +1,20 @@
+import WebSocket from 'ws';
+import { FeedSocketFactory } from '../src/services/sandwichFeed';
+
+// Connects the feed with `ws`, Node has no WebSocket of its own
+export const nodeSocket: FeedSocketFactory = (url, handlers) => {
+  const socket = new WebSocket(url);
+  socket.on('open', handlers.onOpen);
+  socket.on('message', (data) => handlers.onMessage(data.toString()));
+  socket.on('error', handlers.onError);
+  socket.on('close', (code, reason) => handlers.onClose(code, reason.toString()));
+
+  return {
+    close: () => {
+      socket.removeAllListeners();
+      // Closing before the handshake finishes still emits an error, which would throw without a listener
+      socket.on('error', () => {});
+      socket.close();
+    },
+  };
+};
@@ -0,0 +1,120 @@
+/**
+ * @jest-environment ./server/testEnvironment.js
+ */
+import express from 'express';
+import { AddressInfo } from 'net';
+import { createServer, IncomingMessage, Server } from 'http';
+import { createPromProxy, isAllowedQuery, queryMetrics } from './promProxy';
+
+const ALLOWED = ['sandwich_tips_total', 'sandwich_possible_profit_total', 'sandwich_bank_balance_amount'];
+
+const listen = (server: Server) =>
+  new Promise<string>(resolve => server.listen(0, '127.0.0.1', () => {
+    resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+  }));
+
+// Drops keep-alive connections too, fetch would otherwise hold them open past the test
+const close = (server: Server) => new Promise<void>(resolve => {
+  server.close(() => resolve());
+  server.closeAllConnections();
+});
+
+const readBody = (req: IncomingMessage) => new Promise<string>(resolve => {
+  let body = '';
+  req.on('data', chunk => { body += chunk; });
+  req.on('end', () => resolve(body));
+});
+
+describe('queryMetrics', () => {
+  it('collects metric names from the parsed expression', () => {
+    expect(queryMetrics('sum by (instance) (increase(sandwich_tips_total{job="bot"}[1h] offset 1d))')).toEqual(['sandwich_tips_total']);
+    expect(queryMetrics('sandwich_bank_balance_amount - on(instance) sandwich_tips_total')).toEqual([
+      'sandwich_bank_balance_amount',
+      'sandwich_tips_total',
+    ]);
+  });
+
+  it('ignores names that only appear in strings and label lists', () => {
+    expect(queryMetrics('label_replace(sandwich_tips_total, "dst", "$1", "other_metric", "(.*)")')).toEqual(['sandwich_tips_total']);
+    expect(queryMetrics('sum without (other_metric) (sandwich_tips_total)')).toEqual(['sandwich_tips_total']);
+  });
+
+  it('refuses selectors that are not a plain metric name', () => {
+    expect(queryMetrics('{__name__=~".+"}')).toBeNull();
+    expect(queryMetrics('sandwich_tips_total{__name__="up"}')).toBeNull();
+    expect(queryMetrics('{"up"}')).toBeNull();
+  });
+
+  it('refuses expressions that do not parse', () => {
+    expect(queryMetrics('sandwich_tips_total(')).toBeNull();
+    expect(queryMetrics('')).toBeNull();
+  });
+});
+
+describe('isAllowedQuery', () => {
+  it('accepts queries over whitelisted metrics only', () => {
+    expect(isAllowedQuery('increase(sandwich_possible_profit_total[1h])', ALLOWED)).toBe(true);
+    expect(isAllowedQuery('increase(node_cpu_seconds_total[1h])', ALLOWED)).toBe(false);
+    expect(isAllowedQuery('vector(1)', ALLOWED)).toBe(false);
+  });
+
+  it('rejects a whitelisted metric joined with a bare selector', () => {
+    expect(isAllowedQuery('sandwich_tips_total or {__name__=~".+"}', ALLOWED)).toBe(false);
+  });
+});
+
+describe('createPromProxy', () => {
+  let prometheus: Server;
+  let proxy: Server;
+  let proxyUrl: string;
+  let received: { path: string; body: string }[];
+
+  beforeEach(async () => {
+    received = [];
+    // Stands in for Prometheus, answering every query with an empty vector
+    prometheus = createServer(async (req, res) => {
+      received.push({ path: req.url ?? '', body: await readBody(req) });
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ status: 'success', data: { resultType: 'vector', result: [] } }));
+    });
+    const prometheusUrl = await listen(prometheus);
+
+    const app = express();
+    app.use('/api/v1', createPromProxy({ prometheusUrl: `${prometheusUrl}/api/v1`, allowedMetrics: ALLOWED }));
+    proxy = createServer(app);
+    proxyUrl = await listen(proxy);
+  });
+
+  afterEach(async () => {
+    await close(proxy);
+    if (prometheus.listening) await close(prometheus);
+    jest.restoreAllMocks();
+  });
+
+  it('forwards whitelisted queries to Prometheus', async () => {
+    const query = 'increase(sandwich_tips_total[1h])';
+    const response = await fetch(`${proxyUrl}/api/v1/query?${new URLSearchParams({ query, time: '1700000000' })}`);
+
+    expect(response.status).toBe(200);
+    expect((await response.json()).status).toBe('success');
+    expect(received).toHaveLength(1);
+    expect(received[0].path).toBe('/api/v1/query');
+    expect(new URLSearchParams(received[0].body).get('query')).toBe(query);
+  });
+
+  it('answers other queries with 403 without reaching Prometheus', async () => {
+    const query = 'sandwich_tips_total or {__name__=~".+"}';
+    const response = await fetch(`${proxyUrl}/api/v1/query_range?${new URLSearchParams({ query })}`);
+
+    expect(response.status).toBe(403);
+    expect(received).toHaveLength(0);
+  });
+
+  it('answers 502 when Prometheus is unreachable', async () => {
+    await close(prometheus);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const response = await fetch(`${proxyUrl}/api/v1/query?${new URLSearchParams({ query: 'sandwich_tips_total' })}`);
+
+    expect(response.status).toBe(502);
+  });
+});
@@ -0,0 +1,82 @@
+import { parser } from '@prometheus-io/lezer-promql';
+import express, { Request, Response, Router } from 'express';
+
+// Metric names a PromQL expression selects, from Prometheus' own grammar. Null when the expression doesn't
+// parse or selects series other than by a plain metric name: bare `{...}` selectors, `__name__` matchers and
+// quoted names could each reach any metric.
+export const queryMetrics = (query: string): string[] | null => {
+  const metrics = new Set<string>();
+  let byNameOnly = true;
+  parser.parse(query).iterate({
+    enter: (node) => {
+      if (node.type.isError || node.name === 'QuotedLabelName') {
+        byNameOnly = false;
+      } else if (node.name === 'VectorSelector') {
+        const name = node.node.getChild('Identifier');
+        if (name) {
+          metrics.add(query.slice(name.from, name.to));
+        } else {
+          byNameOnly = false;
+        }
+      } else if (node.name === 'LabelName' && query.slice(node.from, node.to) === '__name__') {
+        byNameOnly = false;
+      }
+    },
+  });
+  return byNameOnly ? Array.from(metrics) : null;
+};
+
+export const isAllowedQuery = (query: string, allowedMetrics: string[]): boolean => {
+  const metrics = queryMetrics(query);
+  return metrics !== null && metrics.length > 0 && metrics.every(metric => allowedMetrics.includes(metric));
+};
+
+interface PromProxyOptions {
+  // Prometheus API root, e.g. https://prometheus.example.com/api/v1
+  prometheusUrl: string;
+  allowedMetrics: string[];
+  fetchImpl?: typeof fetch;
+}
+
+// Prometheus' own /query and /query_range, so the dashboard's driver only needs a different endpoint
+const PROXIED_PATHS = ['query', 'query_range'];
+const FORWARDED_PARAMS = ['query', 'time', 'start', 'end', 'step', 'timeout'];
+
+export const createPromProxy = ({ prometheusUrl, allowedMetrics, fetchImpl = fetch }: PromProxyOptions): Router => {
+  const router = Router();
+  router.use(express.urlencoded({ extended: false }));
+
+  const proxy = (path: string) => async (req: Request, res: Response) => {
+    // prometheus-query sends GET parameters, POST bodies are accepted for long queries
+    const source = { ...req.query, ...(req.body ?? {}) } as Record<string, unknown>;
+    const query = typeof source.query === 'string' ? source.query : '';
+    if (!isAllowedQuery(query, allowedMetrics)) {
+      res.status(403).json({ status: 'error', errorType: 'forbidden', error: 'Query references metrics outside the whitelist' });
+      return;
+    }
+
+    const params = new URLSearchParams();
+    FORWARDED_PARAMS.forEach(name => {
+      if (typeof source[name] === 'string') params.set(name, source[name] as string);
+    });
+
+    try {
+      const upstream = await fetchImpl(`${prometheusUrl}/${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: params.toString(),
+      });
+      res.status(upstream.status).type('application/json').send(await upstream.text());
+    } catch (error) {
+      console.error('Error proxying Prometheus query:', error);
+      res.status(502).json({ status: 'error', errorType: 'unavailable', error: 'Prometheus is unreachable' });
+    }
+  };
+
+  PROXIED_PATHS.forEach(path => {
+    router.get(`/${path}`, proxy(path));
+    router.post(`/${path}`, proxy(path));
+  });
+
+  return router;
+};
@@ -0,0 +1,81 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { makeSandwich } from '../src/testing/fixtures';
+import { createRecentSandwiches as createStore, RecentSandwiches } from './recentSandwiches';
+
+const slots = (recent: RecentSandwiches) => recent.list().map(s => s.data.sandwich.slot);
+
+describe('createRecentSandwiches', () => {
+  let dir: string;
+  let file: string;
+  let stores: RecentSandwiches[];
+
+  // Tracked so pending saves are flushed rather than left to fire after the test
+  const createRecentSandwiches = (options: { file: string; limit: number }) => {
+    const recent = createStore(options);
+    stores.push(recent);
+    return recent;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'recent-sandwiches-'));
+    file = path.join(dir, 'data', 'sandwiches.json');
+    stores = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(stores.map(recent => recent.flush()));
+    await rm(dir, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('keeps the newest sandwiches first, capped at the limit', () => {
+    const recent = createRecentSandwiches({ file, limit: 3 });
+    [1, 2, 3, 4].forEach(slot => recent.add(makeSandwich(slot)));
+
+    expect(slots(recent)).toEqual([4, 3, 2]);
+  });
+
+  it('ignores a slot it already holds', () => {
+    const recent = createRecentSandwiches({ file, limit: 3 });
+    recent.add(makeSandwich(1));
+    recent.add(makeSandwich(1, { solChange: 1 }));
+
+    expect(slots(recent)).toEqual([1]);
+    expect(recent.list()[0].data.sandwich.solChange).toBe(10000000);
+  });
+
+  it('survives a restart through its file', async () => {
+    const recent = createRecentSandwiches({ file, limit: 3 });
+    recent.add(makeSandwich(1));
+    recent.add(makeSandwich(2));
+    await recent.flush();
+
+    const restarted = createRecentSandwiches({ file, limit: 1 });
+    await restarted.load();
+
+    expect(JSON.parse(await readFile(file, 'utf8'))).toHaveLength(2);
+    expect(slots(restarted)).toEqual([2]);
+  });
+
+  it('starts empty without a file', async () => {
+    const recent = createRecentSandwiches({ file, limit: 3 });
+    await recent.load();
+
+    expect(recent.list()).toEqual([]);
+  });
+
+  it('starts empty from a corrupt file', async () => {
+    const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+    await writeFile(path.join(dir, 'corrupt.json'), '[{');
+    const recent = createRecentSandwiches({ file: path.join(dir, 'corrupt.json'), limit: 3 });
+    await recent.load();
+
+    expect(recent.list()).toEqual([]);
+    expect(error).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SandwichData } from '../src/types/sandwich';
+
+// Writes are batched, a busy feed would otherwise rewrite the file for every sandwich
+const SAVE_DELAY = 5000;
+
+// Newest sandwiches first, capped at `limit` and mirrored to a JSON file so backfill survives restarts
+export const createRecentSandwiches = ({ file, limit }: { file: string; limit: number }) => {
+  let sandwiches: SandwichData[] = [];
+  let saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+  const load = async () => {
+    try {
+      const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+      if (Array.isArray(parsed)) sandwiches = parsed.slice(0, limit);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading recent sandwiches:', error);
+      }
+    }
+  };
+
+  const save = async () => {
+    saveTimeout = null;
+    try {
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Written aside and renamed, so a crash mid-write never leaves a truncated file
+      await fs.writeFile(`${file}.tmp`, JSON.stringify(sandwiches));
+      await fs.rename(`${file}.tmp`, file);
+    } catch (error) {
+      console.error('Error saving recent sandwiches:', error);
+    }
+  };
+
+  const add = (sandwich: SandwichData) => {
+    const slot = sandwich.data.sandwich.slot;
+    if (sandwiches.some(s => s.data.sandwich.slot === slot)) return;
+    sandwiches = [sandwich, ...sandwiches].slice(0, limit);
+    if (!saveTimeout) saveTimeout = setTimeout(save, SAVE_DELAY);
+  };
+
+  // Saves pending changes right away, for shutdown
+  const flush = async () => {
+    if (!saveTimeout) return;
+    clearTimeout(saveTimeout);
+    await save();
+  };
+
+  return { load, add, flush, list: () => sandwiches };
+};
+
+export type RecentSandwiches = ReturnType<typeof createRecentSandwiches>;
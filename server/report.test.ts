@@ -0,0 +1,94 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PrometheusDriver, QueryResult, ResponseType } from 'prometheus-query';
+import { makeSandwich } from '../src/testing/fixtures';
+import { buildReport, periodStart, renderReportText, reportSubject, REPORT_RETENTION } from './report';
+import { createSandwichLog } from './sandwichLog';
+
+const HOUR = 60 * 60 * 1000;
+
+// Answers every query with one series of the given value, recording the queries
+const fakePrometheus = (value: number) => {
+  const queries: string[] = [];
+  const prom = new PrometheusDriver({ endpoint: 'http://prometheus.test' });
+  prom.instantQuery = async (query) => {
+    queries.push(query);
+    const result: QueryResult = { resultType: ResponseType.VECTOR, result: [{ metric: { name: '', labels: {} }, value: { time: new Date(), value } }] };
+    return result;
+  };
+  return { prom, queries };
+};
+
+describe('periodStart', () => {
+  it('goes back whole days on the wall clock of the zone', () => {
+    const to = Date.UTC(2024, 5, 10, 6, 0);
+
+    expect(periodStart('daily', to, 'Europe/Berlin')).toBe(to - 24 * HOUR);
+    expect(periodStart('weekly', to, 'Europe/Berlin')).toBe(to - 7 * 24 * HOUR);
+  });
+
+  it('follows DST changes in the zone', () => {
+    // 08:00 in Berlin on the days clocks went forward and back
+    const springForward = Date.UTC(2024, 2, 31, 6, 0);
+    const fallBack = Date.UTC(2024, 9, 27, 7, 0);
+
+    expect(springForward - periodStart('daily', springForward, 'Europe/Berlin')).toBe(23 * HOUR);
+    expect(fallBack - periodStart('daily', fallBack, 'Europe/Berlin')).toBe(25 * HOUR);
+    expect(springForward - periodStart('weekly', springForward, 'Europe/Berlin')).toBe(7 * 24 * HOUR - HOUR);
+    expect(springForward - periodStart('daily', springForward, 'UTC')).toBe(24 * HOUR);
+  });
+});
+
+describe('buildReport', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'report-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const createLog = () => createSandwichLog({ file: path.join(dir, 'log.ndjson'), retentionMs: REPORT_RETENTION });
+
+  it('queries the period as it lasted in the zone', async () => {
+    const { prom, queries } = fakePrometheus(1);
+    const report = await buildReport({ prom, log: createLog(), timezone: 'Europe/Berlin' }, 'daily', Date.UTC(2024, 2, 31, 6, 0));
+
+    expect(report.from).toBe(Date.UTC(2024, 2, 30, 7, 0));
+    expect(queries).toContain(`increase(sandwich_possible_profit_total[${23 * 60 * 60}s])`);
+  });
+
+  it('dates the report in its zone rather than the server\'s', async () => {
+    const { prom } = fakePrometheus(1);
+    // Tests run in New York, where this is still the evening of January 1st
+    const to = Date.UTC(2024, 0, 1, 23, 30);
+    const tokyo = await buildReport({ prom, log: createLog(), timezone: 'Asia/Tokyo' }, 'daily', to);
+    const server = await buildReport({ prom, log: createLog(), timezone: null }, 'daily', to);
+
+    expect(reportSubject(tokyo)).toContain('report 2024-01-02');
+    expect(renderReportText(tokyo)).toContain('2024-01-01 08:30 - 2024-01-02 08:30 Asia/Tokyo');
+    expect(reportSubject(server)).toContain('report 2024-01-01');
+    expect(server.timezone).toBe('America/New_York');
+  });
+
+  it('ranks the sandwiches logged in the period', async () => {
+    const { prom } = fakePrometheus(2e9);
+    const log = createLog();
+    const to = (1700000000 + 10) * 1000;
+    [1, 2, 3].forEach(slot => log.append(makeSandwich(slot, { solChange: slot * 1000000 })));
+    log.append(makeSandwich(20));
+
+    const report = await buildReport({ prom, log, timezone: 'UTC' }, 'daily', to);
+
+    expect(report.sandwichCount).toBe(3);
+    expect(report.best.map(s => s.data.sandwich.slot)).toEqual([3, 2, 1]);
+    expect(report.tips).toBe(2);
+    expect(report.bundles).toBe(2e9);
+  });
+});
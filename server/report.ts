@@ -0,0 +1,204 @@
+import { formatInTimeZone, getTimezoneOffset } from 'date-fns-tz';
+import { PrometheusDriver } from 'prometheus-query';
+import { payloadDecimals, resolveToken } from '../src/services/tokenRegistry';
+import { SandwichData } from '../src/types/sandwich';
+import { defaultExplorerSettings, txUrl } from '../src/utils/explorer';
+import { formatAmount, shortenAddress } from '../src/utils/format';
+import { sumValues } from '../src/utils/series';
+import { aggregateByToken, TokenStats } from '../src/utils/tokenStats';
+import { SandwichLog } from './sandwichLog';
+
+export type ReportPeriod = 'daily' | 'weekly';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const LAMPORTS_PER_SOL = 1e9;
+// Entries in each ranking
+const TOP_COUNT = 5;
+
+const PERIODS: Record<ReportPeriod, { label: string; days: number }> = {
+  daily: { label: 'Daily', days: 1 },
+  weekly: { label: 'Weekly', days: 7 },
+};
+
+// How long sandwiches are logged for, the longest period plus a day of slack for late runs and DST changes
+export const REPORT_RETENTION = (PERIODS.weekly.days + 1) * DAY;
+
+// The report's zone, or the server's own like the cron schedule
+export const resolveTimezone = (timezone: string | null): string =>
+  timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+// The same wall clock time whole days before `to` in the zone, so a day across a DST change lasts 23 or 25 hours
+export const periodStart = (period: ReportPeriod, to: number, timezone: string): number => {
+  // Wall clock time counted as UTC, where days can be subtracted without DST getting in the way
+  const wallStart = to + getTimezoneOffset(timezone, to) - PERIODS[period].days * DAY;
+  // The offset at the start differs from the one at `to` when DST changed in between
+  return wallStart - getTimezoneOffset(timezone, wallStart - getTimezoneOffset(timezone, wallStart));
+};
+
+// Every figure is summed over all bot instances, null when its query failed
+export interface PnlReport {
+  period: ReportPeriod;
+  // Unix ms
+  from: number;
+  to: number;
+  // IANA zone the period's days and every date are read in
+  timezone: string;
+  // SOL
+  balanceStart: number | null;
+  balanceEnd: number | null;
+  profit: number | null;
+  tips: number | null;
+  bundles: number | null;
+  sandwichCount: number;
+  // By SOL profit, highest first
+  topTokens: TokenStats[];
+  best: SandwichData[];
+  worst: SandwichData[];
+}
+
+// The same metrics the dashboard charts, each evaluated at a point in time
+const sumAt = async (prom: PrometheusDriver, query: string, time: number): Promise<number | null> => {
+  try {
+    return sumValues(await prom.instantQuery(query, new Date(time)), null);
+  } catch (error) {
+    console.error(`Error querying ${query} for the report:`, error);
+    return null;
+  }
+};
+
+export const buildReport = async (
+  { prom, log, timezone: zone }: { prom: PrometheusDriver; log: SandwichLog; timezone: string | null },
+  period: ReportPeriod,
+  to: number = Date.now()
+): Promise<PnlReport> => {
+  const timezone = resolveTimezone(zone);
+  const from = periodStart(period, to, timezone);
+  const range = `${Math.round((to - from) / 1000)}s`;
+  const [balanceStart, balanceEnd, profit, tips, bundles, sandwiches] = await Promise.all([
+    sumAt(prom, 'sandwich_bank_balance_amount', from),
+    sumAt(prom, 'sandwich_bank_balance_amount', to),
+    sumAt(prom, `increase(sandwich_possible_profit_total[${range}])`, to),
+    sumAt(prom, `increase(sandwich_tips_total[${range}])`, to),
+    sumAt(prom, `increase(sandwiches_landed_total[${range}])`, to),
+    log.read(from, to),
+  ]);
+
+  const bySolChange = [...sandwiches].sort((a, b) => b.data.sandwich.solChange - a.data.sandwich.solChange);
+  const best = bySolChange.slice(0, TOP_COUNT);
+  return {
+    period,
+    from,
+    to,
+    timezone,
+    balanceStart,
+    balanceEnd,
+    profit,
+    // sandwich_tips_total counts lamports
+    tips: tips === null ? null : tips / LAMPORTS_PER_SOL,
+    bundles: bundles === null ? null : Math.round(bundles),
+    sandwichCount: sandwiches.length,
+    topTokens: aggregateByToken(sandwiches).sort((a, b) => b.totalSolChange - a.totalSolChange).slice(0, TOP_COUNT),
+    best,
+    // Left out of the worst when there are too few sandwiches to fill both
+    worst: bySolChange.reverse().filter(s => !best.includes(s)).slice(0, TOP_COUNT),
+  };
+};
+
+const formatSol = (value: number | null): string => (value === null ? 'N/A' : `${value.toFixed(3)} SOL`);
+
+const formatCount = (value: number | null): string => (value === null ? 'N/A' : value.toLocaleString('en-US'));
+
+// Symbols come from token metadata, anyone can put markup in them
+const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char] as string));
+
+const symbolOf = (sandwich: SandwichData): string => sandwich.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK';
+
+const balanceChange = (report: PnlReport): number | null =>
+  report.balanceStart === null || report.balanceEnd === null ? null : report.balanceEnd - report.balanceStart;
+
+const formatIn = (report: PnlReport, time: number, pattern: string): string => formatInTimeZone(time, report.timezone, pattern);
+
+const formatRange = (report: PnlReport): string =>
+  `${formatIn(report, report.from, 'yyyy-MM-dd HH:mm')} - ${formatIn(report, report.to, 'yyyy-MM-dd HH:mm')} ${report.timezone}`;
+
+export const reportSubject = (report: PnlReport): string =>
+  `${PERIODS[report.period].label} MEV report ${formatIn(report, report.to, 'yyyy-MM-dd')}: ${formatSol(report.profit)} profit`;
+
+const summaryRows = (report: PnlReport): [string, string][] => [
+  ['Balance at start', formatSol(report.balanceStart)],
+  ['Balance at end', formatSol(report.balanceEnd)],
+  ['Balance change', formatSol(balanceChange(report))],
+  ['Possible profit', formatSol(report.profit)],
+  ['Tips paid', formatSol(report.tips)],
+  ['Landed bundles', formatCount(report.bundles)],
+  ['Sandwiches seen', formatCount(report.sandwichCount)],
+];
+
+// Inline styles only, mail clients drop <style> blocks
+const CELL = 'padding:4px 12px;border-bottom:1px solid #333;text-align:left;';
+const HEADING = 'font-size:16px;margin:24px 0 8px;';
+
+const table = (headers: string[], rows: string[][]): string => {
+  if (rows.length === 0) return '<p style="color:#888;">None in this period</p>';
+  const head = headers.map(h => `<th style="${CELL}color:#888;">${h}</th>`).join('');
+  const body = rows.map(row => `<tr>${row.map(cell => `<td style="${CELL}">${cell}</td>`).join('')}</tr>`).join('');
+  return `<table style="border-collapse:collapse;font-size:14px;"><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>`;
+};
+
+const sandwichRow = (report: PnlReport) => (sandwich: SandwichData): string[] => {
+  const s = sandwich.data.sandwich;
+  const decimals = resolveToken(s.mint, {}, {}, payloadDecimals(sandwich)).decimals;
+  const signature = s.victimSignature ?? s.frontrunSignature;
+  const slot = signature
+    ? `<a href="${escapeHtml(txUrl(defaultExplorerSettings, signature))}" style="color:#22c55e;">${s.slot}</a>`
+    : String(s.slot);
+  return [
+    formatIn(report, s.timestamp * 1000, 'yyyy-MM-dd HH:mm:ss'),
+    escapeHtml(symbolOf(sandwich)),
+    slot,
+    `${formatAmount(s.solChange, 9)} SOL`,
+    `${formatAmount(s.tokenChange, decimals)} ${escapeHtml(symbolOf(sandwich))}`,
+  ];
+};
+
+const SANDWICH_HEADERS = ['Time', 'Token', 'Slot', 'SOL', 'Token change'];
+
+export const renderReportHtml = (report: PnlReport): string => {
+  const summary = table(['Metric', 'Value'], summaryRows(report));
+  const tokens = table(
+    ['Token', 'Sandwiches', 'SOL profit', 'Buys / sells'],
+    report.topTokens.map(t => [
+      `${escapeHtml(t.symbol)} <span style="color:#888;">${escapeHtml(shortenAddress(t.mint))}</span>`,
+      String(t.count),
+      `${formatAmount(t.totalSolChange, 9)} SOL`,
+      `${t.buys} / ${t.sells}`,
+    ])
+  );
+  return [
+    '<div style="font-family:Arial,sans-serif;background:#000;color:#e5e7eb;padding:24px;">',
+    `<h1 style="font-size:20px;margin:0 0 4px;">${reportSubject(report)}</h1>`,
+    `<p style="color:#888;margin:0;">${formatRange(report)}</p>`,
+    `<h2 style="${HEADING}">Summary</h2>`,
+    summary,
+    `<h2 style="${HEADING}">Top tokens</h2>`,
+    tokens,
+    `<h2 style="${HEADING}">Best sandwiches</h2>`,
+    table(SANDWICH_HEADERS, report.best.map(sandwichRow(report))),
+    `<h2 style="${HEADING}">Worst sandwiches</h2>`,
+    table(SANDWICH_HEADERS, report.worst.map(sandwichRow(report))),
+    '</div>',
+  ].join('\n');
+};
+
+// Plain text part for clients that don't show HTML
+export const renderReportText = (report: PnlReport): string => [
+  reportSubject(report),
+  formatRange(report),
+  '',
+  ...summaryRows(report).map(([label, value]) => `${label}: ${value}`),
+  '',
+  'Top tokens:',
+  ...report.topTokens.map(t => `  ${t.symbol} (${t.mint}): ${t.count} sandwiches, ${formatAmount(t.totalSolChange, 9)} SOL`),
+].join('\n');
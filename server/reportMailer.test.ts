@@ -0,0 +1,100 @@
+/**
+ * @jest-environment node
+ */
+import { mkdtemp, rm } from 'fs/promises';
+import { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import path from 'path';
+import { PrometheusDriver, QueryResult, ResponseType } from 'prometheus-query';
+import { SMTPServer } from 'smtp-server';
+import { makeSandwich } from '../src/testing/fixtures';
+import { loadReportConfig } from './config';
+import { REPORT_RETENTION } from './report';
+import { createReportMailer, ReportMailer } from './reportMailer';
+import { createSandwichLog } from './sandwichLog';
+
+interface CapturedMail {
+  from: string;
+  to: string[];
+  raw: string;
+}
+
+describe('createReportMailer', () => {
+  let dir: string;
+  let smtp: SMTPServer;
+  let mails: CapturedMail[];
+  let mailer: ReportMailer;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'report-mailer-'));
+    mails = [];
+
+    // Captures every message instead of delivering it
+    smtp = new SMTPServer({
+      authOptional: true,
+      disabledCommands: ['STARTTLS'],
+      logger: false,
+      onData(stream, session, callback) {
+        let raw = '';
+        stream.on('data', chunk => { raw += chunk; });
+        stream.on('end', () => {
+          mails.push({
+            from: session.envelope.mailFrom ? session.envelope.mailFrom.address : '',
+            to: session.envelope.rcptTo.map(rcpt => rcpt.address),
+            raw,
+          });
+          callback();
+        });
+      },
+    });
+    await new Promise<void>(resolve => smtp.listen(0, '127.0.0.1', resolve));
+    const port = (smtp.server.address() as AddressInfo).port;
+
+    const config = loadReportConfig({
+      SMTP_HOST: '127.0.0.1',
+      SMTP_PORT: String(port),
+      REPORT_FROM: 'bot@example.com',
+      REPORT_TO: 'alice@example.com, bob@example.com',
+      REPORT_TIMEZONE: 'Asia/Tokyo',
+    });
+    if (!config) throw new Error('Expected a report config');
+
+    const prom = new PrometheusDriver({ endpoint: 'http://prometheus.test' });
+    prom.instantQuery = async () => {
+      const result: QueryResult = { resultType: ResponseType.VECTOR, result: [{ metric: { name: '', labels: {} }, value: { time: new Date(), value: 1.5 } }] };
+      return result;
+    };
+    const log = createSandwichLog({ file: path.join(dir, 'log.ndjson'), retentionMs: REPORT_RETENTION });
+    await log.append(makeSandwich(Math.floor(Date.now() / 1000) - 1700000000 - 60));
+
+    mailer = createReportMailer({ config, prom, log });
+  });
+
+  afterEach(async () => {
+    mailer.close();
+    await new Promise<void>(resolve => smtp.close(resolve));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('mails the report to every recipient over SMTP', async () => {
+    const report = await mailer.send('daily');
+
+    expect(mails).toHaveLength(1);
+    expect(mails[0].from).toBe('bot@example.com');
+    expect(mails[0].to).toEqual(['alice@example.com', 'bob@example.com']);
+    expect(mails[0].raw).toContain('Subject: Daily MEV report');
+    expect(mails[0].raw).toContain('1.500 SOL profit');
+    expect(mails[0].raw).toContain('Content-Type: text/html');
+    expect(mails[0].raw).toContain('Content-Type: text/plain');
+    expect(report).toMatchObject({ timezone: 'Asia/Tokyo', sandwichCount: 1, profit: 1.5 });
+  });
+
+  it('fails the send when the server refuses the message', async () => {
+    smtp.onData = (stream, session, callback) => {
+      stream.resume();
+      stream.on('end', () => callback(new Error('Mailbox full')));
+    };
+
+    await expect(mailer.send('weekly')).rejects.toThrow('Mailbox full');
+  });
+});
@@ -0,0 +1,56 @@
+import cron from 'node-cron';
+import nodemailer from 'nodemailer';
+import { PrometheusDriver } from 'prometheus-query';
+import { ReportConfig } from './config';
+import { buildReport, renderReportHtml, renderReportText, ReportPeriod, reportSubject } from './report';
+import { SandwichLog } from './sandwichLog';
+
+interface ReportMailerOptions {
+  config: ReportConfig;
+  prom: PrometheusDriver;
+  log: SandwichLog;
+}
+
+export const createReportMailer = ({ config, prom, log }: ReportMailerOptions) => {
+  const transport = nodemailer.createTransport({
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    auth: config.smtpUser ? { user: config.smtpUser, pass: config.smtpPassword ?? '' } : undefined,
+  });
+
+  // Builds the report for the period ending now and mails it to every recipient
+  const send = async (period: ReportPeriod) => {
+    const report = await buildReport({ prom, log, timezone: config.timezone }, period);
+    await transport.sendMail({
+      from: config.from,
+      to: config.to,
+      subject: reportSubject(report),
+      html: renderReportHtml(report),
+      text: renderReportText(report),
+    });
+    return report;
+  };
+
+  // Runs on the configured schedule until stopped, a failed send is logged and retried at the next run
+  const schedule = () => {
+    const run = (period: ReportPeriod) => async () => {
+      try {
+        await send(period);
+        console.log(`Sent ${period} report to ${config.to.join(', ')}`);
+      } catch (error) {
+        console.error(`Error sending ${period} report:`, error);
+      }
+      // The log only needs to cover the longest report
+      await log.prune();
+    };
+    const options = config.timezone ? { timezone: config.timezone } : undefined;
+    const tasks = [cron.schedule(config.dailyCron, run('daily'), options)];
+    if (config.weeklyCron) tasks.push(cron.schedule(config.weeklyCron, run('weekly'), options));
+    return () => tasks.forEach(task => task.stop());
+  };
+
+  return { send, schedule, close: () => transport.close() };
+};
+
+export type ReportMailer = ReturnType<typeof createReportMailer>;
@@ -0,0 +1,62 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { SandwichData } from '../src/types/sandwich';
+
+// Every sandwich of the last `retentionMs`, one JSON line each, so reports can rank a whole week of them.
+// Appending keeps a busy feed cheap, the file is only rewritten when old lines are pruned.
+export const createSandwichLog = ({ file, retentionMs }: { file: string; retentionMs: number }) => {
+  // Appends and prunes run one after another so lines are never lost to a concurrent rewrite
+  let queue: Promise<void> = Promise.resolve();
+  const enqueue = (task: () => Promise<void>) => {
+    queue = queue.then(task).catch(error => console.error('Error writing sandwich log:', error));
+    return queue;
+  };
+
+  const readAll = async (): Promise<SandwichData[]> => {
+    let text: string;
+    try {
+      text = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading sandwich log:', error);
+      }
+      return [];
+    }
+    const sandwiches: SandwichData[] = [];
+    text.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        sandwiches.push(JSON.parse(line));
+      } catch {
+        // A line cut short by a crash, the rest of the log is still good
+      }
+    });
+    return sandwiches;
+  };
+
+  const append = (sandwich: SandwichData) => enqueue(async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.appendFile(file, JSON.stringify(sandwich) + '\n');
+  });
+
+  // Sandwiches with a timestamp in [from, to), both in ms
+  const read = async (from: number, to: number): Promise<SandwichData[]> => {
+    await queue;
+    return (await readAll()).filter(s => {
+      const time = s.data.sandwich.timestamp * 1000;
+      return time >= from && time < to;
+    });
+  };
+
+  const prune = (now: number = Date.now()) => enqueue(async () => {
+    const all = await readAll();
+    const kept = all.filter(s => s.data.sandwich.timestamp * 1000 >= now - retentionMs);
+    if (kept.length === all.length) return;
+    await fs.writeFile(`${file}.tmp`, kept.map(s => JSON.stringify(s) + '\n').join(''));
+    await fs.rename(`${file}.tmp`, file);
+  });
+
+  return { append, read, prune };
+};
+
+export type SandwichLog = ReturnType<typeof createSandwichLog>;
@@ -0,0 +1,33 @@
+import 'dotenv/config';
+import { PrometheusDriver } from 'prometheus-query';
+import { loadPrometheusConfig, loadReportConfig } from './config';
+import { ReportPeriod, REPORT_RETENTION } from './report';
+import { createReportMailer } from './reportMailer';
+import { createSandwichLog } from './sandwichLog';
+
+const PERIODS: ReportPeriod[] = ['daily', 'weekly'];
+
+// npm run send-report -- [daily|weekly], mails a report right away instead of waiting for the schedule
+const main = async () => {
+  const period = (process.argv[2] ?? 'daily') as ReportPeriod;
+  if (!PERIODS.includes(period)) {
+    throw new Error(`Usage: send-report [${PERIODS.join('|')}]`);
+  }
+  // Only the report and Prometheus settings, so it runs without the server's JWT_SECRET
+  const config = loadReportConfig();
+  if (!config) {
+    throw new Error('SMTP_HOST and REPORT_TO must be set');
+  }
+  const { prometheusEndpoint, prometheusBaseUrl } = loadPrometheusConfig();
+  const prom = new PrometheusDriver({ endpoint: prometheusEndpoint, baseURL: prometheusBaseUrl });
+  const log = createSandwichLog({ file: config.sandwichLogFile, retentionMs: REPORT_RETENTION });
+  const mailer = createReportMailer({ config, prom, log });
+  const report = await mailer.send(period);
+  mailer.close();
+  console.log(`Sent ${period} report with ${report.sandwichCount} sandwiches to ${config.to.join(', ')}`);
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
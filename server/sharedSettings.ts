@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { OPERATOR_SETTING_KEYS, SharedSettings } from '../src/types/auth';
+
+// Operator settings shared by every dashboard, mirrored to a JSON file
+export const createSharedSettings = (file: string) => {
+  let settings: SharedSettings = {};
+
+  const load = async () => {
+    try {
+      const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) settings = parsed;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading shared settings:', error);
+      }
+    }
+  };
+
+  // Replaces the operator keys present in changes, anything else in it is ignored
+  const update = async (changes: Record<string, unknown>) => {
+    const picked = OPERATOR_SETTING_KEYS.filter(key => changes[key] !== undefined).map(key => [key, changes[key]]);
+    settings = { ...settings, ...Object.fromEntries(picked) };
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(`${file}.tmp`, JSON.stringify(settings, null, 2));
+    await fs.rename(`${file}.tmp`, file);
+    return settings;
+  };
+
+  return { load, update, get: () => settings };
+};
+
+export type SharedSettingsStore = ReturnType<typeof createSharedSettings>;
@@ -0,0 +1,11 @@
+const NodeEnvironment = require('jest-environment-node');
+
+// Jest's node environment predates Node's own fetch, which the server relies on
+class ServerTestEnvironment extends NodeEnvironment {
+  constructor(config, context) {
+    super(config, context);
+    Object.assign(this.global, { fetch, Request, Response, Headers, AbortController, AbortSignal });
+  }
+}
+
+module.exports = ServerTestEnvironment;
@@ -0,0 +1,46 @@
+import bcrypt from 'bcryptjs';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Role } from '../src/types/auth';
+
+export interface UserRecord {
+  username: string;
+  passwordHash: string;
+  role: Role;
+}
+
+const SALT_ROUNDS = 12;
+
+// Accounts in a JSON file, managed with `npm run add-user`
+export const createUserStore = (file: string) => {
+  let users: UserRecord[] = [];
+
+  const load = async () => {
+    try {
+      const parsed = JSON.parse(await fs.readFile(file, 'utf8'));
+      if (Array.isArray(parsed)) users = parsed;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error('Error reading users:', error);
+      }
+    }
+  };
+
+  const save = async () => {
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(users, null, 2));
+  };
+
+  // Adds the user, or replaces the password and role of an existing one
+  const upsert = async (username: string, password: string, role: Role) => {
+    const passwordHash = await bcrypt.hash(password, SALT_ROUNDS);
+    users = [...users.filter(u => u.username !== username), { username, passwordHash, role }];
+    await save();
+  };
+
+  const find = (username: string) => users.find(u => u.username === username);
+
+  return { load, upsert, find, count: () => users.length };
+};
+
+export type UserStore = ReturnType<typeof createUserStore>;
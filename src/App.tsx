@@ -1,18 +1,87 @@
 import React from 'react';
-import { BrowserRouter as Router, Routes, Route } from 'react-router-dom';
+import { Provider } from 'react-redux';
+import { BrowserRouter as Router, Routes, Route, Navigate, useLocation } from 'react-router-dom';
+import { ToastContainer } from 'react-toastify';
+import 'react-toastify/dist/ReactToastify.css';
+import Alerts from './components/Alerts';
 import Dashboard from './components/Dashboard';
+import Global from './components/Global';
+import History from './components/History';
+import Login from './components/Login';
 import Navbar from './components/Navbar';
+import Quarantine from './components/Quarantine';
+import Tokens from './components/Tokens';
+import TokenDetail from './components/TokenDetail';
+import VictimDetail from './components/VictimDetail';
+import Victims from './components/Victims';
+import { AlertsProvider } from './context/AlertsContext';
+import { AuthProvider, useAuth } from './context/AuthContext';
+import { EnvironmentProvider, useEnvironment } from './context/EnvironmentContext';
+import { PriceProvider } from './context/PriceContext';
+import { SandwichHistoryProvider } from './context/SandwichHistoryContext';
+import { TokenRegistryProvider } from './context/TokenRegistryContext';
+import { createAppStore } from './store';
+import { useConnection } from './store/hooks';
+
+const store = createAppStore();
+
+// Remounting on environment change tears down every poller and chart of the old environment,
+// reconnecting the store replaces its socket
+function EnvironmentRoutes() {
+    const { environment } = useEnvironment();
+    const { user } = useAuth();
+    const location = useLocation();
+    useConnection();
+
+    // Without a session only the login page is mounted, so no socket or query starts before signing in
+    if (!user) {
+        return (
+            <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route path="*" element={<Navigate to="/login" replace state={{ from: `${location.pathname}${location.search}` }} />} />
+            </Routes>
+        );
+    }
+
+    return (
+        <SandwichHistoryProvider key={environment.id}>
+            <TokenRegistryProvider>
+                <PriceProvider>
+                    <AlertsProvider>
+                        <div className="min-h-screen bg-[#121212] text-white">
+                            <Navbar />
+                            <Routes>
+                                <Route path="/" element={<Dashboard />} />
+                                <Route path="/tokens" element={<Tokens />} />
+                                <Route path="/tokens/:mint" element={<TokenDetail />} />
+                                <Route path="/victims" element={<Victims />} />
+                                <Route path="/victims/:publicKey" element={<VictimDetail />} />
+                                <Route path="/global" element={<Global />} />
+                                <Route path="/history" element={<History />} />
+                                <Route path="/alerts" element={<Alerts />} />
+                                <Route path="/quarantine" element={<Quarantine />} />
+                                <Route path="/login" element={<Navigate to="/" replace />} />
+                            </Routes>
+                        </div>
+                    </AlertsProvider>
+                </PriceProvider>
+            </TokenRegistryProvider>
+        </SandwichHistoryProvider>
+    );
+}
 
 function App() {
     return (
-        <Router>
-            <div className="min-h-screen bg-[#121212] text-white">
-                <Navbar />
-                <Routes>
-                    <Route path="/" element={<Dashboard />} />
-                </Routes>
-            </div>
-        </Router>
+        <Provider store={store}>
+            <AuthProvider>
+                <EnvironmentProvider>
+                    <Router>
+                        <EnvironmentRoutes />
+                    </Router>
+                    <ToastContainer position="bottom-right" theme="dark" />
+                </EnvironmentProvider>
+            </AuthProvider>
+        </Provider>
     );
 }
 
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { ruleLabel, useAlerts } from '../context/AlertsContext';
+import { useIsOperator } from '../context/AuthContext';
+import { useEnvironment } from '../context/EnvironmentContext';
+import { useSettings } from '../store/hooks';
+import { ALERT_RULE_DEFINITIONS, AlertRule, AlertRuleType } from '../services/alertRules';
+import { playAlertSound } from '../utils/alertSound';
+
+const inputClass = 'bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500';
+
+const Alerts = () => {
+  const { settings, updateSettings } = useSettings();
+  const { history, activeAlerts, clearHistory } = useAlerts();
+  const { environments } = useEnvironment();
+  const isOperator = useIsOperator();
+  const [newRuleType, setNewRuleType] = useState<AlertRuleType>('balanceDrop');
+  const alertSettings = settings.alerts;
+  const notificationsSupported = 'Notification' in window;
+
+  const updateRules = (rules: AlertRule[]) => updateSettings({ alerts: { ...alertSettings, rules } });
+
+  const updateRule = (id: string, changes: Partial<AlertRule>) =>
+    updateRules(alertSettings.rules.map(rule => (rule.id === id ? { ...rule, ...changes } : rule)));
+
+  const updateNumber = (id: string, key: 'threshold' | 'windowMinutes', value: string) => {
+    const parsed = parseFloat(value);
+    if (isNaN(parsed) || parsed < 0) return;
+    updateRule(id, { [key]: parsed });
+  };
+
+  const addRule = () => {
+    const template = alertSettings.rules.find(rule => rule.type === newRuleType);
+    updateRules([
+      ...alertSettings.rules,
+      {
+        id: `${newRuleType}-${Date.now().toString(36)}`,
+        type: newRuleType,
+        enabled: true,
+        threshold: template?.threshold ?? 0,
+        windowMinutes: template?.windowMinutes ?? 30,
+      },
+    ]);
+  };
+
+  const toggleBrowserNotifications = async () => {
+    if (alertSettings.browserNotifications) {
+      updateSettings({ alerts: { ...alertSettings, browserNotifications: false } });
+      return;
+    }
+    const permission = await Notification.requestPermission();
+    if (permission === 'granted') {
+      updateSettings({ alerts: { ...alertSettings, browserNotifications: true } });
+    }
+  };
+
+  const environmentName = (id: string) => environments.find(env => env.id === id)?.name ?? id;
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <h1 className="text-2xl font-bold mb-6 text-white">Alerts</h1>
+
+      <div className="card-bordered p-4 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-100">Rules</h2>
+            <p className="text-sm text-gray-500">
+              Checked every minute against Prometheus and the livefeed{!isOperator && ', only operators can change them'}
+            </p>
+          </div>
+          <div className="flex items-center gap-3 text-sm text-gray-400">
+            <label className="flex items-center gap-1">
+              <input
+                type="checkbox"
+                checked={alertSettings.sound}
+                onChange={(e) => updateSettings({ alerts: { ...alertSettings, sound: e.target.checked } })}
+              />
+              Sound
+            </label>
+            <button onClick={playAlertSound} className="text-xs text-gray-500 hover:text-white">Test</button>
+            <label className="flex items-center gap-1" title={notificationsSupported ? undefined : 'Not supported by this browser'}>
+              <input
+                type="checkbox"
+                checked={alertSettings.browserNotifications}
+                disabled={!notificationsSupported}
+                onChange={toggleBrowserNotifications}
+              />
+              Browser notifications
+            </label>
+          </div>
+        </div>
+        <fieldset disabled={!isOperator} className="disabled:opacity-60">
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">On</th>
+                  <th className="px-3 py-2">Condition</th>
+                  <th className="px-3 py-2">Threshold</th>
+                  <th className="px-3 py-2">Window</th>
+                  <th className="px-3 py-2"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {alertSettings.rules.map(rule => {
+                  const definition = ALERT_RULE_DEFINITIONS[rule.type];
+                  return (
+                    <tr key={rule.id} className="border-b border-white/5">
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={rule.enabled} onChange={(e) => updateRule(rule.id, { enabled: e.target.checked })} />
+                      </td>
+                      <td className="px-3 py-2">{definition.label}</td>
+                      <td className="px-3 py-2">
+                        {definition.thresholdLabel && (
+                          <label className="text-xs text-gray-400 flex items-center gap-2">
+                            {definition.thresholdLabel}
+                            <input
+                              type="number"
+                              min={0}
+                              step="any"
+                              defaultValue={rule.threshold}
+                              onBlur={(e) => updateNumber(rule.id, 'threshold', e.target.value)}
+                              className={`${inputClass} w-24`}
+                            />
+                          </label>
+                        )}
+                      </td>
+                      <td className="px-3 py-2">
+                        {definition.windowLabel && (
+                          <label className="text-xs text-gray-400 flex items-center gap-2">
+                            {definition.windowLabel}
+                            <input
+                              type="number"
+                              min={1}
+                              defaultValue={rule.windowMinutes}
+                              onBlur={(e) => updateNumber(rule.id, 'windowMinutes', e.target.value)}
+                              className={`${inputClass} w-24`}
+                            />
+                          </label>
+                        )}
+                      </td>
+                      <td className="px-3 py-2 text-right">
+                        <button
+                          onClick={() => updateRules(alertSettings.rules.filter(r => r.id !== rule.id))}
+                          className="text-xs text-red-500 hover:text-red-400"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex items-center gap-2 mt-4">
+            <select value={newRuleType} onChange={(e) => setNewRuleType(e.target.value as AlertRuleType)} className={inputClass}>
+              {(Object.keys(ALERT_RULE_DEFINITIONS) as AlertRuleType[]).map(type => (
+                <option key={type} value={type}>{ALERT_RULE_DEFINITIONS[type].label}</option>
+              ))}
+            </select>
+            <button onClick={addRule} className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white">
+              Add rule
+            </button>
+          </div>
+        </fieldset>
+      </div>
+
+      <div className="card-bordered p-4">
+        <div className="flex justify-between items-center mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-100">History</h2>
+            <p className="text-sm text-gray-500">{activeAlerts.length} active in this environment</p>
+          </div>
+          <button onClick={clearHistory} className="px-3 py-1 rounded-md text-sm text-red-500 hover:text-red-400">
+            Clear history
+          </button>
+        </div>
+        {history.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">No alerts have fired yet.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Fired</th>
+                  <th className="px-3 py-2">Environment</th>
+                  <th className="px-3 py-2">Rule</th>
+                  <th className="px-3 py-2">Message</th>
+                  <th className="px-3 py-2">Resolved</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history.map(entry => (
+                  <tr key={entry.id} className="border-b border-white/5">
+                    <td className="px-3 py-2">{format(new Date(entry.firedAt), 'yyyy-MM-dd HH:mm:ss')}</td>
+                    <td className="px-3 py-2 text-gray-400">{environmentName(entry.environment)}</td>
+                    <td className="px-3 py-2">{ruleLabel(entry)}</td>
+                    <td className="px-3 py-2 text-gray-400">{entry.message}</td>
+                    <td className="px-3 py-2">
+                      {entry.resolvedAt === null
+                        ? <span className="text-red-500">Active</span>
+                        : <span className="text-gray-500">{format(new Date(entry.resolvedAt), 'yyyy-MM-dd HH:mm:ss')}</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Alerts;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { useSettings } from '../store/hooks';
+import {
+  ChartRange,
+  parseDateTimeInput,
+  RANGE_PRESETS,
+  RangePreset,
+  resolveRange,
+  toDateTimeInput,
+} from '../utils/timeRange';
+
+interface ChartRangePickerProps {
+  range: ChartRange;
+  onChange: (range: ChartRange) => void;
+}
+
+const inputClass = 'bg-black text-white rounded px-2 py-0.5 text-xs border border-white/20 focus:outline-none focus:border-green-500';
+
+const buttonClass = (active: boolean) =>
+  `px-2 py-0.5 text-xs rounded ${active ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`;
+
+const ChartRangePicker = ({ range, onChange }: ChartRangePickerProps) => {
+  const { settings, updateSettings } = useSettings();
+  const timezone = settings.timezone;
+  const [showCustom, setShowCustom] = useState(range.preset === 'custom');
+  // Kept in milliseconds and formatted on every render, so the inputs follow timezone changes
+  const [custom, setCustom] = useState(() => resolveRange(range));
+
+  const toggleCustom = () => {
+    if (!showCustom) setCustom(resolveRange(range));
+    setShowCustom(!showCustom);
+  };
+
+  // Incomplete input parses to NaN and keeps the previous value
+  const updateCustom = (key: 'start' | 'end', value: string) => {
+    const timestamp = parseDateTimeInput(value, timezone);
+    if (!isNaN(timestamp)) setCustom(prev => ({ ...prev, [key]: timestamp }));
+  };
+
+  const applyCustom = () => {
+    if (custom.start >= custom.end) return;
+    onChange({ preset: 'custom', start: custom.start, end: custom.end });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {(Object.keys(RANGE_PRESETS) as RangePreset[]).map(preset => (
+        <button
+          key={preset}
+          onClick={() => { setShowCustom(false); onChange({ preset }); }}
+          className={buttonClass(range.preset === preset)}
+        >
+          {preset}
+        </button>
+      ))}
+      <button onClick={toggleCustom} className={buttonClass(range.preset === 'custom')}>
+        Custom
+      </button>
+      <button
+        onClick={() => updateSettings({ timezone: timezone === 'utc' ? 'local' : 'utc' })}
+        title="Toggle chart timezone"
+        className={buttonClass(false)}
+      >
+        {timezone === 'utc' ? 'UTC' : 'Local'}
+      </button>
+      {showCustom && (
+        <div className="flex flex-wrap items-center gap-1 w-full mt-1">
+          <input type="datetime-local" value={toDateTimeInput(custom.start, timezone)} onChange={(e) => updateCustom('start', e.target.value)} className={inputClass} />
+          <span className="text-xs text-gray-500">to</span>
+          <input type="datetime-local" value={toDateTimeInput(custom.end, timezone)} onChange={(e) => updateCustom('end', e.target.value)} className={inputClass} />
+          <button onClick={applyCustom} className={buttonClass(false)}>Apply</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartRangePicker;
@@ -0,0 +1,27 @@
+import React from 'react';
+import { COMPARE_OFFSETS, CompareOffset } from '../utils/comparison';
+
+interface CompareControlsProps {
+  offset: CompareOffset | null;
+  onChange: (offset: CompareOffset | null) => void;
+}
+
+const buttonClass = (active: boolean) =>
+  `px-2 py-0.5 text-xs rounded ${active ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`;
+
+// Picks a period to overlay on a chart, shifted back to line up with the current one
+const CompareControls = ({ offset, onChange }: CompareControlsProps) => (
+  <div className="flex items-center gap-1">
+    <span className="text-xs text-gray-500">Compare to</span>
+    <button onClick={() => onChange(null)} className={buttonClass(offset === null)}>
+      Off
+    </button>
+    {(Object.keys(COMPARE_OFFSETS) as CompareOffset[]).map(key => (
+      <button key={key} onClick={() => onChange(key)} className={buttonClass(offset === key)}>
+        {COMPARE_OFFSETS[key].label}
+      </button>
+    ))}
+  </div>
+);
+
+export default CompareControls;
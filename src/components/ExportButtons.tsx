@@ -0,0 +1,29 @@
+import React from 'react';
+import { downloadRows, ExportFormat, ExportRow } from '../utils/export';
+
+interface ExportButtonsProps {
+  basename: string;
+  // Rows are built on click so large series are only serialized when exported
+  getRows: () => ExportRow[];
+  disabled?: boolean;
+}
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json'];
+
+const ExportButtons = ({ basename, getRows, disabled = false }: ExportButtonsProps) => (
+  <div className="flex gap-1">
+    {EXPORT_FORMATS.map(exportFormat => (
+      <button
+        key={exportFormat}
+        onClick={() => downloadRows(getRows(), exportFormat, basename)}
+        disabled={disabled}
+        title={`Export as ${exportFormat.toUpperCase()}`}
+        className="px-2 py-0.5 text-xs rounded bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20 disabled:opacity-30 disabled:hover:bg-black disabled:hover:text-gray-400"
+      >
+        {exportFormat.toUpperCase()}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportButtons;
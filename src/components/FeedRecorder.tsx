@@ -0,0 +1,119 @@
+import React, { useRef, useState } from 'react';
+import { parseNdjson, ReplaySpeed, ReplayStatus } from '../services/feedReplay';
+import {
+  recordingStarted,
+  recordingStopped,
+  replayPaused,
+  replayPlayed,
+  replaySought,
+  replaySpeedChanged,
+  replayStarted,
+  replayStopped,
+  selectRecordingStatus,
+  selectReplayStatus,
+} from '../store/feedSlice';
+import { useAppDispatch, useAppSelector, useSettings } from '../store/hooks';
+import { formatTime } from '../utils/timeRange';
+
+const buttonClass = 'px-2 py-0.5 text-xs rounded bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20';
+const activeButtonClass = 'px-2 py-0.5 text-xs rounded bg-black text-white border border-white';
+
+const SPEEDS: ReplaySpeed[] = [1, 10, 'max'];
+
+const ReplayControls = ({ status }: { status: ReplayStatus }) => {
+  const dispatch = useAppDispatch();
+  const { settings } = useSettings();
+
+  return (
+    <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-400">
+      <button onClick={() => dispatch(status.playing ? replayPaused() : replayPlayed())} className={buttonClass}>
+        {status.playing ? 'Pause' : 'Play'}
+      </button>
+      <div className="flex gap-1">
+        {SPEEDS.map(speed => (
+          <button
+            key={speed}
+            onClick={() => dispatch(replaySpeedChanged(speed))}
+            className={status.speed === speed ? activeButtonClass : buttonClass}
+          >
+            {speed === 'max' ? 'Max' : `${speed}x`}
+          </button>
+        ))}
+      </div>
+      <input
+        type="range"
+        min={0}
+        max={status.total}
+        value={status.position}
+        onChange={(e) => dispatch(replaySought(Number(e.target.value)))}
+        className="flex-grow accent-green-500"
+      />
+      <span>
+        {status.position}/{status.total}
+        {status.currentTime !== null && ` · ${formatTime(status.currentTime, 'yyyy-MM-dd HH:mm:ss', settings.timezone)}`}
+      </span>
+      <button onClick={() => dispatch(replayStopped())} className={buttonClass}>Back to live</button>
+    </div>
+  );
+};
+
+// Records the raw livefeed messages to NDJSON and plays recordings back through the feed
+const FeedRecorder = () => {
+  const dispatch = useAppDispatch();
+  const recording = useAppSelector(selectRecordingStatus);
+  const replay = useAppSelector(selectReplayStatus);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Stopping saves what was recorded
+  const toggleRecording = () => dispatch(recording.recording ? recordingStopped() : recordingStarted());
+
+  const loadRecording = async (file: File) => {
+    try {
+      const { messages, skipped } = parseNdjson(await file.text());
+      if (messages.length === 0) {
+        setError(`No feed messages found in ${file.name}`);
+        return;
+      }
+      setError(skipped > 0 ? `Skipped ${skipped} invalid lines` : null);
+      dispatch(replayStarted(messages));
+    } catch (error) {
+      console.error('Error reading feed recording:', error);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1">
+        <button
+          onClick={toggleRecording}
+          disabled={!!replay}
+          className={`${recording.recording ? activeButtonClass : buttonClass} disabled:opacity-40 disabled:cursor-not-allowed`}
+        >
+          {recording.recording ? `Stop and save (${recording.count})` : 'Record'}
+        </button>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>
+          Replay file
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".ndjson,.jsonl,application/x-ndjson"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) loadRecording(file);
+            // Lets the same file be picked again
+            e.target.value = '';
+          }}
+        />
+        {recording.recording && <span className="inline-block w-2 h-2 rounded-full bg-red-600 animate-pulse" title="Recording" />}
+      </div>
+      {replay && <ReplayControls status={replay} />}
+      {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+    </div>
+  );
+};
+
+export default FeedRecorder;
@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { InstantVector } from 'prometheus-query';
+import { usePromQueries } from '../hooks/usePromQuery';
+import { PromQuerySpec } from '../services/promQueryClient';
+import { seriesLabel } from '../utils/prometheus';
+
+type FleetWindow = '1h' | '24h' | '7d';
+type MetricKey = 'balance' | 'profit' | 'bundles' | 'tips';
+
+interface InstanceRow {
+  instance: string;
+  balance: number;
+  profit: number;
+  bundles: number;
+  tips: number;
+}
+
+const METRIC_KEYS: MetricKey[] = ['balance', 'profit', 'bundles', 'tips'];
+
+// Balance and profit metrics are in SOL
+const formatSol = (value: number) => `${value.toFixed(3)} SOL`;
+
+// Balance is a gauge, the others are counters summed over the selected window
+const queries = (range: FleetWindow): Record<MetricKey, string> => ({
+  balance: 'sandwich_bank_balance_amount',
+  profit: `increase(sandwich_possible_profit_total[${range}])`,
+  bundles: `increase(sandwiches_landed_total[${range}])`,
+  tips: `increase(sandwich_tips_total[${range}])`,
+});
+
+const Global = () => {
+  const [selectedWindow, setSelectedWindow] = useState<FleetWindow>('24h');
+  const windowQueries = queries(selectedWindow);
+  const results = usePromQueries(
+    METRIC_KEYS.map((key): PromQuerySpec => ({ kind: 'instant', query: windowQueries[key] })),
+    { refreshMs: 60000 }
+  );
+  const isLoading = results.some(r => r.updatedAt === null && r.error === null);
+  const failedQueries = METRIC_KEYS.filter((key, i) => results[i].error !== null || (results[i].data && results[i].data?.resultType !== 'vector'));
+
+  const byInstance = new Map<string, InstanceRow>();
+  METRIC_KEYS.forEach((key, i) => {
+    const result = results[i].data;
+    if (!result || result.resultType !== 'vector') return;
+    // Keep every series, not only the first one
+    for (const vector of result.result as InstantVector[]) {
+      if (!vector.value) continue;
+      const instance = seriesLabel(vector.metric);
+      let row = byInstance.get(instance);
+      if (!row) {
+        row = { instance, balance: 0, profit: 0, bundles: 0, tips: 0 };
+        byInstance.set(instance, row);
+      }
+      row[key] += vector.value.value;
+    }
+  });
+  const rows = Array.from(byInstance.values()).sort((a, b) => a.instance.localeCompare(b.instance));
+
+  const totals = rows.reduce(
+    (acc, row) => ({
+      balance: acc.balance + row.balance,
+      profit: acc.profit + row.profit,
+      bundles: acc.bundles + row.bundles,
+      tips: acc.tips + row.tips,
+    }),
+    { balance: 0, profit: 0, bundles: 0, tips: 0 }
+  );
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Global</h1>
+        <div className="flex space-x-1 bg-gray-800 rounded-lg p-1">
+          {(['1h', '24h', '7d'] as FleetWindow[]).map(w => (
+            <button
+              key={w}
+              onClick={() => setSelectedWindow(w)}
+              className={`px-3 py-1 rounded-md text-sm ${selectedWindow === w ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+            >
+              {w}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Total Balance</h3>
+          <p className="text-3xl font-bold text-green-400">{formatSol(totals.balance)}</p>
+          <p className="text-xs text-gray-400">Across {rows.length} instance{rows.length === 1 ? '' : 's'}</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Profit</h3>
+          <p className="text-3xl font-bold text-green-400">{formatSol(totals.profit)}</p>
+          <p className="text-xs text-gray-400">Over the last {selectedWindow}</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Landed Bundles</h3>
+          <p className="text-3xl font-bold text-white">{Math.round(totals.bundles)}</p>
+          <p className="text-xs text-gray-400">Over the last {selectedWindow}</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Tips</h3>
+          <p className="text-3xl font-bold text-[#f59e42]">{Math.round(totals.tips)}</p>
+          <p className="text-xs text-gray-400">Over the last {selectedWindow}</p>
+        </div>
+      </div>
+
+      <div className="card-bordered p-4">
+        <h2 className="text-xl font-semibold text-gray-100">Instances</h2>
+        <p className="text-sm text-gray-500 mb-4">Every label set reported by Prometheus</p>
+        {failedQueries.length > 0 && (
+          <p className="text-sm text-red-500 mb-2">Failed to fetch: {failedQueries.join(', ')}</p>
+        )}
+        {isLoading ? (
+          <div className="text-center text-gray-500 text-sm py-10">Loading fleet data...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center text-red-500 text-sm py-10">No instances found.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Instance</th>
+                  <th className="px-3 py-2">Balance</th>
+                  <th className="px-3 py-2">Profit ({selectedWindow})</th>
+                  <th className="px-3 py-2">Bundles ({selectedWindow})</th>
+                  <th className="px-3 py-2">Tips ({selectedWindow})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.instance} className="border-b border-white/5">
+                    <td className="px-3 py-2 text-white">{row.instance}</td>
+                    <td className="px-3 py-2 text-green-400">{formatSol(row.balance)}</td>
+                    <td className="px-3 py-2 text-green-400">{formatSol(row.profit)}</td>
+                    <td className="px-3 py-2">{Math.round(row.bundles)}</td>
+                    <td className="px-3 py-2">{Math.round(row.tips)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Global;
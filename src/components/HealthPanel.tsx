@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useEnvironment, useQueryStats } from '../context/EnvironmentContext';
+import { useNow } from '../hooks/useNow';
+import { FeedState } from '../services/sandwichFeed';
+import { selectFeedStatus } from '../store/feedSlice';
+import { useAppSelector } from '../store/hooks';
+import { formatAge } from '../utils/format';
+
+const STATE_LABELS: Record<FeedState, string> = {
+  connecting: 'Connecting',
+  open: 'Connected',
+  reconnecting: 'Reconnecting',
+  'polling-fallback': 'Polling fallback',
+  replaying: 'Replaying',
+  stopped: 'Stopped',
+};
+
+const STATE_COLORS: Record<FeedState, string> = {
+  connecting: 'bg-yellow-400',
+  open: 'bg-green-500',
+  reconnecting: 'bg-yellow-400',
+  'polling-fallback': 'bg-orange-500',
+  replaying: 'bg-blue-500',
+  stopped: 'bg-red-600',
+};
+
+// Error rates above this mark a query red
+const ERROR_RATE_WARNING = 0.2;
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-0.5">
+    <span className="text-gray-500">{label}</span>
+    <span className="text-gray-300 text-right break-all">{children}</span>
+  </div>
+);
+
+// Navbar indicator for the livefeed socket, expanding into socket and Prometheus details
+const HealthPanel = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const { environment } = useEnvironment();
+  const status = useAppSelector(selectFeedStatus);
+  const queryStats = useQueryStats();
+  const now = useNow();
+
+  const socketRole = status.url === null ? 'none'
+    : status.url === environment.primaryWsUrl ? 'primary'
+    : status.url === environment.fallbackWsUrl ? 'fallback'
+    : 'unknown';
+  const failingQueries = queryStats.filter(q => q.count > 0 && q.errors / q.count > ERROR_RATE_WARNING).length;
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Connection health"
+        className="flex items-center gap-2 px-2 py-1 rounded text-sm text-gray-300 border border-white/20 hover:bg-gray-700"
+      >
+        <span className={`inline-block w-2 h-2 rounded-full ${STATE_COLORS[status.state]}`} />
+        {STATE_LABELS[status.state]}
+        {failingQueries > 0 && <span className="text-xs text-red-500">{failingQueries} failing</span>}
+        {status.rejectedMessages > 0 && <span className="text-xs text-yellow-400">{status.rejectedMessages} rejected</span>}
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-[28rem] max-h-[32rem] overflow-y-auto z-50 card-bordered bg-black p-4 text-xs shadow-lg">
+          <h3 className="text-sm font-semibold text-white mb-2">Livefeed</h3>
+          <Row label="State">{STATE_LABELS[status.state]}</Row>
+          <Row label="Socket">{status.url ? `${socketRole} · ${status.url}` : 'Not connected'}</Row>
+          <Row label="Reconnect attempts">{status.reconnectAttempts}</Row>
+          <Row label="Polling fallback">{status.state === 'polling-fallback' ? 'Active' : 'Inactive'}</Row>
+          <Row label="Last message">
+            {status.lastMessageAt ? `${formatAge(now - status.lastMessageAt)} ago` : 'None yet'}
+          </Row>
+          <Row label="Rejected messages">
+            <Link to="/quarantine" onClick={() => setIsOpen(false)} className="text-green-500 hover:text-green-400">
+              {status.rejectedMessages} · view quarantine
+            </Link>
+          </Row>
+
+          <h3 className="text-sm font-semibold text-white mt-4 mb-2">Prometheus queries</h3>
+          {queryStats.length === 0 ? (
+            <p className="text-gray-500">No queries made yet.</p>
+          ) : (
+            <table className="w-full text-left">
+              <thead className="text-gray-500 border-b border-white/10">
+                <tr>
+                  <th className="py-1 pr-2">Query</th>
+                  <th className="py-1 pr-2 text-right">Latency</th>
+                  <th className="py-1 pr-2 text-right">Errors</th>
+                  <th className="py-1 text-right">Last OK</th>
+                </tr>
+              </thead>
+              <tbody>
+                {queryStats.map(q => {
+                  const errorRate = q.errors / q.count;
+                  return (
+                    <tr key={`${q.kind}:${q.query}`} className="border-b border-white/5 align-top">
+                      <td className="py-1 pr-2 text-gray-300 font-mono break-all" title={q.lastError ?? undefined}>
+                        <span className="text-gray-500">{q.kind} </span>{q.query}
+                      </td>
+                      <td className="py-1 pr-2 text-right text-gray-300">{Math.round(q.avgLatencyMs)}ms</td>
+                      <td className={`py-1 pr-2 text-right ${errorRate > ERROR_RATE_WARNING ? 'text-red-500' : 'text-gray-300'}`}>
+                        {(errorRate * 100).toFixed(0)}% of {q.count}
+                      </td>
+                      <td className="py-1 text-right text-gray-400">
+                        {q.lastSuccessAt ? formatAge(now - q.lastSuccessAt) : 'never'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HealthPanel;
@@ -0,0 +1,288 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useSandwichStore } from '../context/SandwichHistoryContext';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+import { useIsOperator } from '../context/AuthContext';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import { compactStore, SandwichCursor, SandwichFilter, SandwichPage, StoreStats } from '../services/sandwichStore';
+import { SandwichData } from '../types/sandwich';
+import { useUsdProfits } from '../hooks/useUsdProfits';
+import { formatProfit, formatUsd, shortenAddress } from '../utils/format';
+import SandwichDrawer from './SandwichDrawer';
+
+const PAGE_SIZE = 25;
+
+interface Filters {
+  from: string;
+  to: string;
+  mint: string;
+  minProfit: string;
+}
+
+const emptyFilters: Filters = { from: '', to: '', mint: '', minProfit: '' };
+
+// datetime-local value to unix seconds
+const toUnixSeconds = (value: string): number | undefined =>
+  value ? Math.floor(new Date(value).getTime() / 1000) : undefined;
+
+const toFilter = (filters: Filters): SandwichFilter => {
+  const minProfit = parseFloat(filters.minProfit);
+  return {
+    from: toUnixSeconds(filters.from),
+    to: toUnixSeconds(filters.to),
+    mint: filters.mint.trim() || undefined,
+    minSolChange: isNaN(minProfit) ? undefined : minProfit * 1e9,
+  };
+};
+
+const inputClass = 'bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500';
+
+const History = () => {
+  const store = useSandwichStore();
+  const liveSandwiches = useAppSelector(selectSandwiches);
+  const { settings, updateSettings } = useSettings();
+  const isOperator = useIsOperator();
+  const { getSandwichDecimals } = useTokenRegistry();
+  const [filters, setFilters] = useState<Filters>(emptyFilters);
+  const [page, setPage] = useState(0);
+  // Where each page visited so far starts, the first one at the newest sandwich
+  const [pageStarts, setPageStarts] = useState<(SandwichCursor | undefined)[]>([undefined]);
+  const [result, setResult] = useState<SandwichPage>({ items: [], next: null });
+  const [total, setTotal] = useState(0);
+  const [stats, setStats] = useState<StoreStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedSandwich, setSelectedSandwich] = useState<SandwichData | null>(null);
+  const usdProfits = useUsdProfits(result.items);
+
+  const loadPage = useCallback(async () => {
+    if (!store) return;
+    setIsLoading(true);
+    try {
+      const [pageResult, storeStats] = await Promise.all([
+        store.query({ ...toFilter(filters), after: pageStarts[page], limit: PAGE_SIZE }),
+        store.stats(),
+      ]);
+      setResult(pageResult);
+      setStats(storeStats);
+      setError(null);
+    } catch (err) {
+      console.error('Error querying sandwich history:', err);
+      setError('Sandwich history is unavailable in this browser.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [store, filters, page, pageStarts]);
+
+  // Counting may walk the whole store, so paging doesn't recount
+  const loadTotal = useCallback(async () => {
+    if (!store) return;
+    try {
+      setTotal(await store.count(toFilter(filters)));
+    } catch (err) {
+      console.error('Error counting sandwich history:', err);
+    }
+  }, [store, filters]);
+
+  // Reload on filter or page changes, and when the live feed brings new sandwiches
+  useEffect(() => {
+    loadPage();
+  }, [loadPage, liveSandwiches]);
+
+  useEffect(() => {
+    loadTotal();
+  }, [loadTotal, liveSandwiches]);
+
+  const showNextPage = () => {
+    if (!result.next) return;
+    const next = result.next;
+    setPageStarts(prev => [...prev.slice(0, page + 1), next]);
+    setPage(p => p + 1);
+  };
+
+  const updateFilter = (key: keyof Filters, value: string) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setPage(0);
+  };
+
+  const handleClear = async () => {
+    if (!store || !window.confirm('Delete all stored sandwiches for this environment?')) return;
+    await store.clear();
+    setPage(0);
+    loadPage();
+    loadTotal();
+  };
+
+  const handleCompact = async () => {
+    if (!store) return;
+    await compactStore(store, settings.history.retentionDays, settings.history.maxEntries);
+    loadPage();
+    loadTotal();
+  };
+
+  const updateHistorySetting = (key: 'retentionDays' | 'maxEntries', value: string) => {
+    const parsed = parseInt(value, 10);
+    if (isNaN(parsed) || parsed < 1) return;
+    updateSettings({ history: { ...settings.history, [key]: parsed } });
+  };
+
+  const pageCount = Math.max(page + 1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <h1 className="text-2xl font-bold mb-6 text-white">History</h1>
+
+      <div className="card-bordered p-4 mb-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            From
+            <input type="datetime-local" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            To
+            <input type="datetime-local" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            Mint
+            <input value={filters.mint} onChange={(e) => updateFilter('mint', e.target.value)} placeholder="Token mint" className={`${inputClass} w-72`} />
+          </label>
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            Min profit (SOL)
+            <input type="number" step="0.001" value={filters.minProfit} onChange={(e) => updateFilter('minProfit', e.target.value)} className={`${inputClass} w-28`} />
+          </label>
+          <button
+            onClick={() => { setFilters(emptyFilters); setPage(0); }}
+            className="px-3 py-1 rounded-md text-sm text-gray-400 hover:text-white"
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+
+      <div className="card-bordered p-4 mb-6">
+        <div className="flex justify-between items-center mb-4">
+          <p className="text-sm text-gray-500">
+            {total} matching sandwich{total === 1 ? '' : 'es'}
+          </p>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            <button
+              onClick={() => setPage(p => Math.max(0, p - 1))}
+              disabled={page === 0}
+              className="px-2 py-0.5 rounded border border-white/20 disabled:opacity-30 hover:text-white"
+            >
+              ‹
+            </button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <button
+              onClick={showNextPage}
+              disabled={!result.next}
+              className="px-2 py-0.5 rounded border border-white/20 disabled:opacity-30 hover:text-white"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+        {error ? (
+          <div className="text-center text-red-500 text-sm py-10">{error}</div>
+        ) : isLoading && result.items.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">Loading sandwich history...</div>
+        ) : result.items.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">No sandwiches match these filters.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Time</th>
+                  <th className="px-3 py-2">Slot</th>
+                  <th className="px-3 py-2">Token</th>
+                  <th className="px-3 py-2">Victim</th>
+                  <th className="px-3 py-2">Profit</th>
+                  <th className="px-3 py-2">USD</th>
+                </tr>
+              </thead>
+              <tbody>
+                {result.items.map(s => (
+                  <tr
+                    key={s.data.sandwich.slot}
+                    onClick={() => setSelectedSandwich(s)}
+                    className="border-b border-white/5 cursor-pointer hover:bg-white/5"
+                  >
+                    <td className="px-3 py-2">{format(new Date(s.data.sandwich.timestamp * 1000), 'yyyy-MM-dd HH:mm:ss')}</td>
+                    <td className="px-3 py-2 text-gray-400">{s.data.sandwich.slot}</td>
+                    <td className="px-3 py-2">{s.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK'}</td>
+                    <td className="px-3 py-2 text-gray-400">
+                      {s.data.publicKey ? (
+                        <Link
+                          to={`/victims/${s.data.publicKey}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="hover:text-green-500"
+                        >
+                          {shortenAddress(s.data.publicKey)}
+                        </Link>
+                      ) : 'N/A'}
+                    </td>
+                    <td className="px-3 py-2 text-green-500">
+                      {formatProfit(s.data.sandwich.solChange, s.data.sandwich.tokenChange, s.data.permanentTokenData?.rawTokenMetadata?.symbol, getSandwichDecimals(s))}
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">
+                      {s.data.sandwich.slot in usdProfits ? formatUsd(usdProfits[s.data.sandwich.slot]) : '…'}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      <div className="card-bordered p-4">
+        <h2 className="text-xl font-semibold text-gray-100 mb-1">Storage</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {stats ? (
+            <>
+              {stats.count} sandwiches stored
+              {stats.oldestTimestamp !== null && stats.newestTimestamp !== null && (
+                <> from {format(new Date(stats.oldestTimestamp * 1000), 'yyyy-MM-dd HH:mm')} to {format(new Date(stats.newestTimestamp * 1000), 'yyyy-MM-dd HH:mm')}</>
+              )}
+            </>
+          ) : 'Storage statistics unavailable'}
+        </p>
+        <fieldset disabled={!isOperator} className="flex flex-wrap items-end gap-3 disabled:opacity-60">
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            Retention (days)
+            <input
+              type="number"
+              min={1}
+              defaultValue={settings.history.retentionDays}
+              onBlur={(e) => updateHistorySetting('retentionDays', e.target.value)}
+              className={`${inputClass} w-28`}
+            />
+          </label>
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            Max entries
+            <input
+              type="number"
+              min={1}
+              defaultValue={settings.history.maxEntries}
+              onBlur={(e) => updateHistorySetting('maxEntries', e.target.value)}
+              className={`${inputClass} w-32`}
+            />
+          </label>
+          <button onClick={handleCompact} className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white">
+            Compact now
+          </button>
+          <button onClick={handleClear} className="px-3 py-1 rounded-md text-sm text-red-500 hover:text-red-400">
+            Clear history
+          </button>
+        </fieldset>
+      </div>
+
+      <SandwichDrawer sandwich={selectedSandwich} onClose={() => setSelectedSandwich(null)} />
+    </div>
+  );
+};
+
+export default History;
@@ -0,0 +1,129 @@
+import React, { useRef, useState } from 'react';
+import {
+  addWidget,
+  BUILT_IN_PRESETS,
+  DashboardLayout,
+  isBuiltInPreset,
+  parseLayout,
+  WIDGET_DEFINITIONS,
+  WIDGET_IDS,
+  WidgetId,
+} from '../services/dashboardLayout';
+import { downloadFile } from '../utils/export';
+
+const buttonClass = 'px-2 py-0.5 text-xs rounded bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20 disabled:opacity-30 disabled:hover:bg-black disabled:hover:text-gray-400';
+const inputClass = 'bg-black text-white rounded px-2 py-0.5 text-xs border border-white/20 focus:outline-none focus:border-green-500';
+
+interface LayoutEditorProps {
+  layout: DashboardLayout;
+  presets: Record<string, DashboardLayout>;
+  onChange: (layout: DashboardLayout) => void;
+  onApplyPreset: (name: string) => void;
+  onSavePreset: (name: string, layout?: DashboardLayout) => boolean;
+  onDeletePreset: (name: string) => void;
+}
+
+// Presets, adding widgets and JSON import and export, shown above the grid while customizing
+const LayoutEditor = ({ layout, presets, onChange, onApplyPreset, onSavePreset, onDeletePreset }: LayoutEditorProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [presetName, setPresetName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const hiddenWidgets = WIDGET_IDS.filter(id => !layout.widgets.some(w => w.id === id));
+
+  const savePreset = () => {
+    const name = presetName.trim();
+    if (!onSavePreset(name)) {
+      setError(`"${name}" is a built-in preset, pick another name`);
+      return;
+    }
+    setError(null);
+    setPresetName('');
+  };
+
+  const importLayout = async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text());
+      const imported = parseLayout(parsed);
+      // Unlike a stored layout, a file without widgets is more likely a wrong file than a cleared dashboard
+      if (!imported || imported.widgets.length === 0) {
+        setError(`No dashboard widgets found in ${file.name}`);
+        return;
+      }
+      setError(null);
+      onChange(imported);
+      // Named exports come back as presets as well
+      if (typeof parsed.name === 'string' && parsed.name.trim() && !isBuiltInPreset(parsed.name.trim())) {
+        onSavePreset(parsed.name.trim(), imported);
+      }
+    } catch (error) {
+      console.error('Error reading dashboard layout:', error);
+      setError(`Could not read ${file.name}`);
+    }
+  };
+
+  const exportLayout = () => {
+    const name = presetName.trim() || undefined;
+    downloadFile(JSON.stringify({ name, ...layout }, null, 2), 'application/json', 'dashboard-layout', 'json');
+  };
+
+  return (
+    <div className="card-bordered p-3 mb-6 text-xs text-gray-400 space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value="" onChange={(e) => onApplyPreset(e.target.value)} className={inputClass}>
+          <option value="" disabled>Apply preset...</option>
+          <optgroup label="Built in">
+            {Object.keys(BUILT_IN_PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+          </optgroup>
+          {Object.keys(presets).length > 0 && (
+            <optgroup label="Saved">
+              {Object.keys(presets).map(name => <option key={name} value={name}>{name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <input
+          value={presetName}
+          onChange={(e) => setPresetName(e.target.value)}
+          placeholder="Preset name"
+          className={`${inputClass} w-32`}
+        />
+        <button onClick={savePreset} disabled={!presetName.trim()} className={buttonClass}>Save preset</button>
+        <select
+          value=""
+          onChange={(e) => onChange(addWidget(layout, e.target.value as WidgetId))}
+          disabled={hiddenWidgets.length === 0}
+          className={`${inputClass} disabled:opacity-30`}
+        >
+          <option value="" disabled>Add widget...</option>
+          {hiddenWidgets.map(id => <option key={id} value={id}>{WIDGET_DEFINITIONS[id].label}</option>)}
+        </select>
+        <button onClick={exportLayout} className={buttonClass}>Export JSON</button>
+        <button onClick={() => fileInput.current?.click()} className={buttonClass}>Import JSON</button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importLayout(file);
+            // Lets the same file be picked again
+            e.target.value = '';
+          }}
+        />
+      </div>
+      {Object.keys(presets).length > 0 && (
+        <div className="flex flex-wrap items-center gap-1">
+          <span>Saved presets:</span>
+          {Object.keys(presets).map(name => (
+            <button key={name} onClick={() => onDeletePreset(name)} title={`Delete ${name}`} className={buttonClass}>
+              {name} ×
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <p className="text-red-500">{error}</p>}
+    </div>
+  );
+};
+
+export default LayoutEditor;
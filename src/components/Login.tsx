@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../context/AuthContext';
+
+const inputClass = 'w-full bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500';
+
+const Login = () => {
+  const { login } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  // Set by the redirect that sent the user here
+  const from: string = (location.state as { from?: string } | null)?.from ?? '/';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      await login(username.trim(), password);
+      navigate(from, { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center" style={{ backgroundColor: '#000' }}>
+      <form onSubmit={handleSubmit} className="card-bordered p-6 w-80 space-y-4">
+        <div>
+          <h1 className="text-xl font-semibold text-gray-100">Solana MEV Bot</h1>
+          <p className="text-sm text-gray-500">Sign in to view the dashboard</p>
+        </div>
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>Username</span>
+          <input value={username} onChange={(e) => setUsername(e.target.value)} autoComplete="username" autoFocus className={inputClass} />
+        </label>
+        <label className="block text-xs text-gray-400 space-y-1">
+          <span>Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            className={inputClass}
+          />
+        </label>
+        {error && <p className="text-sm text-red-500">{error}</p>}
+        <button
+          type="submit"
+          disabled={isSubmitting || !username.trim() || !password}
+          className="w-full px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          {isSubmitting ? 'Signing in...' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default Login;
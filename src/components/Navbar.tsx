@@ -1,18 +1,70 @@
 import React from 'react';
-import { Link } from 'react-router-dom';
+import { NavLink } from 'react-router-dom';
+import { useAlerts } from '../context/AlertsContext';
+import { useAuth } from '../context/AuthContext';
+import { useEnvironment } from '../context/EnvironmentContext';
+import { useNow } from '../hooks/useNow';
+import { formatAge } from '../utils/format';
+import HealthPanel from './HealthPanel';
+
+// Warn about the coming logout this long before the session ends
+const EXPIRY_WARNING = 10 * 60 * 1000;
+
+const linkClass = ({ isActive }: { isActive: boolean }) =>
+  isActive ? 'text-white hover:text-gray-300' : 'text-gray-400 hover:text-gray-300';
 
 const Navbar = () => {
+  const { environment, environments, setEnvironmentId } = useEnvironment();
+  const { activeAlerts } = useAlerts();
+  const { enabled: authEnabled, user, expiresAt, logout } = useAuth();
+  const now = useNow(30000);
+  const isOperator = user?.role === 'operator';
+  const expiresIn = expiresAt !== null ? expiresAt - now : null;
+
   return (
     <nav className="bg-[#1a1a1a] px-6 py-4">
       <div className="flex items-center justify-between">
         <div className="flex items-center space-x-6">
           <h1 className="text-xl font-semibold">Solana MEV Bot</h1>
           <div className="flex space-x-4">
-            <Link to="/" className="text-white hover:text-gray-300">Dashboard</Link>
-            <Link to="/tokens" className="text-gray-400 hover:text-gray-300">Tokens</Link>
-            <Link to="/global" className="text-gray-400 hover:text-gray-300">Global</Link>
+            <NavLink to="/" end className={linkClass}>Dashboard</NavLink>
+            <NavLink to="/tokens" className={linkClass}>Tokens</NavLink>
+            <NavLink to="/victims" className={linkClass}>Victims</NavLink>
+            <NavLink to="/global" className={linkClass}>Global</NavLink>
+            <NavLink to="/history" className={linkClass}>History</NavLink>
+            <NavLink to="/alerts" className={linkClass}>
+              Alerts
+              {activeAlerts.length > 0 && (
+                <span className="ml-1 px-1.5 rounded-full bg-red-600 text-white text-xs">{activeAlerts.length}</span>
+              )}
+            </NavLink>
           </div>
         </div>
+        <div className="flex items-center gap-3">
+          <HealthPanel />
+          <select
+            value={environment.id}
+            onChange={(e) => setEnvironmentId(e.target.value)}
+            disabled={!isOperator}
+            title={isOperator ? 'Bot environment' : 'Only operators can switch environments'}
+            className="bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500 disabled:opacity-60"
+          >
+            {environments.map(env => (
+              <option key={env.id} value={env.id}>{env.name}</option>
+            ))}
+          </select>
+          {authEnabled && user && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-gray-400">{user.username} · {user.role}</span>
+              {expiresIn !== null && expiresIn < EXPIRY_WARNING && (
+                <span className="text-xs text-yellow-400">Session ends in {formatAge(expiresIn)}</span>
+              )}
+              <button onClick={logout} className="px-2 py-1 rounded text-gray-300 border border-white/20 hover:bg-gray-700">
+                Log out
+              </button>
+            </div>
+          )}
+        </div>
       </div>
     </nav>
   );
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { useIsOperator } from '../context/AuthContext';
+import { useSettings } from '../store/hooks';
+import { TOKEN_LIST } from '../data/tokenList';
+import { PriceSourceId, PricingSettings, SOL_MINT } from '../services/priceSource';
+import { shortenAddress } from '../utils/format';
+
+const inputClass = 'bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500';
+
+const SOURCE_LABELS: Record<PriceSourceId, string> = {
+  prometheus: 'Prometheus metric',
+  static: 'Manual prices',
+};
+
+const symbolFor = (mint: string) => TOKEN_LIST.find(t => t.mint === mint)?.symbol ?? shortenAddress(mint);
+
+// Where USD prices come from, shared by the USD profit of sandwiches and the USD chart unit
+const PricingSettingsCard = () => {
+  const { settings, updateSettings } = useSettings();
+  const isOperator = useIsOperator();
+  const pricing = settings.pricing;
+  const [newMint, setNewMint] = useState('');
+  const [newPrice, setNewPrice] = useState('');
+
+  const updatePricing = (changes: Partial<PricingSettings>) => updateSettings({ pricing: { ...pricing, ...changes } });
+
+  const setStaticPrice = (mint: string, value: string) => {
+    const parsed = parseFloat(value);
+    const { [mint]: _removed, ...rest } = pricing.staticPrices;
+    if (value.trim() === '') {
+      updatePricing({ staticPrices: rest });
+    } else if (!isNaN(parsed) && parsed >= 0) {
+      updatePricing({ staticPrices: { ...rest, [mint]: parsed } });
+    }
+  };
+
+  const addStaticPrice = () => {
+    if (!newMint.trim()) return;
+    setStaticPrice(newMint.trim(), newPrice);
+    setNewMint('');
+    setNewPrice('');
+  };
+
+  // SOL is always listed since every sandwich needs it
+  const mints = Array.from(new Set([SOL_MINT, ...Object.keys(pricing.staticPrices)]));
+
+  return (
+    <div className="card-bordered p-4 mt-6">
+      <h2 className="text-xl font-semibold text-gray-100 mb-1">USD Pricing</h2>
+      <p className="text-sm text-gray-500 mb-4">Source of the USD prices used for sandwich profit and the USD chart unit</p>
+      <fieldset disabled={!isOperator} className="disabled:opacity-60">
+        <div className="flex flex-wrap items-end gap-3 mb-4">
+          <label className="text-xs text-gray-400 flex flex-col gap-1">
+            Source
+            <select
+              value={pricing.source}
+              onChange={(e) => updatePricing({ source: e.target.value as PriceSourceId })}
+              className={inputClass}
+            >
+              {(Object.keys(SOURCE_LABELS) as PriceSourceId[]).map(id => (
+                <option key={id} value={id}>{SOURCE_LABELS[id]}</option>
+              ))}
+            </select>
+          </label>
+          {pricing.source === 'prometheus' && (
+            <label className="text-xs text-gray-400 flex flex-col gap-1">
+              Metric, labelled by mint
+              <input
+                key={pricing.prometheusMetric}
+                defaultValue={pricing.prometheusMetric}
+                onBlur={(e) => e.target.value.trim() && updatePricing({ prometheusMetric: e.target.value.trim() })}
+                className={`${inputClass} w-64 font-mono`}
+              />
+            </label>
+          )}
+        </div>
+        {pricing.source === 'static' && (
+          <div className="space-y-2">
+            {mints.map(mint => (
+              <label key={mint} className="text-xs text-gray-400 flex items-center gap-2">
+                <span className="w-24">{symbolFor(mint)}</span>
+                <input
+                  type="number"
+                  min={0}
+                  step="any"
+                  defaultValue={pricing.staticPrices[mint] ?? ''}
+                  onBlur={(e) => setStaticPrice(mint, e.target.value)}
+                  placeholder="USD"
+                  className={`${inputClass} w-32`}
+                />
+              </label>
+            ))}
+            <div className="flex items-center gap-2 pt-2">
+              <input value={newMint} onChange={(e) => setNewMint(e.target.value)} placeholder="Token mint" className={`${inputClass} w-72`} />
+              <input
+                type="number"
+                min={0}
+                step="any"
+                value={newPrice}
+                onChange={(e) => setNewPrice(e.target.value)}
+                placeholder="USD"
+                className={`${inputClass} w-32`}
+              />
+              <button onClick={addStaticPrice} className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white">
+                Add price
+              </button>
+            </div>
+          </div>
+        )}
+      </fieldset>
+    </div>
+  );
+};
+
+export default PricingSettingsCard;
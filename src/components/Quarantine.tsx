@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { LATEST_SCHEMA_VERSION } from '../services/feedSchema';
+import { RejectedMessage } from '../services/sandwichFeed';
+import { quarantineCleared, selectFeedStatus, selectQuarantine } from '../store/feedSlice';
+import { useAppDispatch, useAppSelector } from '../store/hooks';
+
+// Indented when the message is JSON at all, as received otherwise
+const prettyPrint = (data: string) => {
+  try {
+    return JSON.stringify(JSON.parse(data), null, 2);
+  } catch {
+    return data;
+  }
+};
+
+// Feed messages dropped by schema validation, with their raw JSON and why they were rejected
+const Quarantine = () => {
+  const dispatch = useAppDispatch();
+  const quarantine = useAppSelector(selectQuarantine);
+  const status = useAppSelector(selectFeedStatus);
+  // Held by reference, new messages shift the indexes
+  const [expanded, setExpanded] = useState<RejectedMessage | null>(null);
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Quarantine</h1>
+        <button
+          onClick={() => { dispatch(quarantineCleared()); setExpanded(null); }}
+          disabled={quarantine.length === 0}
+          className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+        >
+          Clear
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Rejected Messages</h3>
+          <p className={`text-2xl font-bold ${status.rejectedMessages > 0 ? 'text-red-500' : 'text-white'}`}>{status.rejectedMessages}</p>
+          <p className="text-xs text-gray-400">Since the feed connected</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Schema Versions</h3>
+          <p className="text-2xl font-bold text-white">1 – {LATEST_SCHEMA_VERSION}</p>
+          <p className="text-xs text-gray-400">Newer versions are read as {LATEST_SCHEMA_VERSION}</p>
+        </div>
+      </div>
+
+      <div className="card-bordered p-4">
+        {quarantine.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">No rejected messages.</div>
+        ) : (
+          <table className="w-full text-sm text-left text-gray-300">
+            <thead className="text-xs text-gray-400 border-b border-white/10">
+              <tr>
+                <th className="px-3 py-2">Received</th>
+                <th className="px-3 py-2">Source</th>
+                <th className="px-3 py-2">Version</th>
+                <th className="px-3 py-2">Reason</th>
+              </tr>
+            </thead>
+            <tbody>
+              {quarantine.map((message, index) => (
+                <React.Fragment key={`${message.receivedAt}-${index}`}>
+                  <tr
+                    onClick={() => setExpanded(expanded === message ? null : message)}
+                    className="border-b border-white/5 cursor-pointer hover:bg-white/5 align-top"
+                  >
+                    <td className="px-3 py-2 whitespace-nowrap">{format(message.receivedAt, 'yyyy-MM-dd HH:mm:ss')}</td>
+                    <td className="px-3 py-2 text-gray-400">{message.source}</td>
+                    <td className="px-3 py-2 text-gray-400">{message.schemaVersion ?? 'N/A'}</td>
+                    <td className="px-3 py-2 text-red-400 font-mono break-all">{message.reason}</td>
+                  </tr>
+                  {expanded === message && (
+                    <tr className="border-b border-white/5">
+                      <td colSpan={4} className="px-3 py-2">
+                        <pre className="max-h-96 overflow-auto bg-gray-900 rounded p-3 text-xs text-gray-300 whitespace-pre-wrap break-all">
+                          {prettyPrint(message.data)}
+                        </pre>
+                      </td>
+                    </tr>
+                  )}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {quarantine.length > 0 && (
+          <p className="text-xs text-gray-500 mt-3">
+            Click a message for its raw JSON.
+            {status.rejectedMessages > quarantine.length && ` Showing the newest ${quarantine.length} of ${status.rejectedMessages}.`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Quarantine;
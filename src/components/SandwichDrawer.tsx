@@ -0,0 +1,146 @@
+import React, { useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { SandwichData } from '../types/sandwich';
+import { useSettings } from '../store/hooks';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import { accountUrl, ExplorerId, EXPLORERS, txUrl } from '../utils/explorer';
+import { useUsdProfits } from '../hooks/useUsdProfits';
+import { formatAmount, formatProfit, formatUsd } from '../utils/format';
+
+interface SandwichDrawerProps {
+  sandwich: SandwichData | null;
+  onClose: () => void;
+}
+
+const Row = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div className="flex justify-between gap-4 py-1.5 border-b border-white/5 text-sm">
+    <span className="text-gray-400 flex-shrink-0">{label}</span>
+    <span className="text-gray-200 text-right break-all">{children}</span>
+  </div>
+);
+
+const ExternalLink = ({ href, children }: { href: string; children: React.ReactNode }) => (
+  <a href={href} target="_blank" rel="noopener noreferrer" className="text-green-500 hover:text-green-400">
+    {children}
+  </a>
+);
+
+const SandwichDrawer = ({ sandwich, onClose }: SandwichDrawerProps) => {
+  const { settings, updateSettings } = useSettings();
+  const { getSandwichDecimals } = useTokenRegistry();
+  const explorer = settings.explorer;
+  const usdProfits = useUsdProfits(sandwich ? [sandwich] : []);
+
+  // Close on Escape
+  useEffect(() => {
+    if (!sandwich) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [sandwich, onClose]);
+
+  if (!sandwich) return null;
+
+  const s = sandwich.data.sandwich;
+  const symbol = sandwich.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK';
+  const tokenDecimals = getSandwichDecimals(sandwich);
+  const inDecimals = s.isSell ? tokenDecimals : 9;
+  const outDecimals = s.isSell ? 9 : tokenDecimals;
+  const inUnit = s.isSell ? symbol : 'SOL';
+  const outUnit = s.isSell ? 'SOL' : symbol;
+
+  const signatures: [string, string | undefined][] = [
+    ['Frontrun', s.frontrunSignature],
+    ['Victim', s.victimSignature],
+    ['Backrun', s.backrunSignature],
+  ];
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/60" onClick={onClose} />
+      <div className="relative w-full max-w-md h-full overflow-y-auto bg-black border-l border-white/10 p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h2 className="text-xl font-semibold text-gray-100">🥪 Sandwich</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white text-xl leading-none">×</button>
+        </div>
+
+        <h3 className="text-sm font-semibold text-white mt-4 mb-1">Overview</h3>
+        <Row label="Slot">{s.slot}</Row>
+        <Row label="Time">{format(new Date(s.timestamp * 1000), 'yyyy-MM-dd HH:mm:ss')}</Row>
+        <Row label="Side">{s.isSell ? 'Sell' : 'Buy'}</Row>
+        <Row label="Token">
+          <Link to={`/tokens/${s.mint}`} onClick={onClose} className="text-white hover:text-green-500">{symbol}</Link>
+        </Row>
+        <Row label="Mint"><ExternalLink href={accountUrl(explorer, s.mint)}>{s.mint}</ExternalLink></Row>
+        <Row label="Victim">
+          {sandwich.data.publicKey
+            ? <ExternalLink href={accountUrl(explorer, sandwich.data.publicKey)}>{sandwich.data.publicKey}</ExternalLink>
+            : 'N/A'}
+        </Row>
+        {sandwich.data.publicKey && (
+          <Row label="Victim history">
+            <Link to={`/victims/${sandwich.data.publicKey}`} onClick={onClose} className="text-white hover:text-green-500">
+              All sandwiches on this wallet
+            </Link>
+          </Row>
+        )}
+
+        <h3 className="text-sm font-semibold text-white mt-6 mb-1">Amounts</h3>
+        <Row label="Frontrun">
+          {formatAmount(s.frontrunInAmount, inDecimals)} {inUnit} → {formatAmount(s.frontrunOutAmount, outDecimals)} {outUnit}
+        </Row>
+        <Row label="Backrun">
+          {formatAmount(s.backrunInAmount, outDecimals)} {outUnit} → {formatAmount(s.backrunOutAmount, inDecimals)} {inUnit}
+        </Row>
+        <Row label="Profit">
+          <span className="text-green-500">{formatProfit(s.solChange, s.tokenChange, symbol, tokenDecimals)}</span>
+        </Row>
+        <Row label="Profit (USD)">
+          {s.slot in usdProfits ? formatUsd(usdProfits[s.slot]) : 'Loading...'}
+        </Row>
+        <Row label="Tip">{s.tipAmount !== undefined ? `${formatAmount(s.tipAmount, 9)} SOL` : 'N/A'}</Row>
+
+        <h3 className="text-sm font-semibold text-white mt-6 mb-1">Transactions</h3>
+        <Row label="Bundle">{s.bundleId ?? 'N/A'}</Row>
+        {signatures.map(([label, signature]) => (
+          <Row key={label} label={label}>
+            {signature ? <ExternalLink href={txUrl(explorer, signature)}>{signature}</ExternalLink> : 'N/A'}
+          </Row>
+        ))}
+
+        <h3 className="text-sm font-semibold text-white mt-6 mb-2">Block Explorer</h3>
+        <select
+          value={explorer.id}
+          onChange={(e) => updateSettings({ explorer: { ...explorer, id: e.target.value as ExplorerId } })}
+          className="w-full bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500"
+        >
+          {(Object.keys(EXPLORERS) as ExplorerId[]).map(id => (
+            <option key={id} value={id}>{EXPLORERS[id].name}</option>
+          ))}
+        </select>
+        {explorer.id === 'custom' && (
+          <div className="space-y-2 mt-2">
+            <input
+              value={explorer.customTxUrl}
+              onChange={(e) => updateSettings({ explorer: { ...explorer, customTxUrl: e.target.value } })}
+              placeholder="https://explorer.example/tx/{id}"
+              className="w-full bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500"
+            />
+            <input
+              value={explorer.customAccountUrl}
+              onChange={(e) => updateSettings({ explorer: { ...explorer, customAccountUrl: e.target.value } })}
+              placeholder="https://explorer.example/address/{id}"
+              className="w-full bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500"
+            />
+            <p className="text-xs text-gray-500">{'{id}'} is replaced by the signature or address.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SandwichDrawer;
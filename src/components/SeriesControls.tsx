@@ -0,0 +1,76 @@
+import React from 'react';
+import { SeriesMode, SeriesView } from '../utils/series';
+
+interface SeriesControlsProps {
+  // Label names of the charted result with their values
+  labels: Record<string, string[]>;
+  view: SeriesView;
+  onChange: (view: SeriesView) => void;
+}
+
+const inputClass = 'bg-black text-white rounded px-2 py-0.5 text-xs border border-white/20 focus:outline-none focus:border-green-500';
+
+const MODE_LABELS: Record<SeriesMode, string> = {
+  separate: 'Separate',
+  stacked: 'Stacked',
+  summed: 'Summed',
+};
+
+// Group-by, label filter and stacking selectors for a multi-series chart
+const SeriesControls = ({ labels, view, onChange }: SeriesControlsProps) => {
+  const labelNames = Object.keys(labels).sort();
+  // Keep the current selections listed even when the active result doesn't carry them
+  const groupOptions = view.groupBy && !labelNames.includes(view.groupBy) ? [...labelNames, view.groupBy] : labelNames;
+  const filterOptions = labelNames.flatMap(label => labels[label].map(value => ({ label, value })));
+  if (view.filter && !filterOptions.some(o => o.label === view.filter?.label && o.value === view.filter?.value)) {
+    filterOptions.push(view.filter);
+  }
+  const filterValue = view.filter ? `${view.filter.label}=${view.filter.value}` : '';
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {groupOptions.length > 0 && (
+        <select
+          value={view.groupBy ?? ''}
+          onChange={(e) => onChange({ ...view, groupBy: e.target.value || null })}
+          className={inputClass}
+          title="Group series by label"
+        >
+          <option value="">Per series</option>
+          {groupOptions.map(label => (
+            <option key={label} value={label}>By {label}</option>
+          ))}
+        </select>
+      )}
+      {filterOptions.length > 0 && (
+        <select
+          value={filterValue}
+          onChange={(e) => onChange({
+            ...view,
+            filter: filterOptions.find(o => `${o.label}=${o.value}` === e.target.value) ?? null,
+          })}
+          className={inputClass}
+          title="Only show series with this label"
+        >
+          <option value="">All series</option>
+          {filterOptions.map(o => (
+            <option key={`${o.label}=${o.value}`} value={`${o.label}=${o.value}`}>{o.label}={o.value}</option>
+          ))}
+        </select>
+      )}
+      <div className="flex gap-1">
+        {(Object.keys(MODE_LABELS) as SeriesMode[]).map(mode => (
+          <button
+            key={mode}
+            onClick={() => onChange({ ...view, mode })}
+            className={`px-2 py-0.5 text-xs rounded ${view.mode === mode ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`}
+          >
+            {MODE_LABELS[mode]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SeriesControls;
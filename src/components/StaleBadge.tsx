@@ -0,0 +1,26 @@
+import React from 'react';
+import { useNow } from '../hooks/useNow';
+import { formatAge } from '../utils/format';
+
+interface StaleBadgeProps {
+  // Time of the chart's last successful fetch, null before the first one completes
+  lastSuccessAt: number | null;
+  maxAgeMs: number;
+}
+
+const StaleBadge = ({ lastSuccessAt, maxAgeMs }: StaleBadgeProps) => {
+  const now = useNow(15000);
+  // Charts show their own loading and empty states until the first fetch
+  if (lastSuccessAt === null || now - lastSuccessAt <= maxAgeMs) return null;
+
+  return (
+    <span
+      title="The last successful fetch for this chart is too old"
+      className="px-2 py-0.5 text-xs rounded border border-orange-500/50 text-orange-400"
+    >
+      Stale · {formatAge(now - lastSuccessAt)} old
+    </span>
+  );
+};
+
+export default StaleBadge;
@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { usePromQueries } from '../hooks/usePromQuery';
+import { PromQuerySpec } from '../services/promQueryClient';
+import { selectFeedEvents } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+import { TooltipItem } from '../types/chart';
+import { summedSeries } from '../utils/prometheus';
+import { formatTime } from '../utils/timeRange';
+import { HourlyTipEfficiency, hourlyTipEfficiency, tipEfficiencyTotals, tipHistogram } from '../utils/tipStats';
+
+const queries = {
+  profit: 'increase(sandwich_possible_profit_total[1h])',
+  tips: 'increase(sandwich_tips_total[1h])',
+  bundles: 'increase(sandwiches_landed_total[1h])',
+};
+
+type SeriesKey = keyof typeof queries;
+
+const SERIES_KEYS: SeriesKey[] = ['profit', 'tips', 'bundles'];
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#000', border: 'none', borderRadius: '4px', color: '#fff' },
+  labelStyle: { color: '#fff' },
+  itemStyle: { color: '#fff' },
+};
+
+type HourRow = HourlyTipEfficiency & { hour: string };
+
+const formatRatio = (ratio: number | null) => (ratio === null ? 'N/A' : `${(ratio * 100).toFixed(1)}%`);
+const formatSol = (value: number | null, digits: number = 4) => (value === null ? 'N/A' : `${value.toFixed(digits)} SOL`);
+
+// How much of the profit goes to tips over the last 24h, by hour
+const TipEfficiency = () => {
+  const events = useAppSelector(selectFeedEvents);
+  const { settings } = useSettings();
+  // Same hourly series as the Bundles and Tips charts, so they share one request
+  const results = usePromQueries(
+    SERIES_KEYS.map((key): PromQuerySpec => ({ kind: 'range', query: queries[key], durationMs: 24 * 60 * 60 * 1000, step: '1h' })),
+    { refreshMs: 5 * 60 * 1000 }
+  );
+  const [profit, tips, bundles] = results;
+  const isLoading = results.some(r => r.updatedAt === null && r.error === null);
+  const failedQueries = SERIES_KEYS.filter((_, i) => results[i].error !== null);
+  const hours = useMemo(
+    () => hourlyTipEfficiency(summedSeries(profit.data), summedSeries(tips.data), summedSeries(bundles.data)),
+    [profit.data, tips.data, bundles.data]
+  );
+
+  const totals = tipEfficiencyTotals(hours);
+  const histogram = tipHistogram(events);
+  const tippedEvents = histogram.reduce((sum, bucket) => sum + bucket.count, 0);
+  const chartData: HourRow[] = hours.map(h => ({ ...h, hour: formatTime(h.time, 'HH:mm', settings.timezone) }));
+
+  return (
+    <div className="card-bordered p-4 h-full">
+      <h2 className="text-xl font-semibold text-gray-100">Tip Efficiency</h2>
+      <p className="text-sm text-gray-500 mb-4">Tips paid against profit over the last 24h</p>
+      {failedQueries.length > 0 && (
+        <p className="text-sm text-red-500 mb-2">Failed to fetch: {failedQueries.join(', ')}</p>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Tip / Profit</h3>
+          <p className="text-2xl font-bold text-[#f59e42]">{formatRatio(totals.tipRatio)}</p>
+          <p className="text-xs text-gray-400">{formatSol(totals.tips, 3)} of {formatSol(totals.profit, 3)}</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Avg Tip per Bundle</h3>
+          <p className="text-2xl font-bold text-white">{formatSol(totals.avgTipPerBundle, 5)}</p>
+          <p className="text-xs text-gray-400">Over {totals.bundles} landed bundles</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Net Profit</h3>
+          <p className={`text-2xl font-bold ${totals.netProfit >= 0 ? 'text-green-400' : 'text-red-500'}`}>{formatSol(totals.netProfit, 3)}</p>
+          <p className="text-xs text-gray-400">After tips</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Net per Hour</h3>
+          <p className={`text-2xl font-bold ${totals.netProfit >= 0 ? 'text-green-400' : 'text-red-500'}`}>
+            {formatSol(hours.length > 0 ? totals.netProfit / hours.length : null, 4)}
+          </p>
+          <p className="text-xs text-gray-400">Average of {hours.length} hours</p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="lg:col-span-2">
+          <h3 className="text-sm font-semibold text-white mb-2">Net Profit and Tips per Hour</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              {isLoading ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">Loading tip efficiency data...</div>
+              ) : chartData.length === 0 ? (
+                <div className="flex items-center justify-center h-full text-red-500 text-sm">No profit data found for the last 24h.</div>
+              ) : (
+                <BarChart data={chartData} margin={{ top: 5, right: 5, left: -15, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                  <XAxis dataKey="hour" stroke="#9ca3af" fontSize={12} />
+                  <YAxis stroke="#9ca3af" fontSize={12} tickFormatter={(value) => value.toFixed(2)} />
+                  <Tooltip
+                    {...tooltipStyle}
+                    formatter={(value: number, name: string, item: TooltipItem<HourRow>) =>
+                      name === 'Tips'
+                        ? [`${formatSol(value)} (${formatRatio(item.payload?.tipRatio ?? null)} of profit, ${formatSol(item.payload?.avgTipPerBundle ?? null, 5)} per bundle)`, name]
+                        : [formatSol(value), name]}
+                  />
+                  <Legend wrapperStyle={{ fontSize: 12 }} />
+                  <Bar dataKey="netProfit" name="Net profit" stackId="profit" fill="#10b981" />
+                  <Bar dataKey="tips" name="Tips" stackId="profit" fill="#f59e42" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+        </div>
+        <div>
+          <h3 className="text-sm font-semibold text-white mb-2">Tip Sizes (SOL)</h3>
+          <div className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              {tippedEvents === 0 ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">No tips reported on the livefeed yet.</div>
+              ) : (
+                <BarChart data={histogram} margin={{ top: 5, right: 5, left: -25, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                  <XAxis dataKey="label" stroke="#9ca3af" fontSize={10} />
+                  <YAxis stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                  <Tooltip {...tooltipStyle} formatter={(value: number) => [value, 'events']} />
+                  <Bar dataKey="count" fill="#f59e42" radius={[4, 4, 0, 0]} />
+                </BarChart>
+              )}
+            </ResponsiveContainer>
+          </div>
+          <p className="text-xs text-gray-400 mt-1">From the last {events.length} livefeed events</p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TipEfficiency;
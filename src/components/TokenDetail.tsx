@@ -0,0 +1,164 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useSandwichStore } from '../context/SandwichHistoryContext';
+import { withLiveSandwiches } from '../services/sandwichStore';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector } from '../store/hooks';
+import { SandwichData } from '../types/sandwich';
+import { aggregateByToken } from '../utils/tokenStats';
+import { formatAmount, formatProfit } from '../utils/format';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import { useIsOperator } from '../context/AuthContext';
+import SandwichDrawer from './SandwichDrawer';
+
+const TokenDetail = () => {
+  const { mint } = useParams<{ mint: string }>();
+  const store = useSandwichStore();
+  const liveSandwiches = useAppSelector(selectSandwiches);
+  // Only a new sandwich on the token changes what the history holds for it
+  const newestSlot = useAppSelector(state =>
+    selectSandwiches(state).find(s => s.data.sandwich.mint === mint)?.data.sandwich.slot
+  );
+  const [storedSandwiches, setStoredSandwiches] = useState<SandwichData[] | null>(null);
+  const [selectedSandwich, setSelectedSandwich] = useState<SandwichData | null>(null);
+  const [overrideInput, setOverrideInput] = useState('');
+  const { getToken, getSandwichDecimals, overrides, setOverride } = useTokenRegistry();
+  const isOperator = useIsOperator();
+
+  // Read again when a sandwich on the token arrives, the store is written from the same feed
+  useEffect(() => {
+    if (!store || !mint) return;
+    let cancelled = false;
+    const found: SandwichData[] = [];
+    store.walk({ mint }, sandwich => found.push(sandwich))
+      .then(() => {
+        if (!cancelled) setStoredSandwiches(found);
+      })
+      .catch(error => console.error('Error reading token sandwiches from history:', error));
+    return () => { cancelled = true; };
+  }, [store, mint, newestSlot]);
+
+  // Without history only the live feed is left
+  const liveMatches = liveSandwiches.filter(s => s.data.sandwich.mint === mint);
+  const tokenSandwiches = storedSandwiches ? withLiveSandwiches(storedSandwiches, liveMatches) : liveMatches;
+  const stats = aggregateByToken(tokenSandwiches)[0];
+  const token = getToken(mint ?? '', stats?.decimals);
+
+  const handleSaveOverride = () => {
+    const decimals = Number(overrideInput);
+    if (!mint || overrideInput === '' || !Number.isInteger(decimals) || decimals < 0 || decimals > 18) return;
+    setOverride(mint, decimals);
+    setOverrideInput('');
+  };
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <Link to="/tokens" className="text-sm text-gray-400 hover:text-gray-300">← Tokens</Link>
+      <h1 className="text-2xl font-bold mt-2 mb-1 text-white">{stats?.symbol ?? 'Unknown token'}</h1>
+      <p className="text-xs text-gray-500 mb-6 break-all">{mint}</p>
+
+      <div className="card-bordered p-3 mb-6 flex flex-wrap items-center gap-3 text-sm">
+        <span className="text-gray-400">Decimals:</span>
+        <span className="font-semibold text-white">{token.decimals}</span>
+        <span className="text-xs text-gray-500">({token.source})</span>
+        {/* Overrides are settings, which only operators change */}
+        {isOperator && (
+          <>
+            <input
+              type="number"
+              min={0}
+              max={18}
+              value={overrideInput}
+              onChange={(e) => setOverrideInput(e.target.value)}
+              placeholder="Override"
+              className="w-24 bg-black text-white rounded px-2 py-1 text-sm border border-white/20 focus:outline-none focus:border-green-500"
+            />
+            <button
+              onClick={handleSaveOverride}
+              className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white"
+            >
+              Save
+            </button>
+            {mint && overrides[mint] !== undefined && (
+              <button
+                onClick={() => setOverride(mint, null)}
+                className="px-3 py-1 rounded-md text-sm text-gray-400 hover:text-white"
+              >
+                Clear override
+              </button>
+            )}
+          </>
+        )}
+      </div>
+
+      {!stats ? (
+        <div className="card-bordered p-4 text-center text-gray-500 py-10">
+          No sandwiches for this mint in the history.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Sandwiches</h3>
+              <p className="text-2xl font-bold text-white">{stats.count}</p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">SOL Change</h3>
+              <p className="text-2xl font-bold text-green-400">{formatAmount(stats.totalSolChange, 9)}</p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Token Change</h3>
+              <p className="text-2xl font-bold text-green-400">
+                {formatAmount(stats.totalTokenChange, token.decimals)}
+              </p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Buy / Sell</h3>
+              <p className="text-2xl font-bold">
+                <span className="text-green-500">{stats.buys}</span>
+                <span className="text-gray-500"> / </span>
+                <span className="text-red-500">{stats.sells}</span>
+              </p>
+            </div>
+          </div>
+
+          <div className="card-bordered p-4">
+            <h2 className="text-xl font-semibold text-gray-100 mb-4">Sandwiches</h2>
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Time</th>
+                  <th className="px-3 py-2">Slot</th>
+                  <th className="px-3 py-2">Side</th>
+                  <th className="px-3 py-2">Profit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokenSandwiches.map((s, index) => (
+                  <tr
+                    key={`${s.data.sandwich.slot}-${index}`}
+                    onClick={() => setSelectedSandwich(s)}
+                    className="border-b border-white/5 cursor-pointer hover:bg-white/5"
+                  >
+                    <td className="px-3 py-2">{format(new Date(s.data.sandwich.timestamp * 1000), 'HH:mm:ss')}</td>
+                    <td className="px-3 py-2 text-gray-400">{s.data.sandwich.slot}</td>
+                    <td className={`px-3 py-2 ${s.data.sandwich.isSell ? 'text-red-500' : 'text-green-500'}`}>
+                      {s.data.sandwich.isSell ? 'Sell' : 'Buy'}
+                    </td>
+                    <td className="px-3 py-2 text-green-500">
+                      {formatProfit(s.data.sandwich.solChange, s.data.sandwich.tokenChange, stats.symbol, getSandwichDecimals(s))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+      <SandwichDrawer sandwich={selectedSandwich} onClose={() => setSelectedSandwich(null)} />
+    </div>
+  );
+};
+
+export default TokenDetail;
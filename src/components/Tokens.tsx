@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useSandwichStore } from '../context/SandwichHistoryContext';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector } from '../store/hooks';
+import { aggregateByToken, createTokenAggregator, TokenStats } from '../utils/tokenStats';
+import { formatAmount, shortenAddress } from '../utils/format';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import PricingSettingsCard from './PricingSettingsCard';
+
+type SortKey = 'symbol' | 'count' | 'totalSolChange' | 'totalTokenChange' | 'sells' | 'lastSlot';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'symbol', label: 'Token' },
+  { key: 'count', label: 'Sandwiches' },
+  { key: 'totalSolChange', label: 'SOL Change' },
+  { key: 'totalTokenChange', label: 'Token Change' },
+  { key: 'sells', label: 'Buy / Sell' },
+  { key: 'lastSlot', label: 'Last Slot' },
+];
+
+const Tokens = () => {
+  const store = useSandwichStore();
+  const liveSandwiches = useAppSelector(selectSandwiches);
+  const { getToken } = useTokenRegistry();
+  const [storedTokens, setStoredTokens] = useState<TokenStats[]>([]);
+  const [storedCount, setStoredCount] = useState(0);
+  const [loadedAt, setLoadedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [sortKey, setSortKey] = useState<SortKey>('count');
+  const [sortDesc, setSortDesc] = useState(true);
+
+  const loadTokens = useCallback(async () => {
+    if (!store) return;
+    setIsLoading(true);
+    try {
+      const aggregator = createTokenAggregator();
+      let count = 0;
+      await store.walk({}, sandwich => {
+        aggregator.add(sandwich);
+        count++;
+      });
+      setStoredTokens(aggregator.result());
+      setStoredCount(count);
+      setLoadedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      console.error('Error aggregating tokens from history:', err);
+      setError('Sandwich history is unavailable in this browser, showing the live feed only.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [store]);
+
+  // The whole history is read on each load, so new sandwiches only show up on a refresh
+  useEffect(() => {
+    loadTokens();
+  }, [loadTokens]);
+
+  const sandwichCount = error ? liveSandwiches.length : storedCount;
+  const tokens = useMemo(() => {
+    const stats = error ? aggregateByToken(liveSandwiches) : [...storedTokens];
+    return stats.sort((a: TokenStats, b: TokenStats) => {
+      const av = a[sortKey];
+      const bv = b[sortKey];
+      const cmp = typeof av === 'string' ? av.localeCompare(bv as string) : av - (bv as number);
+      return sortDesc ? -cmp : cmp;
+    });
+  }, [error, liveSandwiches, storedTokens, sortKey, sortDesc]);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(true);
+    }
+  };
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Tokens</h1>
+        <button
+          onClick={loadTokens}
+          disabled={isLoading || !store}
+          className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+        >
+          {isLoading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+      <div className="card-bordered p-4">
+        <p className="text-sm text-gray-500 mb-4">
+          Sandwiches grouped by token mint across the {sandwichCount} sandwiches in {error ? 'the live feed' : 'the history'}
+          {loadedAt !== null && !error && <span className="ml-2 text-xs">as of {format(loadedAt, 'HH:mm:ss')}</span>}
+        </p>
+        {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+        {isLoading && tokens.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">Reading sandwich history...</div>
+        ) : tokens.length === 0 ? (
+          <div className="text-center text-gray-500 py-10">Waiting for sandwich data...</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  {columns.map(col => (
+                    <th key={col.key} className="px-3 py-2">
+                      <button
+                        onClick={() => handleSort(col.key)}
+                        className={`hover:text-white ${sortKey === col.key ? 'text-white' : ''}`}
+                      >
+                        {col.label}{sortKey === col.key ? (sortDesc ? ' ↓' : ' ↑') : ''}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map(t => (
+                  <tr key={t.mint} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="px-3 py-2">
+                      <Link to={`/tokens/${t.mint}`} className="text-white hover:text-green-500">
+                        <span className="font-semibold">{t.symbol}</span>
+                        <span className="ml-2 text-xs text-gray-500">{shortenAddress(t.mint)}</span>
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{t.count}</td>
+                    <td className={`px-3 py-2 ${t.totalSolChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatAmount(t.totalSolChange, 9)} SOL
+                    </td>
+                    <td className="px-3 py-2">
+                      {formatAmount(t.totalTokenChange, getToken(t.mint, t.decimals).decimals)} {t.symbol}
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="text-green-500">{t.buys}</span>
+                      <span className="text-gray-500"> / </span>
+                      <span className="text-red-500">{t.sells}</span>
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">{t.lastSlot}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+      <PricingSettingsCard />
+    </div>
+  );
+};
+
+export default Tokens;
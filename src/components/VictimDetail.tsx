@@ -0,0 +1,166 @@
+import React, { useEffect, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useSandwichStore } from '../context/SandwichHistoryContext';
+import { withLiveSandwiches } from '../services/sandwichStore';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import { SandwichData } from '../types/sandwich';
+import { accountUrl } from '../utils/explorer';
+import { formatAmount, formatProfit, shortenAddress } from '../utils/format';
+import { aggregateByToken } from '../utils/tokenStats';
+import { aggregateByVictim, isRepeatVictim } from '../utils/victimStats';
+import SandwichDrawer from './SandwichDrawer';
+
+const VictimDetail = () => {
+  const { publicKey } = useParams<{ publicKey: string }>();
+  const store = useSandwichStore();
+  const liveSandwiches = useAppSelector(selectSandwiches);
+  // Only a new sandwich on the wallet changes what the history holds for it
+  const newestSlot = useAppSelector(state =>
+    selectSandwiches(state).find(s => s.data.publicKey === publicKey)?.data.sandwich.slot
+  );
+  const { settings } = useSettings();
+  const { getSandwichDecimals } = useTokenRegistry();
+  const [storedSandwiches, setStoredSandwiches] = useState<SandwichData[] | null>(null);
+  const [selectedSandwich, setSelectedSandwich] = useState<SandwichData | null>(null);
+
+  // A single wallet is small enough to hold all of its sandwiches
+  useEffect(() => {
+    if (!store || !publicKey) return;
+    let cancelled = false;
+    const found: SandwichData[] = [];
+    store.walk({ publicKey }, sandwich => found.push(sandwich))
+      .then(() => {
+        if (!cancelled) setStoredSandwiches(found);
+      })
+      .catch(error => console.error('Error reading victim sandwiches from history:', error));
+    return () => { cancelled = true; };
+  }, [store, publicKey, newestSlot]);
+
+  // Without history only the live feed is left
+  const liveMatches = liveSandwiches.filter(s => s.data.publicKey === publicKey);
+  const sandwiches = storedSandwiches ? withLiveSandwiches(storedSandwiches, liveMatches) : liveMatches;
+  const stats = aggregateByVictim(sandwiches)[0];
+  const tokens = aggregateByToken(sandwiches).sort((a, b) => b.count - a.count);
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <Link to="/victims" className="text-sm text-gray-400 hover:text-gray-300">← Victims</Link>
+      <h1 className="text-2xl font-bold mt-2 mb-1 text-white">
+        {shortenAddress(publicKey ?? '', 6)}
+        {stats && isRepeatVictim(stats) && <span className="ml-3 text-sm font-normal text-red-400">repeat victim</span>}
+      </h1>
+      <p className="text-xs mb-6 break-all">
+        <a
+          href={accountUrl(settings.explorer, publicKey ?? '')}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-green-500 hover:text-green-400"
+        >
+          {publicKey}
+        </a>
+      </p>
+
+      {!stats ? (
+        <div className="card-bordered p-4 text-center text-gray-500 py-10">
+          No sandwiches for this wallet in the history.
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Sandwiches</h3>
+              <p className="text-2xl font-bold text-white">{stats.count}</p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Extracted</h3>
+              <p className="text-2xl font-bold text-green-400">{formatAmount(stats.totalSolChange, 9)} SOL</p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">First Seen</h3>
+              <p className="text-lg font-bold text-white">{format(new Date(stats.firstTimestamp * 1000), 'yyyy-MM-dd HH:mm')}</p>
+            </div>
+            <div className="card-bordered p-3">
+              <h3 className="text-sm font-semibold text-white mb-1">Last Seen</h3>
+              <p className="text-lg font-bold text-white">{format(new Date(stats.lastTimestamp * 1000), 'yyyy-MM-dd HH:mm')}</p>
+            </div>
+          </div>
+
+          <div className="card-bordered p-4 mb-6">
+            <h2 className="text-xl font-semibold text-gray-100 mb-4">Tokens</h2>
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Token</th>
+                  <th className="px-3 py-2">Sandwiches</th>
+                  <th className="px-3 py-2">SOL Change</th>
+                  <th className="px-3 py-2">Buy / Sell</th>
+                </tr>
+              </thead>
+              <tbody>
+                {tokens.map(t => (
+                  <tr key={t.mint} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="px-3 py-2">
+                      <Link to={`/tokens/${t.mint}`} className="text-white hover:text-green-500">
+                        <span className="font-semibold">{t.symbol}</span>
+                        <span className="ml-2 text-xs text-gray-500">{shortenAddress(t.mint)}</span>
+                      </Link>
+                    </td>
+                    <td className="px-3 py-2">{t.count}</td>
+                    <td className={`px-3 py-2 ${t.totalSolChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatAmount(t.totalSolChange, 9)} SOL
+                    </td>
+                    <td className="px-3 py-2">
+                      <span className="text-green-500">{t.buys}</span>
+                      <span className="text-gray-500"> / </span>
+                      <span className="text-red-500">{t.sells}</span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="card-bordered p-4">
+            <h2 className="text-xl font-semibold text-gray-100 mb-4">Sandwiches</h2>
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Time</th>
+                  <th className="px-3 py-2">Slot</th>
+                  <th className="px-3 py-2">Token</th>
+                  <th className="px-3 py-2">Side</th>
+                  <th className="px-3 py-2">Profit</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sandwiches.map((s, index) => (
+                  <tr
+                    key={`${s.data.sandwich.slot}-${index}`}
+                    onClick={() => setSelectedSandwich(s)}
+                    className="border-b border-white/5 cursor-pointer hover:bg-white/5"
+                  >
+                    <td className="px-3 py-2">{format(new Date(s.data.sandwich.timestamp * 1000), 'yyyy-MM-dd HH:mm:ss')}</td>
+                    <td className="px-3 py-2 text-gray-400">{s.data.sandwich.slot}</td>
+                    <td className="px-3 py-2">{s.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK'}</td>
+                    <td className={`px-3 py-2 ${s.data.sandwich.isSell ? 'text-red-500' : 'text-green-500'}`}>
+                      {s.data.sandwich.isSell ? 'Sell' : 'Buy'}
+                    </td>
+                    <td className="px-3 py-2 text-green-500">
+                      {formatProfit(s.data.sandwich.solChange, s.data.sandwich.tokenChange, s.data.permanentTokenData?.rawTokenMetadata?.symbol, getSandwichDecimals(s))}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+      <SandwichDrawer sandwich={selectedSandwich} onClose={() => setSelectedSandwich(null)} />
+    </div>
+  );
+};
+
+export default VictimDetail;
@@ -0,0 +1,252 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { useSandwichStore } from '../context/SandwichHistoryContext';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector } from '../store/hooks';
+import { formatAmount, shortenAddress } from '../utils/format';
+import {
+  aggregateByVictim,
+  createVictimAggregator,
+  isQuietVictim,
+  isRepeatVictim,
+  REPEAT_VICTIM_COUNT,
+  VictimStats,
+} from '../utils/victimStats';
+
+const PAGE_SIZE = 50;
+
+type SortKey = 'count' | 'totalSolChange' | 'tokens' | 'firstTimestamp' | 'lastTimestamp';
+type VictimFilter = 'all' | 'repeat' | 'quiet';
+type VictimWindow = '24h' | '7d' | 'all';
+
+const columns: { key: SortKey; label: string }[] = [
+  { key: 'count', label: 'Sandwiches' },
+  { key: 'totalSolChange', label: 'Extracted' },
+  { key: 'tokens', label: 'Tokens' },
+  { key: 'firstTimestamp', label: 'First Seen' },
+  { key: 'lastTimestamp', label: 'Last Seen' },
+];
+
+const FILTER_LABELS: Record<VictimFilter, string> = {
+  all: 'All wallets',
+  repeat: 'Repeat victims',
+  quiet: 'Gone quiet',
+};
+
+// Seconds, null reads the whole history
+const WINDOWS: Record<VictimWindow, number | null> = {
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  all: null,
+};
+
+const sortValue = (victim: VictimStats, key: SortKey) => (key === 'tokens' ? victim.tokens.length : victim[key]);
+
+const chipClass = (active: boolean) =>
+  `px-2 py-0.5 text-xs rounded ${active ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`;
+
+// Sandwiched wallets from the stored history, with repeat victims and the ones that stopped showing up
+const Victims = () => {
+  const store = useSandwichStore();
+  const liveSandwiches = useAppSelector(selectSandwiches);
+  const [storedVictims, setStoredVictims] = useState<VictimStats[]>([]);
+  const [loadedAt, setLoadedAt] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedWindow, setSelectedWindow] = useState<VictimWindow>('7d');
+  const [filter, setFilter] = useState<VictimFilter>('all');
+  const [sortKey, setSortKey] = useState<SortKey>('count');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [page, setPage] = useState(0);
+
+  const loadVictims = useCallback(async () => {
+    if (!store) return;
+    setIsLoading(true);
+    try {
+      const aggregator = createVictimAggregator();
+      const windowSeconds = WINDOWS[selectedWindow];
+      await store.walk(
+        { from: windowSeconds === null ? undefined : Math.floor(Date.now() / 1000) - windowSeconds },
+        aggregator.add
+      );
+      setStoredVictims(aggregator.result());
+      setLoadedAt(Date.now());
+      setError(null);
+    } catch (err) {
+      console.error('Error aggregating victims from history:', err);
+      setError('Sandwich history is unavailable in this browser, showing the live feed only.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [store, selectedWindow]);
+
+  // The whole history is read on each load, so new sandwiches only show up on a refresh
+  useEffect(() => {
+    loadVictims();
+  }, [loadVictims]);
+
+  const victims = useMemo(
+    () => (error ? aggregateByVictim(liveSandwiches) : storedVictims),
+    [error, liveSandwiches, storedVictims]
+  );
+  const newestTimestamp = victims.reduce((newest, v) => Math.max(newest, v.lastTimestamp), 0);
+  const repeatVictims = victims.filter(isRepeatVictim);
+  const quietVictims = victims.filter(v => isQuietVictim(v, newestTimestamp));
+  const totalExtracted = victims.reduce((sum, v) => sum + v.totalSolChange, 0);
+  const repeatExtracted = repeatVictims.reduce((sum, v) => sum + v.totalSolChange, 0);
+
+  const filtered = filter === 'repeat' ? repeatVictims : filter === 'quiet' ? quietVictims : victims;
+  const rows = [...filtered].sort((a, b) => {
+    const cmp = sortValue(a, sortKey) - sortValue(b, sortKey);
+    return sortDesc ? -cmp : cmp;
+  });
+  const pageCount = Math.max(1, Math.ceil(rows.length / PAGE_SIZE));
+  const pageRows = rows.slice(page * PAGE_SIZE, (page + 1) * PAGE_SIZE);
+
+  const handleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDesc(!sortDesc);
+    } else {
+      setSortKey(key);
+      setSortDesc(true);
+    }
+    setPage(0);
+  };
+
+  return (
+    <div className="p-6 min-h-screen" style={{ backgroundColor: '#000' }}>
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-2xl font-bold text-white">Victims</h1>
+        <div className="flex items-center gap-2">
+          <div className="flex space-x-1 bg-gray-800 rounded-lg p-1">
+            {(Object.keys(WINDOWS) as VictimWindow[]).map(w => (
+              <button
+                key={w}
+                onClick={() => { setSelectedWindow(w); setPage(0); }}
+                className={`px-3 py-1 rounded-md text-sm ${selectedWindow === w ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+              >
+                {w === 'all' ? 'All' : w}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={loadVictims}
+            disabled={isLoading || !store}
+            className="px-3 py-1 rounded-md text-sm bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white disabled:opacity-40"
+          >
+            {isLoading ? 'Loading...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Wallets</h3>
+          <p className="text-2xl font-bold text-white">{victims.length}</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Repeat Victims</h3>
+          <p className="text-2xl font-bold text-white">{repeatVictims.length}</p>
+          <p className="text-xs text-gray-400">Sandwiched {REPEAT_VICTIM_COUNT} times or more</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Extracted from Repeat Victims</h3>
+          <p className="text-2xl font-bold text-green-400">
+            {totalExtracted > 0 ? `${((repeatExtracted / totalExtracted) * 100).toFixed(1)}%` : 'N/A'}
+          </p>
+          <p className="text-xs text-gray-400">{formatAmount(repeatExtracted, 9)} of {formatAmount(totalExtracted, 9)} SOL</p>
+        </div>
+        <div className="card-bordered p-3">
+          <h3 className="text-sm font-semibold text-white mb-1">Gone Quiet</h3>
+          <p className="text-2xl font-bold text-yellow-400">{quietVictims.length}</p>
+          <p className="text-xs text-gray-400">Repeat victims unseen for a day, possibly protected now</p>
+        </div>
+      </div>
+
+      <div className="card-bordered p-4">
+        <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+          <div className="flex gap-1">
+            {(Object.keys(FILTER_LABELS) as VictimFilter[]).map(f => (
+              <button key={f} onClick={() => { setFilter(f); setPage(0); }} className={chipClass(filter === f)}>
+                {FILTER_LABELS[f]}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-2 text-sm text-gray-400">
+            {loadedAt !== null && !error && <span className="text-xs text-gray-500">As of {format(loadedAt, 'HH:mm:ss')}</span>}
+            <button
+              onClick={() => setPage(p => Math.max(0, p - 1))}
+              disabled={page === 0}
+              className="px-2 py-0.5 rounded border border-white/20 disabled:opacity-30 hover:text-white"
+            >
+              ‹
+            </button>
+            <span>Page {page + 1} of {pageCount}</span>
+            <button
+              onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+              disabled={page >= pageCount - 1}
+              className="px-2 py-0.5 rounded border border-white/20 disabled:opacity-30 hover:text-white"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+        {error && <p className="text-sm text-red-500 mb-4">{error}</p>}
+        {isLoading && victims.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">Reading sandwich history...</div>
+        ) : rows.length === 0 ? (
+          <div className="text-center text-gray-500 text-sm py-10">No victim wallets in this window.</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left text-gray-300">
+              <thead className="text-xs text-gray-400 border-b border-white/10">
+                <tr>
+                  <th className="px-3 py-2">Wallet</th>
+                  {columns.map(col => (
+                    <th key={col.key} className="px-3 py-2">
+                      <button
+                        onClick={() => handleSort(col.key)}
+                        className={`hover:text-white ${sortKey === col.key ? 'text-white' : ''}`}
+                      >
+                        {col.label}{sortKey === col.key ? (sortDesc ? ' ↓' : ' ↑') : ''}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {pageRows.map(v => (
+                  <tr key={v.publicKey} className="border-b border-white/5 hover:bg-white/5">
+                    <td className="px-3 py-2">
+                      <Link to={`/victims/${v.publicKey}`} className="text-white hover:text-green-500">
+                        {shortenAddress(v.publicKey, 6)}
+                      </Link>
+                      {isQuietVictim(v, newestTimestamp) ? (
+                        <span className="ml-2 text-xs text-yellow-400">quiet</span>
+                      ) : isRepeatVictim(v) && (
+                        <span className="ml-2 text-xs text-red-400">repeat</span>
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{v.count}</td>
+                    <td className={`px-3 py-2 ${v.totalSolChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                      {formatAmount(v.totalSolChange, 9)} SOL
+                    </td>
+                    <td className="px-3 py-2">
+                      {v.tokens.slice(0, 3).map(t => t.symbol).join(', ')}
+                      {v.tokens.length > 3 && <span className="text-gray-500"> +{v.tokens.length - 3}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-gray-400">{format(new Date(v.firstTimestamp * 1000), 'yyyy-MM-dd HH:mm')}</td>
+                    <td className="px-3 py-2 text-gray-400">{format(new Date(v.lastTimestamp * 1000), 'yyyy-MM-dd HH:mm')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Victims;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { ArbitrageEvent } from '../../types/feed';
+import { formatAmount } from '../../utils/format';
+import TxLink from './TxLink';
+
+const ArbitrageCard = ({ event }: { event: ArbitrageEvent }) => {
+  const d = event.payload.data;
+
+  return (
+    <div className="card-bordered p-3">
+      <div className="flex justify-between items-center text-xs mb-1 text-gray-400">
+        <span>🔁 Arbitrage</span>
+        <span>{format(new Date(d.timestamp * 1000), 'HH:mm:ss')}</span>
+      </div>
+      <p className="text-sm text-gray-300 flex items-center">
+        <span className="truncate">{d.route && d.route.length > 0 ? d.route.join(' → ') : d.symbol || 'Backrun'}</span>
+        <TxLink signature={d.signature} />
+      </p>
+      <p className="text-xs mt-2">
+        <span className="font-semibold text-gray-400">Profit:</span>
+        <span className={`font-semibold ml-1 ${d.solChange >= 0 ? 'text-green-500' : 'text-red-500'}`}>{formatAmount(d.solChange, 9)} SOL</span>
+        {d.tipAmount !== undefined && <span className="text-gray-500 ml-2">tip {formatAmount(d.tipAmount, 9)}</span>}
+        <span className="text-gray-500 ml-2 float-right">{d.slot}</span>
+      </p>
+    </div>
+  );
+};
+
+export default ArbitrageCard;
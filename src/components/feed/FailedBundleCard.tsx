@@ -0,0 +1,25 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { FailedBundleEvent } from '../../types/feed';
+import { formatAmount, shortenAddress } from '../../utils/format';
+
+const FailedBundleCard = ({ event }: { event: FailedBundleEvent }) => {
+  const d = event.payload.data;
+
+  return (
+    <div className="card-bordered p-3 border-red-500/30">
+      <div className="flex justify-between items-center text-xs mb-1 text-gray-400">
+        <span className="text-red-500">✕ Failed bundle{d.strategy ? ` · ${d.strategy}` : ''}</span>
+        <span>{format(new Date(d.timestamp * 1000), 'HH:mm:ss')}</span>
+      </div>
+      <p className="text-sm text-gray-300">{d.reason}</p>
+      <p className="text-xs mt-2 text-gray-500">
+        {d.bundleId && <span>{shortenAddress(d.bundleId, 6)}</span>}
+        {d.tipAmount !== undefined && <span className="ml-2">tip {formatAmount(d.tipAmount, 9)} SOL</span>}
+        <span className="ml-2 float-right">{d.slot}</span>
+      </p>
+    </div>
+  );
+};
+
+export default FailedBundleCard;
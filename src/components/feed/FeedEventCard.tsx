@@ -0,0 +1,29 @@
+import React from 'react';
+import { FeedEvent } from '../../types/feed';
+import { SandwichData } from '../../types/sandwich';
+import ArbitrageCard from './ArbitrageCard';
+import FailedBundleCard from './FailedBundleCard';
+import SandwichCard from './SandwichCard';
+import TipCard from './TipCard';
+
+interface FeedEventCardProps {
+  event: FeedEvent;
+  onSelectSandwich: (sandwich: SandwichData) => void;
+  // Combined USD profit of a sandwich event, undefined while it is being priced
+  usdProfit?: number | null;
+}
+
+const FeedEventCard = ({ event, onSelectSandwich, usdProfit }: FeedEventCardProps) => {
+  switch (event.kind) {
+    case 'sandwich':
+      return <SandwichCard sandwich={event.payload} onSelect={onSelectSandwich} usdProfit={usdProfit} />;
+    case 'arbitrage':
+      return <ArbitrageCard event={event} />;
+    case 'failedBundle':
+      return <FailedBundleCard event={event} />;
+    case 'tip':
+      return <TipCard event={event} />;
+  }
+};
+
+export default FeedEventCard;
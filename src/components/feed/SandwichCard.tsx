@@ -0,0 +1,61 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { SandwichData } from '../../types/sandwich';
+import { useTokenRegistry } from '../../context/TokenRegistryContext';
+import { formatAmount, formatProfit, formatUsd } from '../../utils/format';
+import TxLink from './TxLink';
+
+interface SandwichCardProps {
+  sandwich: SandwichData;
+  onSelect: (sandwich: SandwichData) => void;
+  usdProfit?: number | null;
+}
+
+const SandwichCard = ({ sandwich: s, onSelect, usdProfit }: SandwichCardProps) => {
+  const { getSandwichDecimals } = useTokenRegistry();
+  const symbol = s.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK';
+  const tokenDecimals = getSandwichDecimals(s);
+
+  return (
+    <div onClick={() => onSelect(s)} className="card-bordered p-3 cursor-pointer hover:border-white/30">
+      <div className="flex justify-between items-center text-xs mb-1 text-gray-400">
+        <span>🥪 Sandwich</span>
+        <span>{format(new Date(s.data.sandwich.timestamp * 1000), 'HH:mm:ss')}</span>
+      </div>
+      <div className="text-sm space-y-0.5 text-gray-300">
+         <p className="flex items-center">
+             <span className="text-green-500 w-4">↑</span>
+             {s.data.sandwich.isSell ?
+                 <span>{formatAmount(s.data.sandwich.frontrunInAmount, tokenDecimals)} {symbol} → {formatAmount(s.data.sandwich.frontrunOutAmount, 9)} SOL</span>
+                 :
+                 <span>{formatAmount(s.data.sandwich.frontrunInAmount, 9)} SOL → {formatAmount(s.data.sandwich.frontrunOutAmount, tokenDecimals)} {symbol}</span>
+             }
+             <TxLink signature={s.data.sandwich.frontrunSignature} />
+         </p>
+         <p className="text-gray-400 text-xs pl-4">
+             <span className="opacity-75">👤 User Transaction</span>
+             <TxLink signature={s.data.sandwich.victimSignature} />
+         </p>
+         <p className="flex items-center">
+             <span className="text-red-500 w-4">↓</span>
+              {s.data.sandwich.isSell ?
+                 <span>{formatAmount(s.data.sandwich.backrunInAmount, 9)} SOL → {formatAmount(s.data.sandwich.backrunOutAmount, tokenDecimals)} {symbol}</span>
+                 :
+                 <span>{formatAmount(s.data.sandwich.backrunInAmount, tokenDecimals)} {symbol} → {formatAmount(s.data.sandwich.backrunOutAmount, 9)} SOL</span>
+             }
+             <TxLink signature={s.data.sandwich.backrunSignature} />
+         </p>
+      </div>
+      <p className="text-xs mt-2">
+        <span className="font-semibold text-gray-400">Profit:</span>
+        <span className="font-semibold text-green-500 ml-1">{formatProfit(s.data.sandwich.solChange, s.data.sandwich.tokenChange, s.data.permanentTokenData?.rawTokenMetadata?.symbol, tokenDecimals)}</span>
+        {usdProfit !== undefined && usdProfit !== null && (
+          <span className="text-gray-400 ml-1">≈ {formatUsd(usdProfit)}</span>
+        )}
+        <span className="text-gray-500 ml-2 float-right">{s.data.sandwich.slot}</span>
+      </p>
+    </div>
+  );
+};
+
+export default SandwichCard;
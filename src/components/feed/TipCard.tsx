@@ -0,0 +1,25 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { TipEvent } from '../../types/feed';
+import { formatAmount } from '../../utils/format';
+import TxLink from './TxLink';
+
+const TipCard = ({ event }: { event: TipEvent }) => {
+  const d = event.payload.data;
+
+  return (
+    <div className="card-bordered p-3">
+      <div className="flex justify-between items-center text-xs mb-1 text-gray-400">
+        <span>💸 Tip{d.strategy ? ` · ${d.strategy}` : ''}</span>
+        <span>{format(new Date(d.timestamp * 1000), 'HH:mm:ss')}</span>
+      </div>
+      <p className="text-xs">
+        <span className="font-semibold text-[#f59e42]">{formatAmount(d.tipAmount, 9)} SOL</span>
+        <TxLink signature={d.signature} />
+        <span className="text-gray-500 ml-2 float-right">{d.slot}</span>
+      </p>
+    </div>
+  );
+};
+
+export default TipCard;
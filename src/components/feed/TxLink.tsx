@@ -0,0 +1,22 @@
+import React from 'react';
+import { useSettings } from '../../store/hooks';
+import { txUrl } from '../../utils/explorer';
+
+// Explorer link for a feed card, hidden when the bot didn't send the signature
+const TxLink = ({ signature }: { signature: string | undefined }) => {
+  const { settings } = useSettings();
+  if (!signature) return null;
+  return (
+    <a
+      href={txUrl(settings.explorer, signature)}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="ml-1 text-gray-500 hover:text-green-500 text-xs opacity-75"
+    >
+      🔗
+    </a>
+  );
+};
+
+export default TxLink;
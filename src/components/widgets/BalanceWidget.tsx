@@ -0,0 +1,405 @@
+import React, { useMemo, useState } from 'react';
+import { XAxis, YAxis, ResponsiveContainer, AreaChart, Area, Tooltip, CartesianGrid, Legend } from 'recharts';
+import { usePromRange } from '../../hooks/usePromQuery';
+import { useSolPrice } from '../../hooks/useSolPrice';
+import { useUsdSeries } from '../../hooks/useUsdSeries';
+import { isInitialLoad } from '../../services/promQueryClient';
+import { selectLiveBalance } from '../../store/balanceSlice';
+import { useAppSelector, useSettings } from '../../store/hooks';
+import { PROFIT_WINDOWS, ProfitWindow, selectProfit, selectProfitChange } from '../../store/metricsSlice';
+import ChartRangePicker from '../ChartRangePicker';
+import CompareControls from '../CompareControls';
+import ExportButtons from '../ExportButtons';
+import SeriesControls from '../SeriesControls';
+import StaleBadge from '../StaleBadge';
+import { TooltipItem } from '../../types/chart';
+import {
+  CompareOffset,
+  comparisonSeries,
+  deltaSuffix,
+  formatPercentChange,
+  offsetModifier,
+} from '../../utils/comparison';
+import { chartSeriesRows } from '../../utils/export';
+import { ChartSeries, chartSeries, defaultSeriesView, pivotSeries, resultLabels, SeriesRow, SeriesView } from '../../utils/series';
+import { ChartRange, rangeLabel, resolveRange, stepForDuration, tickFormatter, tickValues, tooltipTimeFormatter } from '../../utils/timeRange';
+
+// Point budgets per chart, Prometheus rejects more than 11000 points per series
+const BALANCE_MAX_POINTS = 720;
+const PROFIT_RATE_MAX_POINTS = 150;
+
+// Hourly series only change once an hour
+const HOURLY_REFRESH = 5 * 60 * 1000;
+
+// A chart is flagged stale when its last successful fetch is older than this
+const STALE_AFTER = {
+  // Polled every 30s
+  balance: 2 * 60 * 1000,
+  profitRate: 60 * 60 * 1000,
+};
+
+// Balance or profit rate chart, with the live balance and profit per hour next to it
+const BalanceWidget = () => {
+  const [activeBalanceTab, setActiveBalanceTab] = useState<'Balance' | 'Profit Rate'>('Balance');
+  const [selectedTimeRange, setSelectedTimeRange] = useState<ProfitWindow>('1h');
+  const [chartRange, setChartRange] = useState<ChartRange>({ preset: '24h' });
+  // Balance and profit metrics are in SOL, USD converts them at each point's time
+  const [chartUnit, setChartUnit] = useState<'SOL' | 'USD'>('SOL');
+  // Every returned series is charted, this picks how they are grouped, filtered and stacked
+  const [balanceView, setBalanceView] = useState<SeriesView>(defaultSeriesView);
+  // Overlays the same chart shifted back by this much
+  const [compareTo, setCompareTo] = useState<CompareOffset | null>(null);
+  const { settings } = useSettings();
+  const timezone = settings.timezone;
+
+  // Every query goes through the shared query client, which caches, dedupes and polls them
+  const { start: rangeStart, end: rangeEnd } = resolveRange(chartRange);
+  const isCustomRange = chartRange.preset === 'custom';
+  // Presets slide with each refresh, custom ranges stay fixed
+  const chartWindow = { durationMs: rangeEnd - rangeStart, end: isCustomRange ? rangeEnd : undefined };
+  const balanceStep = stepForDuration(chartWindow.durationMs, BALANCE_MAX_POINTS);
+  const profitRateStep = stepForDuration(chartWindow.durationMs, PROFIT_RATE_MAX_POINTS);
+
+  const balanceHistory = usePromRange(
+    'sandwich_bank_balance_amount',
+    chartWindow,
+    balanceStep,
+    { refreshMs: isCustomRange ? 0 : 30000 }
+  );
+  const balanceComparison = usePromRange(
+    `sandwich_bank_balance_amount${offsetModifier(compareTo)}`,
+    chartWindow,
+    balanceStep,
+    { refreshMs: isCustomRange ? 0 : 30000, enabled: compareTo !== null && activeBalanceTab === 'Balance' }
+  );
+  // One increase() window per step
+  const profitRate = usePromRange(
+    `increase(sandwich_possible_profit_total[${profitRateStep}])`,
+    chartWindow,
+    profitRateStep,
+    { refreshMs: isCustomRange ? 0 : HOURLY_REFRESH, enabled: activeBalanceTab === 'Profit Rate' }
+  );
+  const profitRateComparison = usePromRange(
+    `increase(sandwich_possible_profit_total[${profitRateStep}]${offsetModifier(compareTo)})`,
+    chartWindow,
+    profitRateStep,
+    { refreshMs: isCustomRange ? 0 : HOURLY_REFRESH, enabled: compareTo !== null && activeBalanceTab === 'Profit Rate' }
+  );
+  // The live balance and profit per hour are polled by the store, so they keep updating off the dashboard
+  // The current values follow the balance chart's label filter
+  const liveBalance = useAppSelector(state => selectLiveBalance(state, balanceView.filter)) ?? 0;
+  const profitPerHour = useAppSelector(state => selectProfit(state, selectedTimeRange, balanceView.filter)) ?? 0;
+  const profitChange = useAppSelector(state => selectProfitChange(state, selectedTimeRange, balanceView.filter));
+
+  const balanceChartSeries = useMemo(
+    () => chartSeries(balanceHistory.data, balanceView, { name: 'Balance', color: '#10b981' }),
+    [balanceHistory.data, balanceView]
+  );
+  const profitRateChartSeries = useMemo(
+    () => chartSeries(profitRate.data, balanceView, { name: 'Profit', color: '#f59e42' }),
+    [profitRate.data, balanceView]
+  );
+  const balanceComparisonSeries = useMemo(
+    () => (compareTo
+      ? comparisonSeries(balanceChartSeries, chartSeries(balanceComparison.data, balanceView, { name: 'Balance', color: '#10b981' }), compareTo)
+      : []),
+    [balanceChartSeries, balanceComparison.data, balanceView, compareTo]
+  );
+  const profitRateComparisonSeries = useMemo(
+    () => (compareTo
+      ? comparisonSeries(profitRateChartSeries, chartSeries(profitRateComparison.data, balanceView, { name: 'Profit', color: '#f59e42' }), compareTo)
+      : []),
+    [profitRateChartSeries, profitRateComparison.data, balanceView, compareTo]
+  );
+  const balanceChartData = useMemo(
+    () => pivotSeries([...balanceChartSeries, ...balanceComparisonSeries]),
+    [balanceChartSeries, balanceComparisonSeries]
+  );
+  const profitRateData = useMemo(
+    () => pivotSeries([...profitRateChartSeries, ...profitRateComparisonSeries]),
+    [profitRateChartSeries, profitRateComparisonSeries]
+  );
+  const balanceLabels = resultLabels(activeBalanceTab === 'Balance' ? balanceHistory.data : profitRate.data);
+  const isHistoryLoading = isInitialLoad(balanceHistory);
+  const isProfitRateLoading = isInitialLoad(profitRate);
+
+  const isUsd = chartUnit === 'USD';
+  const solPrice = useSolPrice(isUsd);
+  const balanceSeries = useUsdSeries(balanceChartData, isUsd);
+  const profitRateSeries = useUsdSeries(profitRateData, isUsd);
+  // Compared values are converted at the price of the time they are plotted at, so USD deltas leave out price moves.
+  // Current values are converted at the latest price
+  const toChartUnit = (sol: number) => (isUsd ? (solPrice === null ? NaN : sol * solPrice) : sol);
+  const formatChartValue = (value: number, digits: number = isUsd ? 2 : 3) => {
+    if (isNaN(value)) return 'N/A';
+    return isUsd ? `$${value.toFixed(digits)}` : `${value.toFixed(digits)} SOL`;
+  };
+
+  // Keep the chart within the selected range
+  const filteredBalanceChartData = balanceSeries.filter(dataPoint =>
+    dataPoint.time >= rangeStart && dataPoint.time <= rangeEnd
+  );
+  const inChartRange = (series: ChartSeries[]) =>
+    series.map(s => ({ ...s, points: s.points.filter(p => p.time >= rangeStart && p.time <= rangeEnd) }));
+  const chartTicks = tickValues(rangeStart, rangeEnd);
+  const formatChartTick = tickFormatter(rangeStart, rangeEnd, timezone);
+  const formatChartTooltipTime = tooltipTimeFormatter(timezone);
+
+  return (
+    <div className="card-bordered p-4 rounded-lg shadow h-full">
+      <div className="flex justify-between items-center mb-4">
+        <div>
+           <div className="flex items-center gap-2">
+             <h2 className="text-xl font-semibold text-gray-100">Balance Over Time</h2>
+             {activeBalanceTab === 'Balance'
+               ? <StaleBadge lastSuccessAt={balanceHistory.updatedAt} maxAgeMs={isCustomRange ? Infinity : STALE_AFTER.balance} />
+               : <StaleBadge lastSuccessAt={profitRate.updatedAt} maxAgeMs={isCustomRange ? Infinity : STALE_AFTER.profitRate} />}
+           </div>
+           <p className="text-sm text-gray-500">Real-time balance for the Solana MEV Bot, {rangeLabel(chartRange, timezone)}</p>
+           <div className="mt-2 flex flex-wrap items-start gap-2">
+             <ChartRangePicker range={chartRange} onChange={setChartRange} />
+             <div className="flex gap-1">
+               {(['SOL', 'USD'] as const).map(unit => (
+                 <button
+                   key={unit}
+                   onClick={() => setChartUnit(unit)}
+                   className={`px-2 py-0.5 text-xs rounded ${chartUnit === unit ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`}
+                 >
+                   {unit}
+                 </button>
+               ))}
+             </div>
+             <CompareControls offset={compareTo} onChange={setCompareTo} />
+             <SeriesControls labels={balanceLabels} view={balanceView} onChange={setBalanceView} />
+           </div>
+        </div>
+        <div className="flex flex-col items-end gap-2">
+          <div className="flex space-x-1 bg-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => setActiveBalanceTab('Balance')}
+              className={`px-3 py-1 rounded-md text-sm ${activeBalanceTab === 'Balance' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+            >
+              Balance
+            </button>
+            <button
+              onClick={() => setActiveBalanceTab('Profit Rate')}
+              className={`px-3 py-1 rounded-md text-sm ${activeBalanceTab === 'Profit Rate' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+            >
+              Profit Rate
+            </button>
+          </div>
+          {/* Balance and profit are reported in SOL */}
+          {activeBalanceTab === 'Balance' ? (
+            <ExportButtons
+              basename="balance"
+              getRows={() => chartSeriesRows(inChartRange(balanceChartSeries), 'balance', 'sol')}
+              disabled={filteredBalanceChartData.length === 0}
+            />
+          ) : (
+            <ExportButtons
+              basename="profit-rate"
+              getRows={() => chartSeriesRows(inChartRange(profitRateChartSeries), 'profit', 'sol')}
+              disabled={profitRateData.length === 0}
+            />
+          )}
+        </div>
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 items-end">
+        <div className="lg:col-span-2 h-64">
+          <ResponsiveContainer width="100%" height="100%">
+            {activeBalanceTab === 'Balance' ? (
+              isHistoryLoading ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+                  Loading historical balance data...
+                </div>
+              ) : filteredBalanceChartData.length < 2 ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+                  {isUsd ? 'Waiting for balance data and SOL/USD prices...' : 'Waiting for more balance data...'}
+                </div>
+              ) : (
+                <AreaChart data={filteredBalanceChartData}
+                  margin={{ top: 10, right: 0, left: -15, bottom: 0 }}>
+                  <defs>
+                    {balanceChartSeries.map(s => (
+                      <linearGradient key={s.key} id={`balanceGradient-${s.key}`} x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor={s.color} stopOpacity={0.8}/>
+                        <stop offset="95%" stopColor={s.color} stopOpacity={0}/>
+                      </linearGradient>
+                    ))}
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={[rangeStart, rangeEnd]}
+                    allowDataOverflow={true}
+                    stroke="#9ca3af"
+                    tickFormatter={formatChartTick}
+                    fontSize={10}
+                    axisLine={false}
+                    tickLine={false}
+                    interval="preserveStartEnd"
+                    ticks={chartTicks}
+                    padding={{ left: 10, right: 10 }}
+                  />
+                  <YAxis
+                    stroke="#9ca3af"
+                    fontSize={10}
+                    axisLine={false}
+                    tickLine={false}
+                    tickFormatter={(value) => (isUsd ? `$${value.toFixed(0)}` : value.toFixed(1))}
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#000', border: 'none', borderRadius: '4px', color: '#fff' }}
+                    labelStyle={{ color: '#fff' }}
+                    itemStyle={{ color: '#fff' }}
+                    formatter={(value: number, name: string, item: TooltipItem<SeriesRow>) =>
+                      [`${formatChartValue(value)}${deltaSuffix(value, item, compareTo)}`, name]}
+                    labelFormatter={formatChartTooltipTime}
+                  />
+                  {(balanceChartSeries.length > 1 || balanceComparisonSeries.length > 0) && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                  {balanceChartSeries.map(s => (
+                    <Area
+                      key={s.key}
+                      type="monotone"
+                      dataKey={s.key}
+                      name={s.label}
+                      stackId={balanceView.mode === 'stacked' ? 'balance' : undefined}
+                      stroke={s.color}
+                      fillOpacity={balanceChartSeries.length > 1 ? 0.3 : 1}
+                      fill={`url(#balanceGradient-${s.key})`}
+                      strokeWidth={balanceChartSeries.length > 1 ? 2 : 3}
+                    />
+                  ))}
+                  {balanceComparisonSeries.map(s => (
+                    <Area
+                      key={s.key}
+                      type="monotone"
+                      dataKey={s.key}
+                      name={s.label}
+                      stackId={balanceView.mode === 'stacked' ? 'balancePrev' : undefined}
+                      stroke={s.color}
+                      strokeDasharray="5 5"
+                      fill="none"
+                      strokeWidth={1.5}
+                    />
+                  ))}
+                </AreaChart>
+              )
+            ) : (
+              isProfitRateLoading ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+                  Loading profit rate data...
+                </div>
+              ) : profitRateSeries.length < 2 ? (
+                <div className="flex items-center justify-center h-full text-gray-500 text-sm">
+                  {isUsd ? 'Waiting for profit rate data and SOL/USD prices...' : 'Waiting for more profit rate data...'}
+                </div>
+              ) : (
+                <AreaChart data={profitRateSeries}
+                  margin={{ top: 10, right: 0, left: -15, bottom: 0 }}>
+                  <defs>
+                    {profitRateChartSeries.map(s => (
+                      <linearGradient key={s.key} id={`profitGradient-${s.key}`} x1="0" y1="0" x2="0" y2="1">
+                        <stop offset="5%" stopColor={s.color} stopOpacity={0.8}/>
+                        <stop offset="95%" stopColor={s.color} stopOpacity={0}/>
+                      </linearGradient>
+                    ))}
+                  </defs>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    domain={[rangeStart, rangeEnd]}
+                    allowDataOverflow={true}
+                    stroke="#9ca3af"
+                    tickFormatter={formatChartTick}
+                    fontSize={10}
+                    axisLine={false}
+                    tickLine={false}
+                    interval="preserveStartEnd"
+                    ticks={chartTicks}
+                    padding={{ left: 10, right: 10 }}
+                  />
+                  <YAxis
+                    stroke="#9ca3af"
+                    fontSize={10}
+                    axisLine={false}
+                    tickLine={false}
+                    tickFormatter={(value) => (isUsd ? `$${value.toFixed(2)}` : value.toFixed(3))}
+                  />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#000', border: 'none', borderRadius: '4px', color: '#fff' }}
+                    labelStyle={{ color: '#fff' }}
+                    itemStyle={{ color: '#fff' }}
+                    formatter={(value: number, name: string, item: TooltipItem<SeriesRow>) =>
+                      [`${formatChartValue(value)}${deltaSuffix(value, item, compareTo)}`, name]}
+                    labelFormatter={formatChartTooltipTime}
+                  />
+                  {(profitRateChartSeries.length > 1 || profitRateComparisonSeries.length > 0) && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                  {profitRateChartSeries.map(s => (
+                    <Area
+                      key={s.key}
+                      type="monotone"
+                      dataKey={s.key}
+                      name={s.label}
+                      stackId={balanceView.mode === 'stacked' ? 'profit' : undefined}
+                      stroke={s.color}
+                      fillOpacity={profitRateChartSeries.length > 1 ? 0.3 : 1}
+                      fill={`url(#profitGradient-${s.key})`}
+                      strokeWidth={profitRateChartSeries.length > 1 ? 2 : 3}
+                    />
+                  ))}
+                  {profitRateComparisonSeries.map(s => (
+                    <Area
+                      key={s.key}
+                      type="monotone"
+                      dataKey={s.key}
+                      name={s.label}
+                      stackId={balanceView.mode === 'stacked' ? 'profitPrev' : undefined}
+                      stroke={s.color}
+                      strokeDasharray="5 5"
+                      fill="none"
+                      strokeWidth={1.5}
+                    />
+                  ))}
+                </AreaChart>
+              )
+            )}
+          </ResponsiveContainer>
+        </div>
+        <div className="flex flex-col justify-between space-y-4">
+          <div className="card-bordered p-3">
+            <h3 className="text-sm font-semibold text-white mb-1">Live Balance</h3>
+            <p className="text-3xl font-bold text-green-400">{formatChartValue(toChartUnit(liveBalance))}</p>
+          </div>
+          <div className="card-bordered p-3">
+            <h3 className="text-sm font-semibold text-white mb-2">Profit per Hour</h3>
+            <div className="grid grid-cols-3 gap-1 mb-2">
+              {PROFIT_WINDOWS.map((range) => (
+                <button
+                  key={range}
+                  onClick={() => setSelectedTimeRange(range)}
+                  className={`px-2 py-0.5 text-xs rounded ${selectedTimeRange === range ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`}
+                >
+                  {range}
+                </button>
+              ))}
+            </div>
+            <p className="text-2xl font-bold text-green-400">
+              {formatChartValue(toChartUnit(profitPerHour))}
+            </p>
+            <p className="text-xs text-gray-400">Over the last {selectedTimeRange}</p>
+            {profitChange !== null && (
+              <p className={`text-xs ${profitChange >= 0 ? 'text-green-400' : 'text-red-500'}`}>
+                {profitChange >= 0 ? '▲' : '▼'} {formatPercentChange(profitChange)} vs the {selectedTimeRange} before
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BalanceWidget;
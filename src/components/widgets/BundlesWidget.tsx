@@ -0,0 +1,228 @@
+import React, { useMemo, useState } from 'react';
+import { XAxis, YAxis, ResponsiveContainer, ComposedChart, Bar, Area, Tooltip, CartesianGrid, Legend } from 'recharts';
+import { format, startOfHour } from 'date-fns';
+import { usePromRange } from '../../hooks/usePromQuery';
+import { isInitialLoad } from '../../services/promQueryClient';
+import CompareControls from '../CompareControls';
+import ExportButtons from '../ExportButtons';
+import SeriesControls from '../SeriesControls';
+import StaleBadge from '../StaleBadge';
+import { TooltipItem } from '../../types/chart';
+import { CompareOffset, comparisonSeries, deltaSuffix, offsetModifier } from '../../utils/comparison';
+import { chartSeriesRows } from '../../utils/export';
+import { ChartSeries, chartSeries, defaultSeriesView, pivotSeries, resultLabels, SeriesRow, SeriesView } from '../../utils/series';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Hourly series only change once an hour, shared with the tip efficiency panel
+const HOURLY_REFRESH = 5 * 60 * 1000;
+
+// A chart is flagged stale when its last successful fetch is older than this
+const STALE_AFTER = {
+  bundles: 60 * 60 * 1000,
+  tips: 60 * 60 * 1000,
+};
+
+// Counts come from increase(), which extrapolates to fractions
+const roundSeries = (series: ChartSeries[]): ChartSeries[] =>
+  series.map(s => ({ ...s, points: s.points.map(p => ({ ...p, value: Math.round(p.value) })) }));
+
+// Landed bundles or tips per hour over the last 24h
+const BundlesWidget = () => {
+  const [activeBundleTab, setActiveBundleTab] = useState<'Bundles' | 'Tips'>('Bundles');
+  const [bundleView, setBundleView] = useState<SeriesView>(defaultSeriesView);
+  // Overlays the same hours shifted back by this much
+  const [compareTo, setCompareTo] = useState<CompareOffset | null>(null);
+
+  const bundles = usePromRange('increase(sandwiches_landed_total[1h])', { durationMs: DAY }, '1h', { refreshMs: HOURLY_REFRESH });
+  const tips = usePromRange(
+    'increase(sandwich_tips_total[1h])',
+    { durationMs: DAY },
+    '1h',
+    { refreshMs: HOURLY_REFRESH, enabled: activeBundleTab === 'Tips' }
+  );
+  const bundlesComparison = usePromRange(
+    `increase(sandwiches_landed_total[1h]${offsetModifier(compareTo)})`,
+    { durationMs: DAY },
+    '1h',
+    { refreshMs: HOURLY_REFRESH, enabled: compareTo !== null && activeBundleTab === 'Bundles' }
+  );
+  const tipsComparison = usePromRange(
+    `increase(sandwich_tips_total[1h]${offsetModifier(compareTo)})`,
+    { durationMs: DAY },
+    '1h',
+    { refreshMs: HOURLY_REFRESH, enabled: compareTo !== null && activeBundleTab === 'Tips' }
+  );
+
+  const bundlesChartSeries = useMemo(
+    () => roundSeries(chartSeries(bundles.data, bundleView, { name: 'Bundles', color: '#fff' })),
+    [bundles.data, bundleView]
+  );
+  const tipsChartSeries = useMemo(
+    () => roundSeries(chartSeries(tips.data, bundleView, { name: 'Tips', color: '#f59e42' })),
+    [tips.data, bundleView]
+  );
+  const bundlesComparisonSeries = useMemo(
+    () => (compareTo
+      ? comparisonSeries(bundlesChartSeries, roundSeries(chartSeries(bundlesComparison.data, bundleView, { name: 'Bundles', color: '#fff' })), compareTo)
+      : []),
+    [bundlesChartSeries, bundlesComparison.data, bundleView, compareTo]
+  );
+  const tipsComparisonSeries = useMemo(
+    () => (compareTo
+      ? comparisonSeries(tipsChartSeries, roundSeries(chartSeries(tipsComparison.data, bundleView, { name: 'Tips', color: '#f59e42' })), compareTo)
+      : []),
+    [tipsChartSeries, tipsComparison.data, bundleView, compareTo]
+  );
+  const bundlesPerHour = pivotSeries([...bundlesChartSeries, ...bundlesComparisonSeries])
+    .map(row => ({ ...row, hour: format(startOfHour(row.time), 'HH:mm') }));
+  const tipsPerHour = pivotSeries([...tipsChartSeries, ...tipsComparisonSeries])
+    .map(row => ({ ...row, hour: format(startOfHour(row.time), 'HH:mm') }));
+  const bundleLabels = resultLabels(activeBundleTab === 'Bundles' ? bundles.data : tips.data);
+  const isBundlesLoading = isInitialLoad(bundles);
+  const isTipsLoading = isInitialLoad(tips);
+
+  return (
+    <div className="card-bordered p-4 h-full">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <div className="flex items-center gap-2">
+            <h2 className="text-xl font-semibold text-gray-100">Bundles per Hour</h2>
+            {activeBundleTab === 'Bundles'
+              ? <StaleBadge lastSuccessAt={bundles.updatedAt} maxAgeMs={STALE_AFTER.bundles} />
+              : <StaleBadge lastSuccessAt={tips.updatedAt} maxAgeMs={STALE_AFTER.tips} />}
+          </div>
+          <p className="text-sm text-gray-500">Number of bundles processed each hour</p>
+          <div className="mt-2 flex flex-wrap items-start gap-2">
+            <CompareControls offset={compareTo} onChange={setCompareTo} />
+            <SeriesControls labels={bundleLabels} view={bundleView} onChange={setBundleView} />
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {/* Tips are reported in lamports */}
+          {activeBundleTab === 'Bundles' ? (
+            <ExportButtons
+              basename="bundles-per-hour"
+              getRows={() => chartSeriesRows(bundlesChartSeries, 'bundles', 'count')}
+              disabled={bundlesPerHour.length === 0}
+            />
+          ) : (
+            <ExportButtons
+              basename="tips-per-hour"
+              getRows={() => chartSeriesRows(tipsChartSeries, 'tips', 'lamports')}
+              disabled={tipsPerHour.length === 0}
+            />
+          )}
+          <div className="flex space-x-1 bg-gray-800 rounded-lg p-1">
+            <button
+              onClick={() => setActiveBundleTab('Bundles')}
+              className={`px-3 py-1 rounded-md text-sm ${activeBundleTab === 'Bundles' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+            >
+              Bundles
+            </button>
+            <button
+              onClick={() => setActiveBundleTab('Tips')}
+              className={`px-3 py-1 rounded-md text-sm ${activeBundleTab === 'Tips' ? 'bg-gray-600 text-white' : 'text-gray-400 hover:bg-gray-700 hover:text-gray-300'}`}
+            >
+              Tips
+            </button>
+          </div>
+        </div>
+      </div>
+      <div className="h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          {activeBundleTab === 'Bundles' ? (
+            isBundlesLoading ? (
+              <div className="flex items-center justify-center h-full text-gray-500 text-sm">Loading bundles data...</div>
+            ) : bundlesPerHour.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-red-500 text-sm">No bundles data found for the last 24h.</div>
+            ) : (
+              <ComposedChart data={bundlesPerHour} margin={{ top: 5, right: 5, left: -25, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                <XAxis dataKey="hour" stroke="#9ca3af" fontSize={12} />
+                <YAxis stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#000', border: 'none', borderRadius: '4px', color: '#fff' }}
+                  labelStyle={{ color: '#fff' }}
+                  itemStyle={{ color: '#fff' }}
+                  formatter={(value: number, name: string, item: TooltipItem<SeriesRow>) =>
+                    [`${Math.round(value)}${deltaSuffix(value, item, compareTo)}`, name]}
+                />
+                {(bundlesChartSeries.length > 1 || bundlesComparisonSeries.length > 0) && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                {bundlesChartSeries.map((s, i) => (
+                  <Bar
+                    key={s.key}
+                    dataKey={s.key}
+                    name={s.label}
+                    fill={s.color}
+                    stackId={bundleView.mode === 'stacked' ? 'bundles' : undefined}
+                    radius={bundleView.mode !== 'stacked' || i === bundlesChartSeries.length - 1 ? [4, 4, 0, 0] : undefined}
+                    activeBar={{ fillOpacity: 0.25, stroke: 'none' }}
+                  />
+                ))}
+                {bundlesComparisonSeries.map(s => (
+                  <Area
+                    key={s.key}
+                    type="monotone"
+                    dataKey={s.key}
+                    name={s.label}
+                    stackId={bundleView.mode === 'stacked' ? 'bundlesPrev' : undefined}
+                    stroke={s.color}
+                    strokeDasharray="5 5"
+                    fill="none"
+                    strokeWidth={1.5}
+                  />
+                ))}
+              </ComposedChart>
+            )
+          ) : (
+            isTipsLoading ? (
+              <div className="flex items-center justify-center h-full text-gray-500 text-sm">Loading tips data...</div>
+            ) : tipsPerHour.length === 0 ? (
+              <div className="flex items-center justify-center h-full text-red-500 text-sm">No tips data found for the last 24h.</div>
+            ) : (
+              <ComposedChart data={tipsPerHour} margin={{ top: 5, right: 5, left: -25, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#4b5563" vertical={false} />
+                <XAxis dataKey="hour" stroke="#9ca3af" fontSize={12} />
+                <YAxis stroke="#9ca3af" fontSize={12} allowDecimals={false} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#000', border: 'none', borderRadius: '4px', color: '#fff' }}
+                  labelStyle={{ color: '#fff' }}
+                  itemStyle={{ color: '#fff' }}
+                  formatter={(value: number, name: string, item: TooltipItem<SeriesRow>) =>
+                    [`${Math.round(value)}${deltaSuffix(value, item, compareTo)}`, name]}
+                />
+                {(tipsChartSeries.length > 1 || tipsComparisonSeries.length > 0) && <Legend wrapperStyle={{ fontSize: 12 }} />}
+                {tipsChartSeries.map((s, i) => (
+                  <Bar
+                    key={s.key}
+                    dataKey={s.key}
+                    name={s.label}
+                    fill={s.color}
+                    stackId={bundleView.mode === 'stacked' ? 'tips' : undefined}
+                    radius={bundleView.mode !== 'stacked' || i === tipsChartSeries.length - 1 ? [4, 4, 0, 0] : undefined}
+                    activeBar={{ fillOpacity: 0.25, stroke: 'none' }}
+                  />
+                ))}
+                {tipsComparisonSeries.map(s => (
+                  <Area
+                    key={s.key}
+                    type="monotone"
+                    dataKey={s.key}
+                    name={s.label}
+                    stackId={bundleView.mode === 'stacked' ? 'tipsPrev' : undefined}
+                    stroke={s.color}
+                    strokeDasharray="5 5"
+                    fill="none"
+                    strokeWidth={1.5}
+                  />
+                ))}
+              </ComposedChart>
+            )
+          )}
+        </ResponsiveContainer>
+      </div>
+    </div>
+  );
+};
+
+export default BundlesWidget;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { useTokenRegistry } from '../../context/TokenRegistryContext';
+import { useUsdProfits } from '../../hooks/useUsdProfits';
+import { SandwichData } from '../../types/sandwich';
+import { FEED_EVENT_LABELS, FeedEventType } from '../../types/feed';
+import { eventKey } from '../../services/feedEvents';
+import { selectFeedEvents } from '../../store/feedSlice';
+import { useAppSelector } from '../../store/hooks';
+import SandwichDrawer from '../SandwichDrawer';
+import FeedEventCard from '../feed/FeedEventCard';
+import ExportButtons from '../ExportButtons';
+import FeedRecorder from '../FeedRecorder';
+import { sandwichRows } from '../../utils/export';
+
+const LiveFeedWidget = () => {
+  const events = useAppSelector(selectFeedEvents);
+  const [selectedSandwich, setSelectedSandwich] = useState<SandwichData | null>(null);
+  const [selectedEventTypes, setSelectedEventTypes] = useState<FeedEventType[]>(
+    Object.keys(FEED_EVENT_LABELS) as FeedEventType[]
+  );
+  const filteredEvents = events.filter(event => selectedEventTypes.includes(event.kind));
+  const filteredSandwiches = filteredEvents.flatMap(event => event.kind === 'sandwich' ? [event.payload] : []);
+  const { getSandwichDecimals } = useTokenRegistry();
+  const usdProfits = useUsdProfits(filteredSandwiches);
+
+  const toggleEventType = (type: FeedEventType) => {
+    setSelectedEventTypes(prev =>
+      prev.includes(type) ? prev.filter(t => t !== type) : [...prev, type]
+    );
+  };
+
+  return (
+    <>
+      <div className="card-bordered p-4 flex flex-col h-full" style={{ maxHeight: '500px' }}>
+        <div className="flex justify-between items-center mb-4 flex-shrink-0">
+          <div>
+            <h2 className="text-xl font-semibold text-gray-100">Live Feed</h2>
+            <div className="mt-1">
+              <ExportButtons
+                basename="sandwiches"
+                getRows={() => sandwichRows(filteredSandwiches, getSandwichDecimals)}
+                disabled={filteredSandwiches.length === 0}
+              />
+            </div>
+          </div>
+          <div className="flex flex-wrap justify-end gap-1">
+            {(Object.keys(FEED_EVENT_LABELS) as FeedEventType[]).map(type => (
+              <button
+                key={type}
+                onClick={() => toggleEventType(type)}
+                className={`px-2 py-0.5 text-xs rounded ${selectedEventTypes.includes(type) ? 'bg-black text-white border border-white' : 'bg-black text-gray-400 hover:bg-gray-700 hover:text-white border border-white/20'}`}
+              >
+                {FEED_EVENT_LABELS[type]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="mb-3 flex-shrink-0">
+          <FeedRecorder />
+        </div>
+        <div className="flex-grow overflow-y-auto space-y-2 pr-2 scrollbar-thin scrollbar-thumb-gray-700 scrollbar-track-gray-800">
+          {filteredEvents.length === 0 && (
+             <div className="text-center text-gray-500 py-10">Waiting for feed events...</div>
+          )}
+          {filteredEvents.map((event, index) => (
+            <FeedEventCard
+              key={`${eventKey(event)}-${index}`}
+              event={event}
+              onSelectSandwich={setSelectedSandwich}
+              usdProfit={event.kind === 'sandwich' ? usdProfits[event.payload.data.sandwich.slot] : undefined}
+            />
+          ))}
+        </div>
+      </div>
+      <SandwichDrawer sandwich={selectedSandwich} onClose={() => setSelectedSandwich(null)} />
+    </>
+  );
+};
+
+export default LiveFeedWidget;
@@ -0,0 +1,113 @@
+export interface ReconnectSettings {
+  maxAttempts: number;
+  // Delay before the first reconnect, grown by backoffMultiplier up to maxDelayMs
+  delayMs: number;
+  backoffMultiplier: number;
+  maxDelayMs: number;
+  // Fraction of the delay added or removed at random, so clients don't reconnect in lockstep
+  jitter: number;
+  // Interval for retrying the primary URL once maxAttempts is exhausted
+  periodicReconnectMs: number;
+  // Interval for polling last_sandwich_data while the socket is down
+  fallbackPollMs: number;
+}
+
+export interface Environment {
+  id: string;
+  name: string;
+  prometheusEndpoint: string;
+  prometheusBaseUrl: string;
+  primaryWsUrl: string;
+  fallbackWsUrl: string;
+  reconnect: ReconnectSettings;
+}
+
+const defaultReconnect: ReconnectSettings = {
+  maxAttempts: 10,
+  delayMs: 3000,
+  backoffMultiplier: 1.5,
+  maxDelayMs: 30000,
+  jitter: 0.2,
+  periodicReconnectMs: 30000,
+  fallbackPollMs: 10000,
+};
+
+const builtInEnvironments: Environment[] = [
+  {
+    id: 'ny',
+    name: 'NY',
+    prometheusEndpoint: 'https://prometheus.ny.mev-master.versatus.ch',
+    prometheusBaseUrl: '/api/v1',
+    primaryWsUrl: 'wss://208.91.110.246:6287/ws/livefeed',
+    fallbackWsUrl: 'wss://136.144.59.181:6287/ws/livefeed',
+    reconnect: defaultReconnect,
+  },
+  {
+    id: 'local',
+    name: 'Local',
+    prometheusEndpoint: 'http://localhost:9090',
+    prometheusBaseUrl: '/api/v1',
+    primaryWsUrl: 'ws://localhost:6287/ws/livefeed',
+    fallbackWsUrl: 'ws://localhost:6287/ws/livefeed',
+    reconnect: defaultReconnect,
+  },
+];
+
+// REACT_APP_ENVIRONMENTS holds a JSON array of environments, merged over the
+// built-in ones by id. Missing fields fall back to the NY defaults.
+const parseEnvironments = (raw: string | undefined): Environment[] => {
+  if (!raw) return builtInEnvironments;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) {
+      console.error('REACT_APP_ENVIRONMENTS must be a JSON array, ignoring it');
+      return builtInEnvironments;
+    }
+    const merged = [...builtInEnvironments];
+    for (const entry of parsed) {
+      if (!entry || typeof entry.id !== 'string') {
+        console.error('Skipping environment without an id:', entry);
+        continue;
+      }
+      const index = merged.findIndex(env => env.id === entry.id);
+      const base = index === -1 ? builtInEnvironments[0] : merged[index];
+      const env: Environment = {
+        ...base,
+        ...entry,
+        name: entry.name ?? entry.id,
+        reconnect: { ...base.reconnect, ...entry.reconnect },
+      };
+      if (index === -1) {
+        merged.push(env);
+      } else {
+        merged[index] = env;
+      }
+    }
+    return merged;
+  } catch (error) {
+    console.error('Error parsing REACT_APP_ENVIRONMENTS:', error);
+    return builtInEnvironments;
+  }
+};
+
+export const ENVIRONMENTS: Environment[] = parseEnvironments(process.env.REACT_APP_ENVIRONMENTS);
+
+export const DEFAULT_ENVIRONMENT_ID: string =
+  ENVIRONMENTS.find(env => env.id === process.env.REACT_APP_DEFAULT_ENVIRONMENT)?.id ?? ENVIRONMENTS[0].id;
+
+// Dashboard server handling sign-in, see server/. Without it the dashboard runs without accounts.
+export const AUTH_URL: string | null = process.env.REACT_APP_AUTH_URL?.replace(/\/$/, '') || null;
+
+// Origin with WebSocket schemes read as their HTTP ones, so the server's livefeed shares its origin
+const httpOrigin = (url: string): string | null => {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return `${parsed.protocol.replace(/^ws/, 'http')}//${parsed.host}`;
+  } catch {
+    return null;
+  }
+};
+
+// Session tokens only go to the dashboard server, never to Prometheus or bots it doesn't front
+export const isDashboardServerUrl = (url: string): boolean =>
+  AUTH_URL !== null && httpOrigin(url) !== null && httpOrigin(url) === httpOrigin(AUTH_URL);
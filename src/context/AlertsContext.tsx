@@ -0,0 +1,162 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { ALERT_RULE_DEFINITIONS, AlertEntry, AlertRule, AlertSnapshot, checkRules } from '../services/alertRules';
+import { playAlertSound } from '../utils/alertSound';
+import { summedSeries } from '../utils/prometheus';
+import { useEnvironment } from './EnvironmentContext';
+import { selectFeedStatus, selectSandwiches } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+import { selectProfit } from '../store/metricsSlice';
+
+// Key for localStorage
+const LOCAL_STORAGE_KEY = 'alertHistory';
+const MAX_HISTORY = 200;
+// How often rules are evaluated
+const CHECK_INTERVAL = 60 * 1000;
+
+const getInitialHistory = (): AlertEntry[] => {
+  try {
+    const storedData = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (storedData) {
+      const parsedData = JSON.parse(storedData);
+      if (Array.isArray(parsedData)) {
+        return parsedData.slice(0, MAX_HISTORY);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading alert history from localStorage:', error);
+  }
+  return [];
+};
+
+export const ruleLabel = (rule: Pick<AlertRule, 'type'>) => ALERT_RULE_DEFINITIONS[rule.type].label;
+
+interface AlertsContextValue {
+  // Newest first, across environments
+  history: AlertEntry[];
+  // Unresolved alerts of the current environment
+  activeAlerts: AlertEntry[];
+  clearHistory: () => void;
+}
+
+const AlertsContext = createContext<AlertsContextValue | null>(null);
+
+// Evaluates the alert rules against Prometheus and the livefeed. Lives under SandwichHistoryProvider,
+// so it restarts with the environment like everything else.
+export const AlertsProvider = ({ children }: { children: React.ReactNode }) => {
+  const { environment, queryClient } = useEnvironment();
+  const sandwiches = useAppSelector(selectSandwiches);
+  const status = useAppSelector(selectFeedStatus);
+  // Polled by the store for the Dashboard anyway
+  const profit1h = useAppSelector(state => selectProfit(state, '1h'));
+  const { settings } = useSettings();
+  const { rules, sound, browserNotifications } = settings.alerts;
+  const [history, setHistory] = useState<AlertEntry[]>(getInitialHistory);
+
+  // The check loop reads these through refs so feed updates don't restart it
+  const historyRef = useRef(history);
+  historyRef.current = history;
+  const feedRef = useRef({ sandwiches, status, profit1h });
+  feedRef.current = { sandwiches, status, profit1h };
+  const notifyRef = useRef({ sound, browserNotifications });
+  notifyRef.current = { sound, browserNotifications };
+  const mountedAt = useRef(Date.now());
+  const fallbackSince = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (status.state !== 'polling-fallback') {
+      fallbackSince.current = null;
+    } else if (fallbackSince.current === null) {
+      fallbackSince.current = Date.now();
+    }
+  }, [status.state]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(history));
+    } catch (error) {
+      console.error('Error saving alert history to localStorage:', error);
+    }
+  }, [history]);
+
+  useEffect(() => {
+    const enabledRules = rules.filter(rule => rule.enabled);
+
+    const notify = (title: string, message: string) => {
+      toast.warn(`${title}: ${message}`);
+      if (notifyRef.current.browserNotifications && 'Notification' in window && Notification.permission === 'granted') {
+        new Notification(title, { body: message });
+      }
+      if (notifyRef.current.sound) playAlertSound();
+    };
+
+    const fetchBalanceHistory = async (minutes: number): Promise<AlertSnapshot['balanceHistory']> => {
+      if (minutes <= 0) return [];
+      try {
+        return summedSeries(await queryClient.fetchQuery({
+          kind: 'range',
+          query: 'sandwich_bank_balance_amount',
+          durationMs: minutes * 60 * 1000,
+          step: '1m',
+        }));
+      } catch (error) {
+        console.error('Error fetching balance for alerts:', error);
+      }
+      return [];
+    };
+
+    let cancelled = false;
+
+    const check = async () => {
+      const balanceWindow = Math.max(0, ...enabledRules.filter(r => r.type === 'balanceDrop').map(r => r.windowMinutes));
+      const balanceHistory = await fetchBalanceHistory(balanceWindow);
+      if (cancelled) return;
+
+      const { sandwiches: latest, status: feedStatus, profit1h } = feedRef.current;
+      const newestSandwich = latest[0] ? latest[0].data.sandwich.timestamp * 1000 : 0;
+      const snapshot: AlertSnapshot = {
+        now: Date.now(),
+        balanceHistory,
+        // Don't count the time before the dashboard was opened as silence
+        lastSandwichAt: Math.max(newestSandwich, mountedAt.current),
+        feedState: feedStatus.state,
+        fallbackSince: fallbackSince.current,
+        profit1h,
+      };
+
+      const { history: next, fired, resolved } = checkRules(historyRef.current, enabledRules, snapshot, environment.id);
+      fired.forEach(entry => notify(`${environment.name} · ${ruleLabel(entry)}`, entry.message));
+      resolved
+        // Disabled and removed rules resolve quietly
+        .filter(entry => enabledRules.some(rule => rule.id === entry.ruleId))
+        .forEach(entry => toast.success(`Resolved: ${ruleLabel(entry)}`));
+      if (next !== historyRef.current) setHistory(next.slice(0, MAX_HISTORY));
+    };
+
+    check();
+    const interval = setInterval(check, CHECK_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [rules, queryClient, environment]);
+
+  const activeAlerts = history.filter(e => e.environment === environment.id && e.resolvedAt === null);
+
+  const clearHistory = () => setHistory([]);
+
+  return (
+    <AlertsContext.Provider value={{ history, activeAlerts, clearHistory }}>
+      {children}
+    </AlertsContext.Provider>
+  );
+};
+
+export const useAlerts = () => {
+  const context = useContext(AlertsContext);
+  if (!context) {
+    throw new Error('useAlerts must be used within an AlertsProvider');
+  }
+  return context;
+};
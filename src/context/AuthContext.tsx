@@ -0,0 +1,120 @@
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { toast } from 'react-toastify';
+import { AUTH_URL } from '../config';
+import { LoginResponse, SessionUser } from '../types/auth';
+
+// Key for localStorage
+const LOCAL_STORAGE_KEY = 'authSession';
+
+// Without a server to sign in with there are no accounts, and everyone may change everything
+const LOCAL_USER: SessionUser = { username: 'local', role: 'operator' };
+
+// setTimeout overflows past ~24.8 days
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const getStoredSession = (): LoginResponse | null => {
+  try {
+    const storedData = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (storedData) {
+      const parsedData = JSON.parse(storedData);
+      if (parsedData?.token && parsedData.expiresAt > Date.now()) {
+        return parsedData;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading session from localStorage:', error);
+  }
+  return null;
+};
+
+interface AuthContextValue {
+  // False without REACT_APP_AUTH_URL
+  enabled: boolean;
+  user: SessionUser | null;
+  token: string | null;
+  expiresAt: number | null;
+  // Rejects with a message fit for the login form
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => void;
+  // Ends the session after the server stopped accepting its token
+  expireSession: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const AuthProvider = ({ children }: { children: React.ReactNode }) => {
+  const [session, setSession] = useState<LoginResponse | null>(() => (AUTH_URL ? getStoredSession() : null));
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  useEffect(() => {
+    try {
+      if (session) {
+        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(session));
+      } else {
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+      }
+    } catch (error) {
+      console.error('Error saving session to localStorage:', error);
+    }
+  }, [session]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    if (!AUTH_URL) return;
+    let response: Response;
+    try {
+      response = await fetch(`${AUTH_URL}/auth/login`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ username, password }),
+      });
+    } catch (error) {
+      console.error('Error signing in:', error);
+      throw new Error('Could not reach the dashboard server');
+    }
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(body.error ?? `Sign in failed (${response.status})`);
+    }
+    setSession(body as LoginResponse);
+  }, []);
+
+  const logout = useCallback(() => setSession(null), []);
+
+  const expireSession = useCallback(() => {
+    // Requests still in flight after a logout fail as well
+    if (!sessionRef.current) return;
+    toast.info('Your session expired, please sign in again', { toastId: 'session-expired' });
+    setSession(null);
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+    const timeout = setTimeout(expireSession, Math.min(MAX_TIMEOUT, Math.max(0, session.expiresAt - Date.now())));
+    return () => clearTimeout(timeout);
+  }, [session, expireSession]);
+
+  const enabled = AUTH_URL !== null;
+  const value: AuthContextValue = {
+    enabled,
+    user: enabled ? session?.user ?? null : LOCAL_USER,
+    token: session?.token ?? null,
+    expiresAt: session?.expiresAt ?? null,
+    login,
+    logout,
+    expireSession,
+  };
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
+
+export const useAuth = () => {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error('useAuth must be used within an AuthProvider');
+  }
+  return context;
+};
+
+// Settings, alert rules and environments are only editable by operators
+export const useIsOperator = () => useAuth().user?.role === 'operator';
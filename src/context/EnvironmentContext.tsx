@@ -0,0 +1,79 @@
+import React, { createContext, useContext, useEffect, useMemo, useState, useSyncExternalStore } from 'react';
+import { PrometheusDriver } from 'prometheus-query';
+import { DEFAULT_ENVIRONMENT_ID, Environment, ENVIRONMENTS } from '../config';
+import { useAuth } from './AuthContext';
+import { QueryMetrics } from '../services/queryMetrics';
+import { PromQueryClient } from '../services/promQueryClient';
+import { createPrometheusClient } from '../services/prometheusClient';
+
+// Key for localStorage
+const LOCAL_STORAGE_KEY = 'selectedEnvironment';
+
+const getInitialEnvironmentId = (): string => {
+  try {
+    const storedId = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (storedId && ENVIRONMENTS.some(env => env.id === storedId)) {
+      return storedId;
+    }
+  } catch (error) {
+    console.error('Error reading environment from localStorage:', error);
+  }
+  return DEFAULT_ENVIRONMENT_ID;
+};
+
+interface EnvironmentContextValue {
+  environment: Environment;
+  environments: Environment[];
+  setEnvironmentId: (id: string) => void;
+  prom: PrometheusDriver;
+  // Latency and errors of every query made through prom
+  queryMetrics: QueryMetrics;
+  // Cached, deduplicated access to prom shared by every page
+  queryClient: PromQueryClient;
+}
+
+const EnvironmentContext = createContext<EnvironmentContextValue | null>(null);
+
+export const EnvironmentProvider = ({ children }: { children: React.ReactNode }) => {
+  const [environmentId, setEnvironmentId] = useState<string>(getInitialEnvironmentId);
+
+  const environment = ENVIRONMENTS.find(env => env.id === environmentId) ?? ENVIRONMENTS[0];
+  const { token, expireSession } = useAuth();
+
+  // One Prometheus client per environment, rebuilt when the environment changes
+  const { prom, queryMetrics, queryClient } = useMemo(
+    () => createPrometheusClient(environment, token, expireSession),
+    [environment, token, expireSession]
+  );
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEY, environment.id);
+    } catch (error) {
+      console.error('Error saving environment to localStorage:', error);
+    }
+  }, [environment]);
+
+  return (
+    <EnvironmentContext.Provider value={{ environment, environments: ENVIRONMENTS, setEnvironmentId, prom, queryMetrics, queryClient }}>
+      {children}
+    </EnvironmentContext.Provider>
+  );
+};
+
+export const useEnvironment = () => {
+  const context = useContext(EnvironmentContext);
+  if (!context) {
+    throw new Error('useEnvironment must be used within an EnvironmentProvider');
+  }
+  return context;
+};
+
+export const usePrometheus = () => useEnvironment().prom;
+
+export const usePromQueryClient = () => useEnvironment().queryClient;
+
+export const useQueryStats = () => {
+  const { queryMetrics } = useEnvironment();
+  return useSyncExternalStore(queryMetrics.subscribe, queryMetrics.getStats);
+};
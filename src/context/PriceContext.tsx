@@ -0,0 +1,27 @@
+import React, { createContext, useContext, useMemo } from 'react';
+import { createPriceSource, PriceSource } from '../services/priceSource';
+import { useEnvironment } from './EnvironmentContext';
+import { useSettings } from '../store/hooks';
+
+const PriceContext = createContext<PriceSource | null>(null);
+
+// Rebuilt when the pricing settings or the environment change, which also drops the price cache
+export const PriceProvider = ({ children }: { children: React.ReactNode }) => {
+  const { prom } = useEnvironment();
+  const { settings } = useSettings();
+  const source = useMemo(() => createPriceSource(settings.pricing, prom), [settings.pricing, prom]);
+
+  return (
+    <PriceContext.Provider value={source}>
+      {children}
+    </PriceContext.Provider>
+  );
+};
+
+export const usePriceSource = () => {
+  const context = useContext(PriceContext);
+  if (!context) {
+    throw new Error('usePriceSource must be used within a PriceProvider');
+  }
+  return context;
+};
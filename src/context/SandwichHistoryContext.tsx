@@ -0,0 +1,62 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { compactStore, createSandwichStore, SandwichStore } from '../services/sandwichStore';
+import { selectReplayStatus, selectSandwiches } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+import { useEnvironment } from './EnvironmentContext';
+
+// Full history in IndexedDB, the feed's sandwiches in the store are its newest window
+const SandwichHistoryContext = createContext<SandwichStore | null>(null);
+
+// How often retention is applied to the history store
+const COMPACT_INTERVAL = 60 * 60 * 1000;
+
+// Keeps every sandwich the feed delivers in the environment's IndexedDB history
+export const SandwichHistoryProvider = ({ children }: { children: React.ReactNode }) => {
+  const { environment } = useEnvironment();
+  const sandwiches = useAppSelector(selectSandwiches);
+  const replay = useAppSelector(selectReplayStatus);
+  const { settings } = useSettings();
+  const { retentionDays, maxEntries } = settings.history;
+  const [store, setStore] = useState<SandwichStore | null>(null);
+  const persistedSlots = useRef(new Set<number>());
+
+  // Opened in an effect so StrictMode's remount doesn't leave a closed database behind
+  useEffect(() => {
+    const historyStore = createSandwichStore(environment.id);
+    setStore(historyStore);
+
+    return () => {
+      historyStore.close();
+      setStore(null);
+    };
+  }, [environment.id]);
+
+  // Effect to append new sandwiches to the history store, replayed ones are never saved
+  useEffect(() => {
+    if (!store || replay) return;
+    const fresh = sandwiches.filter(s => !persistedSlots.current.has(s.data.sandwich.slot));
+    // Only the current window needs remembering, older slots never come back
+    persistedSlots.current = new Set(sandwiches.map(s => s.data.sandwich.slot));
+    store.put(fresh).catch(error => console.error('Error saving sandwiches to history:', error));
+  }, [sandwiches, store, replay]);
+
+  useEffect(() => {
+    if (!store) return;
+    const compact = () => {
+      compactStore(store, retentionDays, maxEntries)
+        .catch(error => console.error('Error compacting sandwich history:', error));
+    };
+    compact();
+    const interval = setInterval(compact, COMPACT_INTERVAL);
+
+    return () => clearInterval(interval);
+  }, [store, retentionDays, maxEntries]);
+
+  return (
+    <SandwichHistoryContext.Provider value={store}>
+      {children}
+    </SandwichHistoryContext.Provider>
+  );
+};
+
+export const useSandwichStore = () => useContext(SandwichHistoryContext);
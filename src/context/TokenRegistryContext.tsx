@@ -0,0 +1,88 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { SandwichData } from '../types/sandwich';
+import { DecimalsMap, learnDecimals, payloadDecimals, resolveToken, TokenInfo } from '../services/tokenRegistry';
+import { selectSandwiches } from '../store/feedSlice';
+import { useAppSelector, useSettings } from '../store/hooks';
+
+// Key for localStorage
+const LOCAL_STORAGE_KEY = 'tokenDecimalsCache';
+
+const getInitialCache = (): DecimalsMap => {
+  try {
+    const storedData = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (storedData) {
+      const parsedData = JSON.parse(storedData);
+      if (parsedData && typeof parsedData === 'object' && !Array.isArray(parsedData)) {
+        return parsedData;
+      }
+    }
+  } catch (error) {
+    console.error('Error reading token decimals cache from localStorage:', error);
+  }
+  return {};
+};
+
+interface TokenRegistryContextValue {
+  getToken: (mint: string, fromPayload?: number) => TokenInfo;
+  // Decimals of the sandwiched token, preferring what the payload itself carries
+  getSandwichDecimals: (sandwich: SandwichData) => number;
+  overrides: DecimalsMap;
+  setOverride: (mint: string, decimals: number | null) => void;
+}
+
+const TokenRegistryContext = createContext<TokenRegistryContextValue | null>(null);
+
+export const TokenRegistryProvider = ({ children }: { children: React.ReactNode }) => {
+  const sandwiches = useAppSelector(selectSandwiches);
+  const { settings, updateSettings } = useSettings();
+  const [cache, setCache] = useState<DecimalsMap>(getInitialCache);
+  const overrides = settings.tokenDecimalOverrides;
+
+  // Remember decimals sent by the feed so older payloads without them still scale correctly
+  useEffect(() => {
+    const next = learnDecimals(cache, sandwiches);
+    if (next) setCache(next);
+  }, [sandwiches, cache]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      console.error('Error saving token decimals cache to localStorage:', error);
+    }
+  }, [cache]);
+
+  const getToken = useCallback(
+    (mint: string, fromPayload?: number) => resolveToken(mint, overrides, cache, fromPayload),
+    [overrides, cache]
+  );
+
+  const getSandwichDecimals = useCallback(
+    (sandwich: SandwichData) => getToken(sandwich.data.sandwich.mint, payloadDecimals(sandwich)).decimals,
+    [getToken]
+  );
+
+  const setOverride = (mint: string, decimals: number | null) => {
+    const next = { ...overrides };
+    if (decimals === null) {
+      delete next[mint];
+    } else {
+      next[mint] = decimals;
+    }
+    updateSettings({ tokenDecimalOverrides: next });
+  };
+
+  return (
+    <TokenRegistryContext.Provider value={{ getToken, getSandwichDecimals, overrides, setOverride }}>
+      {children}
+    </TokenRegistryContext.Provider>
+  );
+};
+
+export const useTokenRegistry = () => {
+  const context = useContext(TokenRegistryContext);
+  if (!context) {
+    throw new Error('useTokenRegistry must be used within a TokenRegistryProvider');
+  }
+  return context;
+};
@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react';
+import { BUILT_IN_PRESETS, DashboardLayout, defaultLayout, isBuiltInPreset, parseLayout } from '../services/dashboardLayout';
+
+interface StoredLayouts {
+  layout: DashboardLayout;
+  // Named presets saved by the user, next to the built-in ones
+  presets: Record<string, DashboardLayout>;
+}
+
+// One entry per user, so people sharing a browser keep their own dashboards
+const storageKey = (username: string) => `dashboardLayouts:${username}`;
+
+const getStoredLayouts = (username: string): StoredLayouts => {
+  try {
+    const storedData = localStorage.getItem(storageKey(username));
+    if (storedData) {
+      const parsedData = JSON.parse(storedData);
+      const presets: Record<string, DashboardLayout> = {};
+      Object.entries(parsedData?.presets ?? {}).forEach(([name, preset]) => {
+        const layout = parseLayout(preset);
+        if (layout) presets[name] = layout;
+      });
+      return { layout: parseLayout(parsedData?.layout) ?? defaultLayout, presets };
+    }
+  } catch (error) {
+    console.error('Error reading dashboard layouts from localStorage:', error);
+  }
+  return { layout: defaultLayout, presets: {} };
+};
+
+// The user's current dashboard layout and saved presets, persisted to localStorage
+export const useDashboardLayout = (username: string) => {
+  const [stored, setStored] = useState<StoredLayouts>(() => getStoredLayouts(username));
+
+  useEffect(() => {
+    try {
+      localStorage.setItem(storageKey(username), JSON.stringify(stored));
+    } catch (error) {
+      console.error('Error saving dashboard layouts to localStorage:', error);
+    }
+  }, [username, stored]);
+
+  const setLayout = useCallback((layout: DashboardLayout) => {
+    setStored(prev => ({ ...prev, layout }));
+  }, []);
+
+  const applyPreset = useCallback((name: string) => {
+    setStored(prev => {
+      const preset = prev.presets[name] ?? BUILT_IN_PRESETS[name];
+      return preset ? { ...prev, layout: preset } : prev;
+    });
+  }, []);
+
+  // Saves the given layout, the current one by default, under a name. Built-in names are refused.
+  const savePreset = useCallback((name: string, layout?: DashboardLayout) => {
+    if (isBuiltInPreset(name)) return false;
+    setStored(prev => ({ ...prev, presets: { ...prev.presets, [name]: layout ?? prev.layout } }));
+    return true;
+  }, []);
+
+  const deletePreset = useCallback((name: string) => {
+    setStored(prev => {
+      const { [name]: _removed, ...presets } = prev.presets;
+      return { ...prev, presets };
+    });
+  }, []);
+
+  return { layout: stored.layout, presets: stored.presets, setLayout, applyPreset, savePreset, deletePreset };
+};
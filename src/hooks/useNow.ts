@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// Current time, refreshed every intervalMs so relative ages re-render
+export const useNow = (intervalMs: number = 1000) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(interval);
+  }, [intervalMs]);
+
+  return now;
+};
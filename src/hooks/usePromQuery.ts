@@ -0,0 +1,48 @@
+import { useEffect, useReducer, useRef } from 'react';
+import { usePromQueryClient } from '../context/EnvironmentContext';
+import { PromQuerySpec, PromQueryState, specKey } from '../services/promQueryClient';
+
+export interface PromQueryOptions {
+  // Shared polling interval, 0 fetches once
+  refreshMs?: number;
+  // Cached data younger than this is shown without refetching
+  staleMs?: number;
+  enabled?: boolean;
+}
+
+// Subscribes to a batch of queries, fetched in parallel and shared with every other subscriber
+export const usePromQueries = (specs: PromQuerySpec[], options: PromQueryOptions = {}): PromQueryState[] => {
+  const { refreshMs = 0, staleMs, enabled = true } = options;
+  const client = usePromQueryClient();
+  const [, forceUpdate] = useReducer((n: number) => n + 1, 0);
+
+  // Callers build new spec objects every render, the keys say whether anything changed
+  const keys = specs.map(specKey).join('\n');
+  const latestSpecs = useRef(specs);
+  useEffect(() => {
+    latestSpecs.current = specs;
+  });
+
+  useEffect(() => {
+    if (!enabled) return;
+    const unsubscribes = latestSpecs.current.map(spec => client.subscribe(spec, forceUpdate, { refreshMs, staleMs }));
+    // Cached data may already differ from what was rendered
+    forceUpdate();
+
+    return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+  }, [client, keys, refreshMs, staleMs, enabled]);
+
+  return specs.map(spec => client.getState(spec));
+};
+
+export const usePromQuery = (query: string, options?: PromQueryOptions): PromQueryState =>
+  usePromQueries([{ kind: 'instant', query }], options)[0];
+
+// Without `end` the range is the last durationMs before each fetch
+export const usePromRange = (
+  query: string,
+  range: { durationMs: number; end?: number },
+  step: string | number,
+  options?: PromQueryOptions
+): PromQueryState =>
+  usePromQueries([{ kind: 'range', query, durationMs: range.durationMs, end: range.end, step }], options)[0];
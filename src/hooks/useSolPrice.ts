@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { usePriceSource } from '../context/PriceContext';
+import { SOL_MINT } from '../services/priceSource';
+
+const REFRESH_INTERVAL = 60 * 1000;
+
+// Current SOL/USD price, refreshed every minute while enabled
+export const useSolPrice = (enabled: boolean = true): number | null => {
+  const source = usePriceSource();
+  const [price, setPrice] = useState<number | null>(null);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    const fetchPrice = async () => {
+      try {
+        const [latest] = await source.getPrices(SOL_MINT, [Date.now()]);
+        if (!cancelled) setPrice(latest);
+      } catch (error) {
+        console.error('Error fetching SOL price:', error);
+      }
+    };
+
+    fetchPrice();
+    const interval = setInterval(fetchPrice, REFRESH_INTERVAL);
+
+    return () => {
+      cancelled = true;
+      clearInterval(interval);
+    };
+  }, [enabled, source]);
+
+  return price;
+};
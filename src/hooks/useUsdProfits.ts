@@ -0,0 +1,62 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePriceSource } from '../context/PriceContext';
+import { useTokenRegistry } from '../context/TokenRegistryContext';
+import { sandwichUsdProfit, SOL_MINT } from '../services/priceSource';
+import { SandwichData } from '../types/sandwich';
+
+// Combined USD profit by slot, priced at each sandwich's timestamp. Missing slots are still loading.
+export const useUsdProfits = (sandwiches: SandwichData[]): Record<number, number | null> => {
+  const source = usePriceSource();
+  const { getSandwichDecimals } = useTokenRegistry();
+  const [profits, setProfits] = useState<Record<number, number | null>>({});
+  // New arrays holding the same sandwiches shouldn't refetch, the effect reads the latest one through a ref
+  const slotsKey = sandwiches.map(s => s.data.sandwich.slot).join(',');
+  const sandwichesRef = useRef(sandwiches);
+  sandwichesRef.current = sandwiches;
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadProfits = async () => {
+      const sandwiches = sandwichesRef.current;
+      const timestamps = sandwiches.map(s => s.data.sandwich.timestamp * 1000);
+      let solPrices: (number | null)[] = timestamps.map(() => null);
+      try {
+        solPrices = await source.getPrices(SOL_MINT, timestamps);
+      } catch (error) {
+        console.error('Error fetching SOL prices:', error);
+      }
+
+      // Token prices are only needed where the token leg moved
+      const indexesByMint: Record<string, number[]> = {};
+      sandwiches.forEach((s, i) => {
+        if (s.data.sandwich.tokenChange) {
+          (indexesByMint[s.data.sandwich.mint] = indexesByMint[s.data.sandwich.mint] || []).push(i);
+        }
+      });
+      const tokenPrices: (number | null)[] = timestamps.map(() => null);
+      await Promise.all(Object.entries(indexesByMint).map(async ([mint, indexes]) => {
+        try {
+          const prices = await source.getPrices(mint, indexes.map(i => timestamps[i]));
+          indexes.forEach((sandwichIndex, k) => { tokenPrices[sandwichIndex] = prices[k]; });
+        } catch (error) {
+          console.error(`Error fetching prices for ${mint}:`, error);
+        }
+      }));
+
+      if (cancelled) return;
+      setProfits(Object.fromEntries(sandwiches.map((s, i) => [
+        s.data.sandwich.slot,
+        sandwichUsdProfit(s, getSandwichDecimals(s), solPrices[i], tokenPrices[i]),
+      ])));
+    };
+
+    loadProfits();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [slotsKey, source, getSandwichDecimals]);
+
+  return profits;
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { usePriceSource } from '../context/PriceContext';
+import { SOL_MINT } from '../services/priceSource';
+
+// Converts every column of SOL-valued chart rows to USD at each row's time, dropping rows without a price.
+// Returns the rows untouched while disabled.
+export const useUsdSeries = <T extends { time: number }>(points: T[], enabled: boolean): T[] => {
+  const source = usePriceSource();
+  const [converted, setConverted] = useState<T[]>([]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    source.getPrices(SOL_MINT, points.map(p => p.time))
+      .then(prices => {
+        if (cancelled) return;
+        setConverted(points.flatMap((point, i) => {
+          const price = prices[i];
+          if (price === null) return [];
+          const converted = Object.entries(point).map(([key, value]) => [key, key === 'time' ? value : value * price]);
+          return [Object.fromEntries(converted) as T];
+        }));
+      })
+      .catch(error => {
+        console.error('Error fetching SOL prices for chart:', error);
+        if (!cancelled) setConverted([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [points, enabled, source]);
+
+  return enabled ? converted : points;
+};
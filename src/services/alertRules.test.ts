@@ -0,0 +1,108 @@
+import { AlertRule, AlertSnapshot, checkRules, evaluateRule } from './alertRules';
+
+const MINUTE = 60 * 1000;
+const NOW = 1700000000000;
+
+const snapshot = (changes: Partial<AlertSnapshot> = {}): AlertSnapshot => ({
+  now: NOW,
+  balanceHistory: [],
+  lastSandwichAt: NOW,
+  feedState: 'open',
+  fallbackSince: null,
+  profit1h: 1,
+  ...changes,
+});
+
+const rule = (type: AlertRule['type'], threshold: number, windowMinutes: number): AlertRule => ({
+  id: type,
+  type,
+  enabled: true,
+  threshold,
+  windowMinutes,
+});
+
+describe('evaluateRule', () => {
+  const balanceDrop = rule('balanceDrop', 10, 30);
+  const balance = (...values: number[]) =>
+    values.map((value, i) => ({ time: NOW - (values.length - 1 - i) * MINUTE, value }));
+
+  it('fires on a balance drop past the threshold', () => {
+    expect(evaluateRule(balanceDrop, snapshot({ balanceHistory: balance(100, 120, 107) })))
+      .toBe('Balance dropped 10.8% in the last 30 min (120.00 → 107.00)');
+  });
+
+  it('stays quiet on a drop of exactly the threshold', () => {
+    expect(evaluateRule(balanceDrop, snapshot({ balanceHistory: balance(100, 90) }))).toBeNull();
+  });
+
+  it('only looks at the balance within the window', () => {
+    const balanceHistory = [{ time: NOW - 31 * MINUTE, value: 200 }, ...balance(100, 95)];
+    expect(evaluateRule(balanceDrop, snapshot({ balanceHistory }))).toBeNull();
+  });
+
+  it('needs two balance points to tell a drop', () => {
+    expect(evaluateRule(balanceDrop, snapshot({ balanceHistory: balance(100) }))).toBeNull();
+  });
+
+  it('fires once the feed has been silent longer than the window', () => {
+    const feedSilence = rule('feedSilence', 0, 30);
+    expect(evaluateRule(feedSilence, snapshot({ lastSandwichAt: NOW - 30 * MINUTE }))).toBeNull();
+    expect(evaluateRule(feedSilence, snapshot({ lastSandwichAt: NOW - 30 * MINUTE - 1 })))
+      .toBe('No sandwich on the livefeed for 30 min');
+  });
+
+  it('fires once the feed has been in fallback longer than the window', () => {
+    const fallbackMode = rule('fallbackMode', 0, 5);
+    const fallback = { feedState: 'polling-fallback' as const };
+    expect(evaluateRule(fallbackMode, snapshot({ ...fallback, fallbackSince: NOW - 5 * MINUTE }))).toBeNull();
+    expect(evaluateRule(fallbackMode, snapshot({ ...fallback, fallbackSince: NOW - 6 * MINUTE })))
+      .toBe('WebSocket has been in fallback polling for 6 min');
+    expect(evaluateRule(fallbackMode, snapshot({ fallbackSince: NOW - 6 * MINUTE }))).toBeNull();
+  });
+
+  it('fires on a 1h profit below the threshold', () => {
+    const lowProfit = rule('lowProfit', 0.1, 60);
+    expect(evaluateRule(lowProfit, snapshot({ profit1h: 0.1 }))).toBeNull();
+    expect(evaluateRule(lowProfit, snapshot({ profit1h: 0.05 }))).toBe('1h profit is 0.050, below 0.1');
+  });
+
+  it('stays quiet while the 1h profit is missing', () => {
+    expect(evaluateRule(rule('lowProfit', 0.1, 60), snapshot({ profit1h: null }))).toBeNull();
+  });
+});
+
+describe('checkRules', () => {
+  const lowProfit = rule('lowProfit', 0.1, 60);
+  const low = (now: number) => snapshot({ now, profit1h: 0.05 });
+
+  it('fires an alert once while its condition holds', () => {
+    const first = checkRules([], [lowProfit], low(NOW), 'devnet');
+    expect(first.fired).toEqual([expect.objectContaining({ ruleId: 'lowProfit', firedAt: NOW, resolvedAt: null })]);
+
+    const second = checkRules(first.history, [lowProfit], low(NOW + MINUTE), 'devnet');
+    expect(second.fired).toEqual([]);
+    expect(second.history).toBe(first.history);
+  });
+
+  it('fires again after the alert resolved', () => {
+    const { history } = checkRules([], [lowProfit], low(NOW), 'devnet');
+    const cleared = checkRules(history, [lowProfit], snapshot({ now: NOW + MINUTE }), 'devnet');
+    expect(cleared.resolved).toEqual([expect.objectContaining({ ruleId: 'lowProfit', resolvedAt: NOW + MINUTE })]);
+
+    const again = checkRules(cleared.history, [lowProfit], low(NOW + 2 * MINUTE), 'devnet');
+    expect(again.fired).toEqual([expect.objectContaining({ firedAt: NOW + 2 * MINUTE })]);
+    expect(again.history.map(e => e.resolvedAt)).toEqual([null, NOW + MINUTE]);
+  });
+
+  it('keeps alerts of other environments apart', () => {
+    const { history } = checkRules([], [lowProfit], low(NOW), 'devnet');
+    expect(checkRules(history, [lowProfit], low(NOW + MINUTE), 'mainnet').fired).toHaveLength(1);
+  });
+
+  it('resolves the alerts of disabled rules', () => {
+    const { history } = checkRules([], [lowProfit], low(NOW), 'devnet');
+    const result = checkRules(history, [], snapshot({ now: NOW + MINUTE }), 'devnet');
+    expect(result.resolved).toEqual([expect.objectContaining({ ruleId: 'lowProfit', resolvedAt: NOW + MINUTE })]);
+    expect(result.history[0].resolvedAt).toBe(NOW + MINUTE);
+  });
+});
@@ -0,0 +1,157 @@
+import { FeedState } from './sandwichFeed';
+
+export type AlertRuleType = 'balanceDrop' | 'feedSilence' | 'fallbackMode' | 'lowProfit';
+
+export interface AlertRule {
+  id: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  // Percent for balanceDrop, SOL for lowProfit, unused otherwise
+  threshold: number;
+  // Lookback for balanceDrop, allowed duration for feedSilence and fallbackMode
+  windowMinutes: number;
+}
+
+export interface AlertEntry {
+  id: string;
+  ruleId: string;
+  type: AlertRuleType;
+  environment: string;
+  message: string;
+  firedAt: number;
+  // Null while the condition still holds
+  resolvedAt: number | null;
+}
+
+export interface AlertSettings {
+  rules: AlertRule[];
+  sound: boolean;
+  browserNotifications: boolean;
+}
+
+export interface AlertRuleDefinition {
+  label: string;
+  thresholdLabel?: string;
+  windowLabel?: string;
+}
+
+export const ALERT_RULE_DEFINITIONS: Record<AlertRuleType, AlertRuleDefinition> = {
+  balanceDrop: { label: 'Balance drop', thresholdLabel: 'Drop (%)', windowLabel: 'Within (min)' },
+  feedSilence: { label: 'No sandwich on the livefeed', windowLabel: 'For (min)' },
+  fallbackMode: { label: 'WebSocket stuck in fallback mode', windowLabel: 'For (min)' },
+  lowProfit: { label: '1h profit below threshold', thresholdLabel: 'Min profit (SOL)' },
+};
+
+export const defaultAlertSettings: AlertSettings = {
+  rules: [
+    { id: 'balanceDrop', type: 'balanceDrop', enabled: true, threshold: 10, windowMinutes: 30 },
+    { id: 'feedSilence', type: 'feedSilence', enabled: true, threshold: 0, windowMinutes: 30 },
+    { id: 'fallbackMode', type: 'fallbackMode', enabled: true, threshold: 0, windowMinutes: 5 },
+    { id: 'lowProfit', type: 'lowProfit', enabled: false, threshold: 0.1, windowMinutes: 60 },
+  ],
+  sound: false,
+  browserNotifications: false,
+};
+
+// Everything the rules look at, gathered by the alerts provider on each check
+export interface AlertSnapshot {
+  now: number;
+  // sandwich_bank_balance_amount over the longest balanceDrop window, oldest first
+  balanceHistory: { time: number; value: number }[];
+  lastSandwichAt: number;
+  feedState: FeedState;
+  // When the feed entered polling-fallback, null while it isn't there
+  fallbackSince: number | null;
+  // increase(sandwich_possible_profit_total[1h]) from the store, null before its first fetch
+  profit1h: number | null;
+}
+
+const MINUTE = 60 * 1000;
+
+// Returns the alert message when the rule fires, null otherwise
+export const evaluateRule = (rule: AlertRule, snapshot: AlertSnapshot): string | null => {
+  switch (rule.type) {
+    case 'balanceDrop': {
+      const since = snapshot.now - rule.windowMinutes * MINUTE;
+      const points = snapshot.balanceHistory.filter(p => p.time >= since);
+      if (points.length < 2) return null;
+      const peak = Math.max(...points.map(p => p.value));
+      const latest = points[points.length - 1].value;
+      if (peak <= 0) return null;
+      const drop = ((peak - latest) / peak) * 100;
+      return drop > rule.threshold
+        ? `Balance dropped ${drop.toFixed(1)}% in the last ${rule.windowMinutes} min (${peak.toFixed(2)} → ${latest.toFixed(2)})`
+        : null;
+    }
+    case 'feedSilence': {
+      const silentFor = snapshot.now - snapshot.lastSandwichAt;
+      return silentFor > rule.windowMinutes * MINUTE
+        ? `No sandwich on the livefeed for ${Math.floor(silentFor / MINUTE)} min`
+        : null;
+    }
+    case 'fallbackMode': {
+      if (snapshot.feedState !== 'polling-fallback' || snapshot.fallbackSince === null) return null;
+      const stuckFor = snapshot.now - snapshot.fallbackSince;
+      return stuckFor > rule.windowMinutes * MINUTE
+        ? `WebSocket has been in fallback polling for ${Math.floor(stuckFor / MINUTE)} min`
+        : null;
+    }
+    case 'lowProfit':
+      if (snapshot.profit1h === null) return null;
+      return snapshot.profit1h < rule.threshold
+        ? `1h profit is ${snapshot.profit1h.toFixed(3)}, below ${rule.threshold}`
+        : null;
+  }
+};
+
+export interface AlertCheck {
+  // The same array when nothing changed
+  history: AlertEntry[];
+  fired: AlertEntry[];
+  resolved: AlertEntry[];
+}
+
+// Applies one evaluation of the enabled rules to the alert history of an environment. A rule whose alert is still
+// open doesn't fire again, so a lasting condition notifies once until it resolves.
+export const checkRules = (
+  history: AlertEntry[],
+  enabledRules: AlertRule[],
+  snapshot: AlertSnapshot,
+  environment: string
+): AlertCheck => {
+  const { now } = snapshot;
+  const fired: AlertEntry[] = [];
+  const resolved: AlertEntry[] = [];
+  const resolve = (entry: AlertEntry) => {
+    const done = { ...entry, resolvedAt: now };
+    resolved.push(done);
+    return done;
+  };
+
+  // Alerts of rules that were disabled or removed can't resolve on their own
+  const orphaned = (e: AlertEntry) =>
+    e.environment === environment && e.resolvedAt === null && !enabledRules.some(r => r.id === e.ruleId);
+  let next = history.some(orphaned) ? history.map(e => (orphaned(e) ? resolve(e) : e)) : history;
+
+  enabledRules.forEach(rule => {
+    const message = evaluateRule(rule, snapshot);
+    const open = next.find(e => e.ruleId === rule.id && e.environment === environment && e.resolvedAt === null);
+    if (message && !open) {
+      const entry: AlertEntry = {
+        id: `${rule.id}-${now}`,
+        ruleId: rule.id,
+        type: rule.type,
+        environment,
+        message,
+        firedAt: now,
+        resolvedAt: null,
+      };
+      fired.push(entry);
+      next = [entry, ...next];
+    } else if (!message && open) {
+      next = next.map(e => (e === open ? resolve(e) : e));
+    }
+  });
+
+  return { history: next, fired, resolved };
+};
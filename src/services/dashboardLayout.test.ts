@@ -0,0 +1,24 @@
+import { parseLayout } from './dashboardLayout';
+
+describe('parseLayout', () => {
+  it('drops unknown and repeated widgets and clamps spans', () => {
+    expect(parseLayout({
+      widgets: [
+        { id: 'balance', span: 1 },
+        { id: 'removed', span: 2 },
+        { id: 'liveFeed', span: 7 },
+        { id: 'balance', span: 3 },
+      ],
+    })).toEqual({ widgets: [{ id: 'balance', span: 2 }, { id: 'liveFeed', span: 3 }] });
+  });
+
+  it('keeps a cleared dashboard empty', () => {
+    expect(parseLayout({ widgets: [] })).toEqual({ widgets: [] });
+  });
+
+  it('refuses values without a widget list', () => {
+    expect(parseLayout(null)).toBeNull();
+    expect(parseLayout({ widgets: 'balance' })).toBeNull();
+    expect(parseLayout([{ id: 'balance', span: 2 }])).toBeNull();
+  });
+});
@@ -0,0 +1,108 @@
+export type WidgetId = 'balance' | 'liveFeed' | 'bundles' | 'tipEfficiency';
+
+// Columns taken on medium screens and up, small screens always stack widgets
+export type WidgetSpan = 1 | 2 | 3;
+
+export interface WidgetPlacement {
+  id: WidgetId;
+  span: WidgetSpan;
+}
+
+// Widgets in display order, each at most once
+export interface DashboardLayout {
+  widgets: WidgetPlacement[];
+}
+
+export interface WidgetDefinition {
+  label: string;
+  // Narrower than this the widget's own columns no longer fit
+  minSpan: WidgetSpan;
+}
+
+export const WIDGET_DEFINITIONS: Record<WidgetId, WidgetDefinition> = {
+  balance: { label: 'Balance and profit', minSpan: 2 },
+  liveFeed: { label: 'Live Feed', minSpan: 1 },
+  bundles: { label: 'Bundles per Hour', minSpan: 1 },
+  tipEfficiency: { label: 'Tip Efficiency', minSpan: 2 },
+};
+
+export const WIDGET_IDS = Object.keys(WIDGET_DEFINITIONS) as WidgetId[];
+
+export const SPANS: WidgetSpan[] = [1, 2, 3];
+
+// The fixed layout the dashboard had before widgets
+export const defaultLayout: DashboardLayout = {
+  widgets: [
+    { id: 'balance', span: 2 },
+    { id: 'liveFeed', span: 1 },
+    { id: 'bundles', span: 3 },
+    { id: 'tipEfficiency', span: 3 },
+  ],
+};
+
+// Shipped presets, they can be applied but not overwritten or deleted
+export const BUILT_IN_PRESETS: Record<string, DashboardLayout> = {
+  default: defaultLayout,
+  ops: {
+    widgets: [
+      { id: 'liveFeed', span: 1 },
+      { id: 'balance', span: 2 },
+      { id: 'bundles', span: 3 },
+    ],
+  },
+  research: {
+    widgets: [
+      { id: 'tipEfficiency', span: 3 },
+      { id: 'bundles', span: 2 },
+      { id: 'liveFeed', span: 1 },
+      { id: 'balance', span: 3 },
+    ],
+  },
+};
+
+export const isBuiltInPreset = (name: string) => Object.prototype.hasOwnProperty.call(BUILT_IN_PRESETS, name);
+
+const isWidgetId = (value: unknown): value is WidgetId =>
+  typeof value === 'string' && WIDGET_IDS.includes(value as WidgetId);
+
+const clampSpan = (id: WidgetId, span: unknown): WidgetSpan => {
+  const value = SPANS.includes(span as WidgetSpan) ? (span as WidgetSpan) : 3;
+  return Math.max(value, WIDGET_DEFINITIONS[id].minSpan) as WidgetSpan;
+};
+
+// Validates a stored or imported layout, dropping unknown and repeated widgets. Null when it has no widget list,
+// an empty list is a dashboard the user cleared.
+export const parseLayout = (value: unknown): DashboardLayout | null => {
+  const widgets = (value as DashboardLayout | null)?.widgets;
+  if (!Array.isArray(widgets)) return null;
+  const placements: WidgetPlacement[] = [];
+  widgets.forEach(widget => {
+    if (!isWidgetId(widget?.id) || placements.some(p => p.id === widget.id)) return;
+    placements.push({ id: widget.id, span: clampSpan(widget.id, widget.span) });
+  });
+  return { widgets: placements };
+};
+
+// Moves the widget at `index` by `offset` places, staying within the layout
+export const moveWidget = (layout: DashboardLayout, index: number, offset: number): DashboardLayout => {
+  const target = Math.min(layout.widgets.length - 1, Math.max(0, index + offset));
+  const widgets = [...layout.widgets];
+  const [widget] = widgets.splice(index, 1);
+  widgets.splice(target, 0, widget);
+  return { widgets };
+};
+
+export const resizeWidget = (layout: DashboardLayout, id: WidgetId, span: WidgetSpan): DashboardLayout => ({
+  widgets: layout.widgets.map(w => (w.id === id ? { ...w, span: clampSpan(id, span) } : w)),
+});
+
+export const removeWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout => ({
+  widgets: layout.widgets.filter(w => w.id !== id),
+});
+
+// Added at the end, at the span it has in the default layout
+export const addWidget = (layout: DashboardLayout, id: WidgetId): DashboardLayout => {
+  if (layout.widgets.some(w => w.id === id)) return layout;
+  const span = defaultLayout.widgets.find(w => w.id === id)?.span ?? 3;
+  return { widgets: [...layout.widgets, { id, span }] };
+};
@@ -0,0 +1,21 @@
+import { FeedEvent } from '../types/feed';
+
+export const eventSlot = (event: FeedEvent): number =>
+  event.kind === 'sandwich' ? event.payload.data.sandwich.slot : event.payload.data.slot;
+
+// Unix seconds
+export const eventTimestamp = (event: FeedEvent): number =>
+  event.kind === 'sandwich' ? event.payload.data.sandwich.timestamp : event.payload.data.timestamp;
+
+// Sandwiches stay keyed by slot, other events by bundle or signature when they have one
+export const eventKey = (event: FeedEvent): string => {
+  switch (event.kind) {
+    case 'sandwich':
+      return `sandwich:${event.payload.data.sandwich.slot}`;
+    case 'arbitrage':
+    case 'tip':
+      return `${event.kind}:${event.payload.data.bundleId ?? event.payload.data.signature ?? event.payload.data.slot}`;
+    case 'failedBundle':
+      return `${event.kind}:${event.payload.data.bundleId ?? event.payload.data.slot}`;
+  }
+};
@@ -0,0 +1,85 @@
+import { createFeedReplay, ReplayTarget } from './feedReplay';
+
+// Five messages a second apart
+const messages = [0, 1, 2, 3, 4].map(i => ({ receivedAt: 1700000000000 + i * 1000, data: `m${i}` }));
+
+const recordingTarget = () => {
+  const delivered: string[] = [];
+  const target: ReplayTarget = {
+    reset: () => delivered.splice(0),
+    ingest: data => delivered.push(data),
+  };
+  return { delivered, target };
+};
+
+describe('createFeedReplay', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('delivers the messages in order after seeking forward and back', () => {
+    const replay = createFeedReplay(messages);
+    const { delivered, target } = recordingTarget();
+    replay.attach(target);
+
+    replay.seek(3);
+    expect(delivered).toEqual(['m0', 'm1', 'm2']);
+    expect(replay.getStatus()).toMatchObject({ position: 3, currentTime: messages[2].receivedAt });
+
+    replay.seek(1);
+    expect(delivered).toEqual(['m0']);
+
+    replay.play();
+    jest.runAllTimers();
+    expect(delivered).toEqual(['m0', 'm1', 'm2', 'm3', 'm4']);
+    expect(replay.getStatus()).toMatchObject({ playing: false, position: 5 });
+  });
+
+  it('plays at twice the recorded pace at 2x', () => {
+    const replay = createFeedReplay(messages);
+    const { delivered, target } = recordingTarget();
+    replay.attach(target);
+    replay.setSpeed(2);
+    replay.play();
+
+    jest.advanceTimersByTime(0);
+    expect(delivered).toEqual(['m0']);
+    jest.advanceTimersByTime(499);
+    expect(delivered).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(delivered).toHaveLength(2);
+    jest.advanceTimersByTime(1500);
+    expect(delivered).toHaveLength(5);
+  });
+
+  it('plays at half the recorded pace at 0.5x', () => {
+    const replay = createFeedReplay(messages);
+    const { delivered, target } = recordingTarget();
+    replay.attach(target);
+    replay.setSpeed(0.5);
+    replay.play();
+
+    jest.advanceTimersByTime(0);
+    expect(delivered).toEqual(['m0']);
+    jest.advanceTimersByTime(1999);
+    expect(delivered).toHaveLength(1);
+    jest.advanceTimersByTime(1);
+    expect(delivered).toHaveLength(2);
+    jest.advanceTimersByTime(6000);
+    expect(delivered).toHaveLength(5);
+  });
+
+  it('keeps the pace after a seek', () => {
+    const replay = createFeedReplay(messages);
+    const { delivered, target } = recordingTarget();
+    replay.attach(target);
+    replay.setSpeed(2);
+    replay.play();
+    replay.seek(3);
+    expect(delivered).toEqual(['m0', 'm1', 'm2']);
+
+    jest.advanceTimersByTime(499);
+    expect(delivered).toHaveLength(3);
+    jest.advanceTimersByTime(1);
+    expect(delivered).toEqual(['m0', 'm1', 'm2', 'm3']);
+  });
+});
@@ -0,0 +1,201 @@
+import { FeedMessage } from './sandwichFeed';
+
+// Recordings are NDJSON, one {"receivedAt": <ms>, "data": "<raw message>"} object per line
+export const toNdjson = (messages: FeedMessage[]): string => messages.map(m => JSON.stringify(m)).join('\n') + '\n';
+
+export const parseNdjson = (text: string): { messages: FeedMessage[]; skipped: number } => {
+  const messages: FeedMessage[] = [];
+  let skipped = 0;
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    try {
+      const parsed = JSON.parse(line);
+      if (typeof parsed?.receivedAt === 'number' && typeof parsed?.data === 'string') {
+        messages.push({ receivedAt: parsed.receivedAt, data: parsed.data });
+      } else {
+        skipped++;
+      }
+    } catch {
+      skipped++;
+    }
+  });
+  // Hand-edited files may be out of order, the sort is stable for equal timestamps
+  messages.sort((a, b) => a.receivedAt - b.receivedAt);
+  return { messages, skipped };
+};
+
+export interface RecorderStatus {
+  recording: boolean;
+  count: number;
+  startedAt: number | null;
+}
+
+// A long recording at a busy feed stays well below this
+const MAX_RECORDED_MESSAGES = 100000;
+
+// Collects raw feed messages in memory between start and stop
+export const createFeedRecorder = () => {
+  let messages: FeedMessage[] = [];
+  let status: RecorderStatus = { recording: false, count: 0, startedAt: null };
+  const listeners = new Set<() => void>();
+
+  const setStatus = (changes: Partial<RecorderStatus>) => {
+    status = { ...status, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const record = (message: FeedMessage) => {
+    if (!status.recording) return;
+    messages.push(message);
+    setStatus({ count: messages.length });
+    if (messages.length >= MAX_RECORDED_MESSAGES) {
+      console.warn('Feed recording reached its size limit and was stopped');
+      setStatus({ recording: false });
+    }
+  };
+
+  const start = () => {
+    messages = [];
+    setStatus({ recording: true, count: 0, startedAt: Date.now() });
+  };
+
+  const stop = () => setStatus({ recording: false });
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { record, start, stop, getMessages: () => messages, getStatus: () => status, subscribe };
+};
+
+export type FeedRecorder = ReturnType<typeof createFeedRecorder>;
+
+// Divides the recorded gaps between messages, below 1 plays slower than recorded
+export type ReplaySpeed = number | 'max';
+
+export interface ReplayStatus {
+  playing: boolean;
+  // Number of messages delivered so far
+  position: number;
+  total: number;
+  speed: ReplaySpeed;
+  // Recorded time of the last delivered message
+  currentTime: number | null;
+}
+
+// Where replayed messages go, the feed's own ingest path
+export interface ReplayTarget {
+  // Clears everything delivered so far, replays restart from the first message after it
+  reset: () => void;
+  ingest: (data: string) => void;
+}
+
+// Messages delivered per tick at max speed, each tick yields so the UI keeps rendering
+const MAX_SPEED_BATCH = 50;
+
+// Plays a recording into a target at its recorded pace divided by the speed
+export const createFeedReplay = (messages: FeedMessage[]) => {
+  let target: ReplayTarget | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let status: ReplayStatus = { playing: false, position: 0, total: messages.length, speed: 1, currentTime: null };
+  const listeners = new Set<() => void>();
+
+  const setStatus = (changes: Partial<ReplayStatus>) => {
+    status = { ...status, ...changes };
+    listeners.forEach(listener => listener());
+  };
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+
+  const deliverUntil = (index: number) => {
+    if (!target) return;
+    for (let i = status.position; i < index; i++) target.ingest(messages[i].data);
+    setStatus({ position: index, currentTime: index > 0 ? messages[index - 1].receivedAt : null });
+  };
+
+  const schedule = () => {
+    clearTimer();
+    if (!status.playing || !target) return;
+    if (status.position >= messages.length) {
+      setStatus({ playing: false });
+      return;
+    }
+    if (status.speed === 'max') {
+      timer = setTimeout(() => {
+        deliverUntil(Math.min(messages.length, status.position + MAX_SPEED_BATCH));
+        schedule();
+      }, 0);
+      return;
+    }
+    const previous = messages[status.position - 1];
+    const delay = previous ? (messages[status.position].receivedAt - previous.receivedAt) / status.speed : 0;
+    timer = setTimeout(() => {
+      deliverUntil(status.position + 1);
+      schedule();
+    }, delay);
+  };
+
+  // Catches the target up to the current position at once, then continues playing
+  const attach = (next: ReplayTarget) => {
+    const position = status.position;
+    target = next;
+    target.reset();
+    status = { ...status, position: 0 };
+    deliverUntil(position);
+    schedule();
+
+    return () => {
+      clearTimer();
+      target = null;
+    };
+  };
+
+  const seek = (index: number) => {
+    const position = Math.max(0, Math.min(messages.length, Math.round(index)));
+    clearTimer();
+    if (!target) {
+      setStatus({ position, currentTime: position > 0 ? messages[position - 1].receivedAt : null });
+      return;
+    }
+    // Delivered events can't be taken back, so going backwards replays from the start
+    if (position < status.position) {
+      target.reset();
+      status = { ...status, position: 0 };
+    }
+    deliverUntil(position);
+    schedule();
+  };
+
+  const play = () => {
+    if (status.position >= messages.length) seek(0);
+    setStatus({ playing: true });
+    schedule();
+  };
+
+  const pause = () => {
+    clearTimer();
+    setStatus({ playing: false });
+  };
+
+  const setSpeed = (speed: ReplaySpeed) => {
+    setStatus({ speed });
+    schedule();
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { attach, play, pause, seek, setSpeed, getStatus: () => status, subscribe };
+};
+
+export type FeedReplay = ReturnType<typeof createFeedReplay>;
@@ -0,0 +1,46 @@
+import { makeSandwich } from '../testing/fixtures';
+import { validateFeedMessage } from './feedSchema';
+
+// A version 2 sandwich with solChange sent as an integer string
+const withSolChange = (solChange: string) => {
+  const sandwich = makeSandwich(1);
+  return { ...sandwich, schemaVersion: 2, data: { ...sandwich.data, sandwich: { ...sandwich.data.sandwich, solChange } } };
+};
+
+describe('validateFeedMessage', () => {
+  it('reads version 1 sandwiches by their shape', () => {
+    const { type: _type, ...untyped } = makeSandwich(1);
+    const result = validateFeedMessage(untyped);
+
+    expect(result).toMatchObject({ ok: true, schemaVersion: 1, event: { kind: 'sandwich' } });
+  });
+
+  it('reads integer string amounts in version 2', () => {
+    const result = validateFeedMessage(withSolChange('-2500000000'));
+
+    expect(result).toMatchObject({ ok: true, event: { payload: { data: { sandwich: { solChange: -2500000000 } } } } });
+  });
+
+  it('keeps amounts up to Number.MAX_SAFE_INTEGER exact', () => {
+    const result = validateFeedMessage(withSolChange(String(Number.MAX_SAFE_INTEGER)));
+
+    expect(result).toMatchObject({ ok: true, event: { payload: { data: { sandwich: { solChange: Number.MAX_SAFE_INTEGER } } } } });
+  });
+
+  it('rejects amounts that a number would round', () => {
+    const result = validateFeedMessage(withSolChange('18446744073709551615'));
+
+    expect(result).toEqual({
+      ok: false,
+      reason: 'data.sandwich.solChange: expected an integer within Number.MAX_SAFE_INTEGER, got string "18446744073709551615"',
+      schemaVersion: 2,
+    });
+  });
+
+  it('rejects integer strings in version 1', () => {
+    const sandwich = makeSandwich(1);
+    const result = validateFeedMessage({ ...sandwich, data: { ...sandwich.data, sandwich: { ...sandwich.data.sandwich, solChange: '10' } } });
+
+    expect(result).toMatchObject({ ok: false, schemaVersion: 1 });
+  });
+});
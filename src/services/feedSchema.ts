@@ -0,0 +1,141 @@
+import { ArbitrageEvent, FailedBundleEvent, FeedEvent, FeedEventType, TipEvent } from '../types/feed';
+import { SandwichData } from '../types/sandwich';
+import { arrayOf, boolean, invalid, isRecord, number, object, optional, string, valid, Validator, withDefault } from './schema';
+
+// Lamports and raw token amounts, also as integer strings since a u64 doesn't fit a JSON number. Amounts are
+// numbers from here on, so strings beyond Number.MAX_SAFE_INTEGER are rejected rather than silently rounded.
+const integerString: Validator<number> = (value, path) => {
+  if (typeof value !== 'string' || !/^-?\d+$/.test(value)) return number(value, path);
+  const parsed = Number(value);
+  return Number.isSafeInteger(parsed) ? valid(parsed) : invalid(path, 'an integer within Number.MAX_SAFE_INTEGER', value);
+};
+
+type PayloadSchemas = { [K in FeedEventType]: Validator<Extract<FeedEvent, { kind: K }>['payload']> };
+
+const payloadSchemas = (amount: Validator<number>, sandwichType: Validator<string>): PayloadSchemas => ({
+  sandwich: object<SandwichData>({
+    type: sandwichType,
+    data: object<SandwichData['data']>({
+      publicKey: string,
+      sandwich: object<SandwichData['data']['sandwich']>({
+        mint: string,
+        slot: number,
+        timestamp: number,
+        frontrunInAmount: amount,
+        frontrunOutAmount: amount,
+        backrunInAmount: amount,
+        backrunOutAmount: amount,
+        solChange: amount,
+        tokenChange: amount,
+        isSell: boolean,
+        frontrunSignature: optional(string),
+        victimSignature: optional(string),
+        backrunSignature: optional(string),
+        bundleId: optional(string),
+        tipAmount: optional(amount),
+      }),
+      permanentTokenData: object<SandwichData['data']['permanentTokenData']>({
+        rawTokenMetadata: object<SandwichData['data']['permanentTokenData']['rawTokenMetadata']>({
+          symbol: string,
+          decimals: optional(number),
+        }),
+      }),
+    }),
+  }),
+  arbitrage: object<ArbitrageEvent['payload']>({
+    type: string,
+    data: object<ArbitrageEvent['payload']['data']>({
+      slot: number,
+      timestamp: number,
+      mint: optional(string),
+      symbol: optional(string),
+      route: optional(arrayOf(string)),
+      solChange: amount,
+      signature: optional(string),
+      bundleId: optional(string),
+      tipAmount: optional(amount),
+    }),
+  }),
+  failedBundle: object<FailedBundleEvent['payload']>({
+    type: string,
+    data: object<FailedBundleEvent['payload']['data']>({
+      slot: number,
+      timestamp: number,
+      bundleId: optional(string),
+      strategy: optional(string),
+      reason: withDefault(string, 'unknown'),
+      tipAmount: optional(amount),
+    }),
+  }),
+  tip: object<TipEvent['payload']>({
+    type: string,
+    data: object<TipEvent['payload']['data']>({
+      slot: number,
+      timestamp: number,
+      tipAmount: amount,
+      bundleId: optional(string),
+      signature: optional(string),
+      strategy: optional(string),
+    }),
+  }),
+});
+
+// Messages without a schemaVersion field are version 1
+const SCHEMAS: Record<number, PayloadSchemas> = {
+  // Sandwiches are recognised by their shape and amounts are plain numbers
+  1: payloadSchemas(number, withDefault(string, 'sandwich')),
+  // Every message carries its type and amounts may be integer strings
+  2: payloadSchemas(integerString, string),
+};
+
+export const LATEST_SCHEMA_VERSION = 2;
+
+// Message `type` values the bot uses for each event kind
+const TYPE_ALIASES: Record<string, FeedEventType> = {
+  sandwich: 'sandwich',
+  arbitrage: 'arbitrage',
+  arb: 'arbitrage',
+  backrun: 'arbitrage',
+  failedbundle: 'failedBundle',
+  droppedbundle: 'failedBundle',
+  bundlefailed: 'failedBundle',
+  bundledropped: 'failedBundle',
+  tip: 'tip',
+  tiponly: 'tip',
+};
+
+const normalizeType = (type: string) => type.toLowerCase().replace(/[^a-z]/g, '');
+
+const messageKind = (message: Record<string, unknown>, version: number): FeedEventType | undefined => {
+  // Older bots send sandwiches without a meaningful type, so the shape wins
+  if (version === 1 && isRecord(message.data) && message.data.sandwich !== undefined) return 'sandwich';
+  return typeof message.type === 'string' ? TYPE_ALIASES[normalizeType(message.type)] : undefined;
+};
+
+export type FeedValidation =
+  | { ok: true; event: FeedEvent; schemaVersion: number }
+  | { ok: false; reason: string; schemaVersion: number | null };
+
+// Checks a parsed feed message against the schema of its version and turns it into a typed event
+export const validateFeedMessage = (message: unknown): FeedValidation => {
+  if (!isRecord(message)) return { ...invalid('', 'an object', message), schemaVersion: null };
+
+  const version = message.schemaVersion ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return { ...invalid('schemaVersion', 'a positive integer', version), schemaVersion: null };
+  }
+
+  const kind = messageKind(message, version);
+  if (!kind) {
+    const reason = typeof message.type === 'string'
+      ? `type: unknown message type "${message.type}"`
+      : 'type: missing and the message is not a sandwich';
+    return { ok: false, reason, schemaVersion: version };
+  }
+
+  // Versions newer than this dashboard are read with the latest schema it knows, extra fields pass through
+  const schemas = SCHEMAS[Math.min(version, LATEST_SCHEMA_VERSION)];
+  const result = schemas[kind](message, '');
+  if (!result.ok) return { ok: false, reason: result.reason, schemaVersion: version };
+  return { ok: true, event: { kind, payload: result.value } as FeedEvent, schemaVersion: version };
+};
@@ -0,0 +1,42 @@
+import { PrometheusDriver } from 'prometheus-query';
+import { createPrometheusPriceSource, MAX_CACHED_PRICES, SOL_MINT } from './priceSource';
+
+const MINUTE = 60 * 1000;
+const START = 28333333 * MINUTE;
+
+// Answers every range query with a sample per step, priced at the minutes since START
+const fakeProm = () => {
+  const rangeQuery = jest.fn(async (query: string, start: Date, end: Date, step: number) => {
+    const values = [];
+    for (let time = start.getTime(); time <= end.getTime(); time += step * 1000) {
+      values.push({ time: new Date(time), value: (time - START) / MINUTE });
+    }
+    return { resultType: 'matrix', result: [{ metric: { labels: { mint: SOL_MINT } }, values }] };
+  });
+  return { prom: { rangeQuery } as unknown as PrometheusDriver, rangeQuery };
+};
+
+describe('createPrometheusPriceSource', () => {
+  it('answers repeated lookups from its cache', async () => {
+    const { prom, rangeQuery } = fakeProm();
+    const source = createPrometheusPriceSource(prom, 'token_price_usd');
+
+    expect(await source.getPrices(SOL_MINT, [START, START + 2 * MINUTE])).toEqual([0, 2]);
+    expect(await source.getPrices(SOL_MINT, [START + 2 * MINUTE + 1000])).toEqual([2]);
+    expect(rangeQuery).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops the oldest prices beyond its size cap', async () => {
+    const { prom, rangeQuery } = fakeProm();
+    const source = createPrometheusPriceSource(prom, 'token_price_usd');
+    const minutes = Array.from({ length: MAX_CACHED_PRICES + 1 }, (_, i) => START + i * MINUTE);
+
+    // Prices past the cap are still returned for the call that fetched them
+    expect((await source.getPrices(SOL_MINT, minutes)).every(price => price !== null)).toBe(true);
+
+    await source.getPrices(SOL_MINT, [minutes[MAX_CACHED_PRICES]]);
+    expect(rangeQuery).toHaveBeenCalledTimes(1);
+    await source.getPrices(SOL_MINT, [minutes[0]]);
+    expect(rangeQuery).toHaveBeenCalledTimes(2);
+  });
+});
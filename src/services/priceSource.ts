@@ -0,0 +1,111 @@
+import { PrometheusDriver, QueryResult, RangeVector } from 'prometheus-query';
+import { SandwichData } from '../types/sandwich';
+
+export const SOL_MINT = 'So11111111111111111111111111111111111111112';
+
+export type PriceSourceId = 'prometheus' | 'static';
+
+export interface PricingSettings {
+  source: PriceSourceId;
+  // Gauge with a `mint` label holding the USD price of that mint
+  prometheusMetric: string;
+  // Manual USD prices by mint, used by the static source
+  staticPrices: Record<string, number>;
+}
+
+export const defaultPricingSettings: PricingSettings = {
+  source: 'prometheus',
+  prometheusMetric: 'token_price_usd',
+  staticPrices: {},
+};
+
+export interface PriceSource {
+  // USD price of the mint at each timestamp (ms), null where it is unknown
+  getPrices: (mint: string, timestamps: number[]) => Promise<(number | null)[]>;
+}
+
+// Ignores the timestamps, the same manual price applies at any time
+export const createStaticPriceSource = (prices: Record<string, number>): PriceSource => ({
+  getPrices: async (mint, timestamps) => timestamps.map(() => prices[mint] ?? null),
+});
+
+// Prometheus accepts at most 11000 points per range query
+const MAX_POINTS = 1000;
+const MIN_STEP_SECONDS = 60;
+
+// Prices cached per Prometheus price source, the oldest are dropped beyond this
+export const MAX_CACHED_PRICES = 10000;
+
+// Solana addresses are 32 to 44 base58 characters, so a valid mint can go into a label matcher as is
+const MINT_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+// One range query per call covering all timestamps, each timestamp takes the nearest sample
+export const createPrometheusPriceSource = (prom: PrometheusDriver, metric: string): PriceSource => {
+  // mint:minute -> price, so repeated lookups for the same sandwiches don't hit Prometheus
+  const cache = new Map<string, number | null>();
+  const cacheKey = (mint: string, timestamp: number) => `${mint}:${Math.floor(timestamp / 60000)}`;
+
+  const remember = (key: string, price: number | null) => {
+    cache.set(key, price);
+    if (cache.size > MAX_CACHED_PRICES) cache.delete(cache.keys().next().value as string);
+  };
+
+  const getPrices = async (mint: string, timestamps: number[]): Promise<(number | null)[]> => {
+    if (!MINT_PATTERN.test(mint)) throw new Error(`Invalid mint address: ${mint}`);
+    // Read from here rather than the cache, which may already have dropped part of a long call
+    const prices = new Map<string, number | null>();
+    timestamps.forEach(t => {
+      const key = cacheKey(mint, t);
+      if (cache.has(key)) prices.set(key, cache.get(key) as number | null);
+    });
+    const missing = timestamps.filter(t => !prices.has(cacheKey(mint, t)));
+    if (missing.length > 0) {
+      const start = Math.min(...missing);
+      const end = Math.max(...missing);
+      const stepSeconds = Math.max(MIN_STEP_SECONDS, Math.ceil((end - start) / 1000 / MAX_POINTS));
+      // Pad by one step so single timestamps still get a sample on both sides
+      const padding = stepSeconds * 1000;
+      const result: QueryResult = await prom.rangeQuery(
+        `${metric}{mint="${mint}"}`,
+        new Date(start - padding),
+        new Date(end + padding),
+        stepSeconds
+      );
+      const samples = result.resultType === 'matrix' && result.result.length > 0
+        ? (result.result[0] as RangeVector).values.map(val => ({ time: val.time.getTime(), value: val.value }))
+        : [];
+      missing.forEach(t => {
+        const nearest = samples.reduce<{ time: number; value: number } | null>(
+          (best, sample) => (!best || Math.abs(sample.time - t) < Math.abs(best.time - t) ? sample : best),
+          null
+        );
+        const price = nearest && Math.abs(nearest.time - t) <= 2 * padding ? nearest.value : null;
+        prices.set(cacheKey(mint, t), price);
+        remember(cacheKey(mint, t), price);
+      });
+    }
+    return timestamps.map(t => prices.get(cacheKey(mint, t)) ?? null);
+  };
+
+  return { getPrices };
+};
+
+export const createPriceSource = (settings: PricingSettings, prom: PrometheusDriver): PriceSource =>
+  settings.source === 'static'
+    ? createStaticPriceSource(settings.staticPrices)
+    : createPrometheusPriceSource(prom, settings.prometheusMetric);
+
+// SOL and token legs valued at the sandwich time, null when a leg that moved has no price
+export const sandwichUsdProfit = (
+  sandwich: SandwichData,
+  tokenDecimals: number,
+  solPrice: number | null,
+  tokenPrice: number | null
+): number | null => {
+  const { solChange, tokenChange } = sandwich.data.sandwich;
+  if (solPrice === null && solChange) return null;
+  if (tokenPrice === null && tokenChange) return null;
+  const solUsd = solChange ? (solChange / 1e9) * (solPrice as number) : 0;
+  const tokenUsd = tokenChange ? (tokenChange / Math.pow(10, tokenDecimals)) * (tokenPrice as number) : 0;
+  return solUsd + tokenUsd;
+};
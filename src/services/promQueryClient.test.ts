@@ -0,0 +1,56 @@
+import { PrometheusDriver, QueryResult, ResponseType } from 'prometheus-query';
+import { createPromQueryClient } from './promQueryClient';
+
+const emptyVector: QueryResult = { resultType: ResponseType.VECTOR, result: [] };
+
+describe('createPromQueryClient', () => {
+  // Signal handed to each request, by query, and the requests still waiting for a response
+  let signals: Record<string, AbortSignal>;
+  let respond: Array<() => void>;
+
+  const connect = (signal: AbortSignal) => {
+    const prom = new PrometheusDriver({ endpoint: 'http://prometheus.test' });
+    prom.instantQuery = (query) => {
+      signals[query] = signal;
+      return new Promise(resolve => respond.push(() => resolve(emptyVector)));
+    };
+    return prom;
+  };
+
+  beforeEach(() => {
+    signals = {};
+    respond = [];
+  });
+
+  it('hands every request its own abort signal', () => {
+    const client = createPromQueryClient(connect);
+    client.subscribe({ kind: 'instant', query: 'sandwich_tips_total' }, () => {});
+    client.subscribe({ kind: 'instant', query: 'sandwich_possible_profit_total' }, () => {});
+
+    expect(signals.sandwich_tips_total).not.toBe(signals.sandwich_possible_profit_total);
+  });
+
+  it('aborts only the request nobody is subscribed to anymore', () => {
+    const client = createPromQueryClient(connect);
+    const unsubscribe = client.subscribe({ kind: 'instant', query: 'sandwich_tips_total' }, () => {});
+    client.subscribe({ kind: 'instant', query: 'sandwich_possible_profit_total' }, () => {});
+
+    unsubscribe();
+
+    expect(signals.sandwich_tips_total.aborted).toBe(true);
+    expect(signals.sandwich_possible_profit_total.aborted).toBe(false);
+  });
+
+  it('keeps a request shared by a one-off fetch alive', async () => {
+    const client = createPromQueryClient(connect);
+    const spec = { kind: 'instant', query: 'sandwich_tips_total' } as const;
+    const unsubscribe = client.subscribe(spec, () => {});
+    const fetched = client.fetchQuery(spec);
+
+    unsubscribe();
+    respond.forEach(resolve => resolve());
+
+    await expect(fetched).resolves.toEqual(emptyVector);
+    expect(signals.sandwich_tips_total.aborted).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import { PrometheusDriver, QueryResult } from 'prometheus-query';
+
+export type PromQuerySpec =
+  | { kind: 'instant'; query: string }
+  // Without `end` the range ends at the time of each fetch, so polling slides the window
+  | { kind: 'range'; query: string; durationMs: number; step: string | number; end?: number };
+
+export interface PromQueryState {
+  data: QueryResult | null;
+  error: unknown;
+  // Time of the last successful fetch
+  updatedAt: number | null;
+  isFetching: boolean;
+}
+
+// Nothing fetched yet, neither data nor an error
+export const isInitialLoad = (state: PromQueryState) => state.updatedAt === null && state.error === null;
+
+export interface SubscribeOptions {
+  // Polling interval, the shortest one among subscribers of a query wins. 0 disables polling.
+  refreshMs?: number;
+  // Cached data younger than this is served without refetching on subscribe
+  staleMs?: number;
+}
+
+export interface PromQueryClient {
+  getState: (spec: PromQuerySpec) => PromQueryState;
+  // One-off fetch, served from cache when younger than maxAgeMs
+  fetchQuery: (spec: PromQuerySpec, maxAgeMs?: number) => Promise<QueryResult>;
+  subscribe: (spec: PromQuerySpec, listener: () => void, options?: SubscribeOptions) => () => void;
+}
+
+export const specKey = (spec: PromQuerySpec): string =>
+  spec.kind === 'instant'
+    ? `instant|${spec.query}`
+    : `range|${spec.query}|${spec.durationMs}|${spec.step}|${spec.end ?? 'now'}`;
+
+const DEFAULT_STALE_MS = 30 * 1000;
+// Unsubscribed entries kept around as cache
+const MAX_IDLE_ENTRIES = 100;
+
+const initialState: PromQueryState = { data: null, error: null, updatedAt: null, isFetching: false };
+
+// prometheus-query has no per-request options, so every request goes through a driver of its own
+// that attaches the request's abort signal
+export type PrometheusConnector = (signal: AbortSignal) => PrometheusDriver;
+
+interface Entry {
+  spec: PromQuerySpec;
+  state: PromQueryState;
+  // Listener -> its refresh interval
+  listeners: Map<() => void, number>;
+  timer: ReturnType<typeof setInterval> | null;
+  timerMs: number;
+  promise: Promise<QueryResult> | null;
+  controller: AbortController | null;
+  // One-off fetchQuery callers waiting on the in-flight promise
+  waiters: number;
+}
+
+export const createPromQueryClient = (connect: PrometheusConnector): PromQueryClient => {
+  const entries = new Map<string, Entry>();
+
+  const getEntry = (spec: PromQuerySpec): Entry => {
+    const key = specKey(spec);
+    let entry = entries.get(key);
+    if (!entry) {
+      entry = { spec, state: initialState, listeners: new Map(), timer: null, timerMs: 0, promise: null, controller: null, waiters: 0 };
+      entries.set(key, entry);
+    }
+    return entry;
+  };
+
+  const setState = (entry: Entry, changes: Partial<PromQueryState>) => {
+    entry.state = { ...entry.state, ...changes };
+    entry.listeners.forEach((_, listener) => listener());
+  };
+
+  const run = (spec: PromQuerySpec, signal: AbortSignal): Promise<QueryResult> => {
+    const prom = connect(signal);
+    if (spec.kind === 'instant') return prom.instantQuery(spec.query);
+    const end = spec.end ?? Date.now();
+    return prom.rangeQuery(spec.query, new Date(end - spec.durationMs), new Date(end), spec.step);
+  };
+
+  // Concurrent fetches of the same query share one request
+  const fetchEntry = (entry: Entry): Promise<QueryResult> => {
+    if (entry.promise) return entry.promise;
+    const controller = new AbortController();
+    entry.controller = controller;
+    setState(entry, { isFetching: true });
+
+    entry.promise = run(entry.spec, controller.signal)
+      .then(data => {
+        if (!controller.signal.aborted) setState(entry, { data, error: null, updatedAt: Date.now(), isFetching: false });
+        return data;
+      }, error => {
+        if (!controller.signal.aborted) setState(entry, { error, isFetching: false });
+        throw error;
+      })
+      .finally(() => {
+        if (entry.controller === controller) {
+          entry.promise = null;
+          entry.controller = null;
+        }
+      });
+    return entry.promise;
+  };
+
+  const reschedule = (entry: Entry) => {
+    const intervals = Array.from(entry.listeners.values()).filter(ms => ms > 0);
+    const timerMs = intervals.length > 0 ? Math.min(...intervals) : 0;
+    if (timerMs === entry.timerMs) return;
+    if (entry.timer) clearInterval(entry.timer);
+    entry.timer = timerMs > 0 ? setInterval(() => { fetchEntry(entry).catch(() => {}); }, timerMs) : null;
+    entry.timerMs = timerMs;
+  };
+
+  const evictIdle = () => {
+    const idle = Array.from(entries.entries()).filter(([, e]) => e.listeners.size === 0 && !e.promise);
+    idle.slice(0, Math.max(0, idle.length - MAX_IDLE_ENTRIES)).forEach(([key]) => entries.delete(key));
+  };
+
+  const fetchQuery = (spec: PromQuerySpec, maxAgeMs: number = 0): Promise<QueryResult> => {
+    const entry = getEntry(spec);
+    const { data, updatedAt } = entry.state;
+    if (data && updatedAt !== null && Date.now() - updatedAt <= maxAgeMs) return Promise.resolve(data);
+    entry.waiters++;
+    return fetchEntry(entry).finally(() => { entry.waiters--; });
+  };
+
+  const subscribe = (spec: PromQuerySpec, listener: () => void, options: SubscribeOptions = {}) => {
+    const { refreshMs = 0, staleMs = DEFAULT_STALE_MS } = options;
+    const entry = getEntry(spec);
+    entry.listeners.set(listener, refreshMs);
+    reschedule(entry);
+
+    const { updatedAt } = entry.state;
+    if (updatedAt === null || Date.now() - updatedAt > staleMs) {
+      // Errors are kept in the state for the subscribers
+      fetchEntry(entry).catch(() => {});
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      reschedule(entry);
+      if (entry.listeners.size === 0) {
+        // Nobody is left to use the response
+        if (entry.controller && entry.waiters === 0) {
+          entry.controller.abort();
+          entry.promise = null;
+          entry.controller = null;
+          entry.state = { ...entry.state, isFetching: false };
+        }
+        evictIdle();
+      }
+    };
+  };
+
+  return {
+    getState: (spec) => entries.get(specKey(spec))?.state ?? initialState,
+    fetchQuery,
+    subscribe,
+  };
+};
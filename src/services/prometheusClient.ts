@@ -0,0 +1,47 @@
+import { PrometheusConnectionOptions, PrometheusDriver } from 'prometheus-query';
+import { Environment } from '../config';
+import { prometheusOptions } from '../utils/prometheus';
+import { createPromQueryClient, PromQueryClient } from './promQueryClient';
+import { createQueryMetrics, instrumentPrometheus, QueryMetrics } from './queryMetrics';
+
+export interface PrometheusClient {
+  prom: PrometheusDriver;
+  // Latency and errors of every query made through prom and the query client
+  queryMetrics: QueryMetrics;
+  // Cached, deduplicated access to Prometheus shared by every page and the store
+  queryClient: PromQueryClient;
+}
+
+// Everything that talks to one environment's Prometheus, calling onUnauthorized when it rejects the token
+export const createPrometheusClient = (
+  environment: Environment,
+  token: string | null,
+  onUnauthorized: () => void
+): PrometheusClient => {
+  const metrics = createQueryMetrics();
+  const options: PrometheusConnectionOptions = {
+    ...prometheusOptions(environment, token),
+    responseInterceptor: {
+      onFulfilled: (response) => response,
+      onRejected: (error) => {
+        if (error?.response?.status === 401) onUnauthorized();
+        return Promise.reject(error);
+      },
+    },
+  };
+  // Query client requests carry the signal that cancels them once nobody needs the response
+  const connect = (signal: AbortSignal) => instrumentPrometheus(new PrometheusDriver({
+    ...options,
+    requestInterceptor: {
+      onFulfilled: (config) => {
+        config.signal = signal;
+        return config;
+      },
+    },
+  }), metrics);
+  return {
+    prom: instrumentPrometheus(new PrometheusDriver(options), metrics),
+    queryMetrics: metrics,
+    queryClient: createPromQueryClient(connect),
+  };
+};
@@ -0,0 +1,83 @@
+import { PrometheusDriver } from 'prometheus-query';
+
+export interface QueryStats {
+  query: string;
+  kind: 'instant' | 'range';
+  count: number;
+  errors: number;
+  lastLatencyMs: number;
+  // Mean over the last LATENCY_WINDOW calls
+  avgLatencyMs: number;
+  lastSuccessAt: number | null;
+  lastErrorAt: number | null;
+  lastError: string | null;
+}
+
+export interface QueryMetrics {
+  record: (query: string, kind: QueryStats['kind'], latencyMs: number, error?: unknown) => void;
+  getStats: () => QueryStats[];
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Number of recent latencies averaged per query
+const LATENCY_WINDOW = 20;
+
+export const createQueryMetrics = (): QueryMetrics => {
+  const stats = new Map<string, QueryStats>();
+  const latencies = new Map<string, number[]>();
+  const listeners = new Set<() => void>();
+  let snapshot: QueryStats[] = [];
+
+  const record = (query: string, kind: QueryStats['kind'], latencyMs: number, error?: unknown) => {
+    const key = `${kind}:${query}`;
+    const previous = stats.get(key);
+    const recent = [...(latencies.get(key) ?? []), latencyMs].slice(-LATENCY_WINDOW);
+    latencies.set(key, recent);
+    const now = Date.now();
+    stats.set(key, {
+      query,
+      kind,
+      count: (previous?.count ?? 0) + 1,
+      errors: (previous?.errors ?? 0) + (error ? 1 : 0),
+      lastLatencyMs: latencyMs,
+      avgLatencyMs: recent.reduce((sum, value) => sum + value, 0) / recent.length,
+      lastSuccessAt: error ? previous?.lastSuccessAt ?? null : now,
+      lastErrorAt: error ? now : previous?.lastErrorAt ?? null,
+      lastError: error ? (error instanceof Error ? error.message : String(error)) : previous?.lastError ?? null,
+    });
+    // A new array per change so React can compare snapshots by reference
+    snapshot = Array.from(stats.values());
+    listeners.forEach(listener => listener());
+  };
+
+  return {
+    record,
+    getStats: () => snapshot,
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+};
+
+// Times every instant and range query of the driver, errors are rethrown untouched
+export const instrumentPrometheus = (prom: PrometheusDriver, metrics: QueryMetrics): PrometheusDriver => {
+  const instantQuery = prom.instantQuery.bind(prom);
+  const rangeQuery = prom.rangeQuery.bind(prom);
+
+  const timed = async <T>(query: string, kind: QueryStats['kind'], run: () => Promise<T>): Promise<T> => {
+    const startedAt = performance.now();
+    try {
+      const result = await run();
+      metrics.record(query, kind, performance.now() - startedAt);
+      return result;
+    } catch (error) {
+      metrics.record(query, kind, performance.now() - startedAt, error ?? 'Unknown error');
+      throw error;
+    }
+  };
+
+  prom.instantQuery = (query, ...rest) => timed(query, 'instant', () => instantQuery(query, ...rest));
+  prom.rangeQuery = (query, ...rest) => timed(query, 'range', () => rangeQuery(query, ...rest));
+  return prom;
+};
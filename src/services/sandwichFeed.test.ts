@@ -0,0 +1,230 @@
+/**
+ * @jest-environment node
+ */
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { nodeSocket } from '../../server/nodeSocket';
+import { ReconnectSettings } from '../config';
+import { makeSandwich } from '../testing/fixtures';
+import { computeBackoffDelay, createSandwichFeed, DEDUPE_WINDOW, FeedStatus, SandwichFeed } from './sandwichFeed';
+
+const settings: ReconnectSettings = {
+  maxAttempts: 2,
+  delayMs: 10,
+  backoffMultiplier: 2,
+  maxDelayMs: 40,
+  jitter: 0,
+  periodicReconnectMs: 100,
+  fallbackPollMs: 20,
+};
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000) => {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+const startServer = async (port: number = 0) => {
+  const server = new WebSocketServer({ host: '127.0.0.1', port });
+  await once(server, 'listening');
+  return server;
+};
+
+const closeServer = (server: WebSocketServer) => {
+  server.clients.forEach(socket => socket.terminate());
+  return new Promise(resolve => server.close(resolve));
+};
+
+const urlOf = (server: WebSocketServer) => `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+// A URL nothing listens on, every connection to it is refused
+const deadUrl = async () => {
+  const server = await startServer();
+  const url = urlOf(server);
+  await closeServer(server);
+  return url;
+};
+
+describe('computeBackoffDelay', () => {
+  const backoff = { ...settings, delayMs: 1000, backoffMultiplier: 1.5, maxDelayMs: 3000, jitter: 0.2 };
+  const middle = () => 0.5;
+
+  it('grows by the multiplier from the base delay', () => {
+    expect(computeBackoffDelay(1, backoff, middle)).toBe(1000);
+    expect(computeBackoffDelay(2, backoff, middle)).toBe(1500);
+    expect(computeBackoffDelay(3, backoff, middle)).toBe(2250);
+  });
+
+  it('caps the delay at maxDelayMs', () => {
+    expect(computeBackoffDelay(4, backoff, middle)).toBe(3000);
+    expect(computeBackoffDelay(20, backoff, middle)).toBe(3000);
+  });
+
+  it('spreads the delay by the jitter either way', () => {
+    expect(computeBackoffDelay(1, backoff, () => 0)).toBe(800);
+    expect(computeBackoffDelay(1, backoff, () => 1)).toBe(1200);
+    expect(computeBackoffDelay(4, backoff, () => 1)).toBe(3600);
+  });
+
+  it('treats attempts before the first as the first', () => {
+    expect(computeBackoffDelay(0, backoff, middle)).toBe(1000);
+  });
+
+  it('never goes below zero', () => {
+    expect(computeBackoffDelay(1, { ...backoff, jitter: 2 }, () => 0)).toBe(0);
+  });
+});
+
+describe('createSandwichFeed', () => {
+  let feed: SandwichFeed;
+  let servers: WebSocketServer[];
+  let statuses: FeedStatus[];
+  let slots: number[];
+
+  const createFeed = (primaryUrl: string, fallbackUrl: string, fetchFallback?: () => Promise<string | null>) => {
+    feed = createSandwichFeed({ primaryUrl, fallbackUrl, reconnect: settings, fetchFallback, createSocket: nodeSocket });
+    feed.on('state', status => statuses.push(status));
+    feed.on('sandwich', sandwich => slots.push(sandwich.data.sandwich.slot));
+    return feed;
+  };
+
+  const serve = async (port?: number) => {
+    const server = await startServer(port);
+    servers.push(server);
+    return server;
+  };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    servers = [];
+    statuses = [];
+    slots = [];
+  });
+
+  afterEach(async () => {
+    feed?.stop();
+    await Promise.all(servers.map(closeServer));
+    jest.restoreAllMocks();
+  });
+
+  describe('deduplication', () => {
+    beforeEach(() => {
+      createFeed('ws://unused', 'ws://unused');
+    });
+
+    it('passes each event on once', () => {
+      feed.ingest(JSON.stringify(makeSandwich(1)));
+      feed.ingest(JSON.stringify(makeSandwich(1)));
+      feed.ingest(JSON.stringify(makeSandwich(2)));
+
+      expect(slots).toEqual([1, 2]);
+    });
+
+    it('forgets the oldest events beyond the window', () => {
+      for (let slot = 0; slot <= DEDUPE_WINDOW; slot++) {
+        feed.ingest(JSON.stringify(makeSandwich(slot)));
+      }
+      slots = [];
+
+      // Slot 0 was evicted by the last one, slot 1 is still the oldest remembered
+      feed.ingest(JSON.stringify(makeSandwich(1)));
+      feed.ingest(JSON.stringify(makeSandwich(0)));
+
+      expect(slots).toEqual([0]);
+    });
+  });
+
+  it('opens on the primary socket and passes its sandwiches on', async () => {
+    const primary = await serve();
+    createFeed(urlOf(primary), await deadUrl());
+    const connected = once(primary, 'connection');
+    feed.start();
+    const [socket] = await connected;
+    await waitFor(() => feed.getStatus().state === 'open');
+
+    socket.send(JSON.stringify(makeSandwich(5)));
+    await waitFor(() => slots.length === 1);
+
+    expect(statuses[0]).toMatchObject({ state: 'connecting', url: urlOf(primary), reconnectAttempts: 0 });
+    expect(feed.getStatus()).toMatchObject({ state: 'open', url: urlOf(primary), reconnectAttempts: 0 });
+    expect(slots).toEqual([5]);
+  });
+
+  it('reconnects to the other URL after a drop, deduping what both sockets send', async () => {
+    const primary = await serve();
+    const fallback = await serve();
+    createFeed(urlOf(primary), urlOf(fallback));
+    const primaryConnected = once(primary, 'connection');
+    feed.start();
+    const [primarySocket] = await primaryConnected;
+    await waitFor(() => feed.getStatus().state === 'open');
+    primarySocket.send(JSON.stringify(makeSandwich(7)));
+    await waitFor(() => slots.length === 1);
+
+    const fallbackConnected = once(fallback, 'connection');
+    primarySocket.terminate();
+    const [fallbackSocket] = await fallbackConnected;
+    await waitFor(() => feed.getStatus().state === 'open');
+    fallbackSocket.send(JSON.stringify(makeSandwich(7)));
+    fallbackSocket.send(JSON.stringify(makeSandwich(8)));
+    await waitFor(() => slots.length === 2);
+
+    expect(statuses.map(s => s.state)).toContain('reconnecting');
+    expect(statuses.find(s => s.state === 'reconnecting')?.reconnectAttempts).toBe(1);
+    expect(feed.getStatus()).toMatchObject({ state: 'open', url: urlOf(fallback), reconnectAttempts: 0 });
+    expect(slots).toEqual([7, 8]);
+  });
+
+  it('alternates URLs with growing delays, then polls the fallback until a periodic reconnect succeeds', async () => {
+    const primaryUrl = await deadUrl();
+    const fallbackUrl = await deadUrl();
+    const fetchFallback = jest.fn().mockResolvedValue(JSON.stringify(makeSandwich(9)));
+    createFeed(primaryUrl, fallbackUrl, fetchFallback);
+    const reconnectingAt: number[] = [];
+    feed.on('state', status => {
+      if (status.state === 'reconnecting' && status.url === null) reconnectingAt.push(Date.now());
+    });
+
+    feed.start();
+    await waitFor(() => feed.getStatus().state === 'polling-fallback');
+
+    const attempts = statuses.filter(s => s.url !== null).map(s => [s.url, s.reconnectAttempts]);
+    expect(attempts).toEqual([
+      [primaryUrl, 0],
+      [fallbackUrl, 1],
+      [primaryUrl, 2],
+    ]);
+    expect(reconnectingAt).toHaveLength(2);
+
+    // The fallback keeps answering with the same sandwich, which is passed on once
+    await waitFor(() => fetchFallback.mock.calls.length >= 4);
+    expect(slots).toEqual([9]);
+
+    // Bring the primary up on its old port for the periodic reconnect to find
+    await serve(Number(new URL(primaryUrl).port));
+    await waitFor(() => feed.getStatus().state === 'open');
+    const calls = fetchFallback.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, settings.fallbackPollMs * 3));
+
+    expect(feed.getStatus()).toMatchObject({ state: 'open', url: primaryUrl, reconnectAttempts: 0 });
+    expect(fetchFallback.mock.calls.length).toBe(calls);
+  });
+
+  it('stops when the server closes normally', async () => {
+    const primary = await serve();
+    createFeed(urlOf(primary), await deadUrl());
+    const connected = once(primary, 'connection');
+    feed.start();
+    const [socket] = await connected;
+    await waitFor(() => feed.getStatus().state === 'open');
+
+    socket.close(1000, 'Done');
+    await waitFor(() => feed.getStatus().state === 'stopped');
+
+    expect(statuses.map(s => s.state)).not.toContain('reconnecting');
+  });
+});
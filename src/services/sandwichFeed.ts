@@ -0,0 +1,333 @@
+import { InstantVector, PrometheusDriver, QueryResult } from 'prometheus-query';
+import { ReconnectSettings } from '../config';
+import { SandwichData } from '../types/sandwich';
+import { FeedEvent } from '../types/feed';
+import { eventKey } from './feedEvents';
+import { validateFeedMessage } from './feedSchema';
+
+export type FeedState = 'connecting' | 'open' | 'reconnecting' | 'polling-fallback' | 'replaying' | 'stopped';
+
+export interface FeedStatus {
+  state: FeedState;
+  // URL of the socket currently connecting or open, null while stopped
+  url: string | null;
+  reconnectAttempts: number;
+  lastMessageAt: number | null;
+  // Messages that failed to parse or validate since the feed started
+  rejectedMessages: number;
+}
+
+// A raw socket message as received, the unit of feed recordings
+export interface FeedMessage {
+  receivedAt: number;
+  data: string;
+}
+
+export type FeedSource = 'WebSocket' | 'fallback';
+
+// A message that was dropped, kept with its raw text for inspection
+export interface RejectedMessage extends FeedMessage {
+  source: FeedSource;
+  reason: string;
+  // Null when the message didn't get as far as declaring one
+  schemaVersion: number | null;
+}
+
+// Callbacks a feed socket reports to
+export interface FeedSocketHandlers {
+  onOpen: () => void;
+  onMessage: (data: string) => void;
+  onError: (error: unknown) => void;
+  onClose: (code: number, reason: string) => void;
+}
+
+// An opening or open connection, its handlers are no longer called once close() is
+export interface FeedSocket {
+  close: () => void;
+}
+
+export type FeedSocketFactory = (url: string, handlers: FeedSocketHandlers) => FeedSocket;
+
+// Connects with the browser's WebSocket
+export const browserSocket: FeedSocketFactory = (url, handlers) => {
+  const socket = new WebSocket(url);
+  socket.onopen = () => handlers.onOpen();
+  socket.onmessage = (event) => handlers.onMessage(event.data);
+  socket.onerror = (event) => handlers.onError(event);
+  socket.onclose = (event) => handlers.onClose(event.code, event.reason);
+
+  return {
+    close: () => {
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close();
+    },
+  };
+};
+
+export interface SandwichFeedOptions {
+  primaryUrl: string;
+  fallbackUrl: string;
+  reconnect: ReconnectSettings;
+  // Returns the latest sandwich message, as JSON, from a secondary source, or null
+  fetchFallback?: () => Promise<string | null>;
+  // Poll fetchFallback at this interval even while the socket is open, 0 disables it
+  backgroundPollMs?: number;
+  createSocket?: FeedSocketFactory;
+  // Treats a normal close by the server like a dropped connection, for feeds that must outlive an upstream restart
+  reconnectOnNormalClose?: boolean;
+  random?: () => number;
+}
+
+export interface SandwichFeedEvents {
+  state: (status: FeedStatus) => void;
+  // Every raw message before parsing, for recording
+  message: (message: FeedMessage) => void;
+  // Every accepted event, sandwiches included, with the message it came in as
+  event: (event: FeedEvent, data: string) => void;
+  sandwich: (sandwich: SandwichData) => void;
+  // Every message that failed to parse or validate
+  rejected: (message: RejectedMessage) => void;
+}
+
+export interface SandwichFeed {
+  start: () => void;
+  stop: () => void;
+  // Handles a raw message the same way as one from the socket
+  ingest: (data: string) => void;
+  // Closes the sockets and forgets seen events, after which messages only arrive through ingest
+  startReplay: () => void;
+  getStatus: () => FeedStatus;
+  on: <E extends keyof SandwichFeedEvents>(event: E, listener: SandwichFeedEvents[E]) => () => void;
+}
+
+// Number of recent event keys remembered for deduplication
+export const DEDUPE_WINDOW = 1000;
+
+// Exponential backoff capped at maxDelayMs, spread by +/- jitter
+export const computeBackoffDelay = (attempt: number, settings: ReconnectSettings, random: () => number = Math.random): number => {
+  const exponential = settings.delayMs * Math.pow(settings.backoffMultiplier, Math.max(0, attempt - 1));
+  const capped = Math.min(settings.maxDelayMs, exponential);
+  const spread = capped * settings.jitter * (random() * 2 - 1);
+  return Math.max(0, Math.round(capped + spread));
+};
+
+// Reads the last sandwich exported by the bot as a JSON-encoded metric value
+export const createPrometheusFallback = (prom: PrometheusDriver) => async (): Promise<string | null> => {
+  const query = 'last_sandwich_data';
+  const result: QueryResult = await prom.instantQuery(query);
+  if (result.resultType === 'vector' && result.result.length > 0) {
+    const instantVectorResult = result.result as InstantVector[];
+    if (instantVectorResult[0].value) {
+      return instantVectorResult[0].value.value.toString();
+    }
+  }
+  return null;
+};
+
+export const createSandwichFeed = (options: SandwichFeedOptions): SandwichFeed => {
+  const {
+    primaryUrl,
+    fallbackUrl,
+    reconnect,
+    fetchFallback,
+    backgroundPollMs = 30000,
+    createSocket = browserSocket,
+    reconnectOnNormalClose = false,
+    random = Math.random,
+  } = options;
+
+  const listeners: { [E in keyof SandwichFeedEvents]: Set<SandwichFeedEvents[E]> } = {
+    state: new Set(),
+    message: new Set(),
+    event: new Set(),
+    sandwich: new Set(),
+    rejected: new Set(),
+  };
+
+  let status: FeedStatus = { state: 'stopped', url: null, reconnectAttempts: 0, lastMessageAt: null, rejectedMessages: 0 };
+  let websocket: FeedSocket | null = null;
+  let reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  let fallbackIntervalId: ReturnType<typeof setInterval> | null = null;
+  let periodicReconnectId: ReturnType<typeof setInterval> | null = null;
+  let backgroundPollId: ReturnType<typeof setInterval> | null = null;
+  const seenKeys = new Set<string>();
+  // The fallback keeps returning the same message, so a bad one is only rejected once
+  let lastRejectedFallback: string | null = null;
+
+  const setStatus = (next: Partial<FeedStatus>) => {
+    status = { ...status, ...next };
+    listeners.state.forEach(listener => listener(status));
+  };
+
+  const emitEvent = (event: FeedEvent, data: string) => {
+    const key = eventKey(event);
+    if (seenKeys.has(key)) return;
+    seenKeys.add(key);
+    if (seenKeys.size > DEDUPE_WINDOW) {
+      // Sets iterate in insertion order, so the first entry is the oldest
+      seenKeys.delete(seenKeys.values().next().value as string);
+    }
+    listeners.event.forEach(listener => listener(event, data));
+    if (event.kind === 'sandwich') {
+      listeners.sandwich.forEach(listener => listener(event.payload));
+    }
+  };
+
+  const reject = (message: RejectedMessage) => {
+    console.error(`Rejected ${message.source} message: ${message.reason}`);
+    if (message.source === 'fallback') lastRejectedFallback = message.data;
+    setStatus({ rejectedMessages: status.rejectedMessages + 1 });
+    listeners.rejected.forEach(listener => listener(message));
+  };
+
+  const handleMessage = (data: string, source: FeedSource, receivedAt: number) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(data);
+    } catch (error) {
+      reject({ receivedAt, data, source, reason: `Invalid JSON: ${(error as Error).message}`, schemaVersion: null });
+      return;
+    }
+    const result = validateFeedMessage(parsed);
+    if (result.ok) {
+      emitEvent(result.event, data);
+    } else {
+      reject({ receivedAt, data, source, reason: result.reason, schemaVersion: result.schemaVersion });
+    }
+  };
+
+  const ingest = (data: string) => {
+    const receivedAt = Date.now();
+    listeners.message.forEach(listener => listener({ receivedAt, data }));
+    setStatus({ lastMessageAt: receivedAt });
+    handleMessage(data, 'WebSocket', receivedAt);
+  };
+
+  const pollFallback = async () => {
+    if (!fetchFallback) return;
+    try {
+      const data = await fetchFallback();
+      if (data !== null && data !== lastRejectedFallback) handleMessage(data, 'fallback', Date.now());
+    } catch (error) {
+      console.error('Error fetching fallback sandwich data:', error);
+    }
+  };
+
+  const clearFallbackMode = () => {
+    if (fallbackIntervalId) clearInterval(fallbackIntervalId);
+    if (periodicReconnectId) clearInterval(periodicReconnectId);
+    fallbackIntervalId = null;
+    periodicReconnectId = null;
+  };
+
+  const closeSocket = () => {
+    if (websocket) {
+      websocket.close();
+      websocket = null;
+    }
+  };
+
+  const enterFallbackMode = () => {
+    console.log('Max reconnection attempts reached. Switching to fallback mode...');
+    setStatus({ state: 'polling-fallback', url: null });
+    if (!fallbackIntervalId) {
+      fallbackIntervalId = setInterval(pollFallback, reconnect.fallbackPollMs);
+    }
+    if (!periodicReconnectId) {
+      periodicReconnectId = setInterval(() => {
+        console.log('Attempting periodic reconnect...');
+        connect(primaryUrl, 0);
+      }, reconnect.periodicReconnectMs);
+    }
+  };
+
+  const connect = (url: string, attempts: number) => {
+    closeSocket();
+    console.log('Connecting to WebSocket:', url);
+    // Retries keep reporting reconnecting/polling-fallback until the socket actually opens
+    const state = status.state === 'reconnecting' || status.state === 'polling-fallback' ? status.state : 'connecting';
+    setStatus({ state, url, reconnectAttempts: attempts });
+
+    const onOpen = () => {
+      console.log('WebSocket connection established');
+      clearFallbackMode();
+      setStatus({ state: 'open', url, reconnectAttempts: 0 });
+    };
+
+    const onError = (error: unknown) => {
+      console.error('WebSocket error:', error);
+      pollFallback();
+    };
+
+    const onClose = (code: number, reason: string) => {
+      console.log('WebSocket connection closed. Code:', code, 'Reason:', reason);
+      websocket = null;
+
+      if ((code === 1000 || code === 1005) && !reconnectOnNormalClose) {
+        console.log('WebSocket closed normally.');
+        stop();
+        return;
+      }
+
+      // While in fallback mode the periodic reconnect owns retries
+      if (fallbackIntervalId) return;
+
+      if (attempts < reconnect.maxAttempts) {
+        const nextAttempt = attempts + 1;
+        const nextUrl = url === primaryUrl ? fallbackUrl : primaryUrl;
+        const delay = computeBackoffDelay(nextAttempt, reconnect, random);
+        console.log(`Attempting to reconnect (${nextAttempt}/${reconnect.maxAttempts}) to ${nextUrl} in ${delay}ms...`);
+        setStatus({ state: 'reconnecting', url: null, reconnectAttempts: nextAttempt });
+        reconnectTimeoutId = setTimeout(() => connect(nextUrl, nextAttempt), delay);
+
+        // Fetch fallback data while trying to reconnect
+        pollFallback();
+      } else {
+        enterFallbackMode();
+      }
+    };
+
+    websocket = createSocket(url, { onOpen, onMessage: ingest, onError, onClose });
+  };
+
+  const start = () => {
+    if (status.state !== 'stopped') return;
+    connect(primaryUrl, 0);
+    if (fetchFallback && backgroundPollMs > 0) {
+      backgroundPollId = setInterval(pollFallback, backgroundPollMs);
+    }
+  };
+
+  const teardown = () => {
+    closeSocket();
+    clearFallbackMode();
+    if (reconnectTimeoutId) clearTimeout(reconnectTimeoutId);
+    if (backgroundPollId) clearInterval(backgroundPollId);
+    reconnectTimeoutId = null;
+    backgroundPollId = null;
+  };
+
+  const stop = () => {
+    teardown();
+    setStatus({ state: 'stopped', url: null, reconnectAttempts: 0 });
+  };
+
+  const startReplay = () => {
+    teardown();
+    seenKeys.clear();
+    setStatus({ state: 'replaying', url: null, reconnectAttempts: 0, lastMessageAt: null, rejectedMessages: 0 });
+  };
+
+  const on = <E extends keyof SandwichFeedEvents>(event: E, listener: SandwichFeedEvents[E]) => {
+    const set = listeners[event] as Set<SandwichFeedEvents[E]>;
+    set.add(listener);
+    return () => {
+      set.delete(listener);
+    };
+  };
+
+  return { start, stop, ingest, startReplay, getStatus: () => status, on };
+};
@@ -0,0 +1,91 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { makeSandwich } from '../testing/fixtures';
+import { SandwichData } from '../types/sandwich';
+import { createSandwichStore, SandwichFilter, SandwichQuery, SandwichStore, withLiveSandwiches } from './sandwichStore';
+
+const slots = (sandwiches: SandwichData[]) => sandwiches.map(s => s.data.sandwich.slot);
+
+describe('createSandwichStore', () => {
+  let store: SandwichStore;
+
+  // Follows the next cursors from the first page, returning every page's slots
+  const allPages = async (query: SandwichQuery) => {
+    const pages: number[][] = [];
+    let page = await store.query(query);
+    pages.push(slots(page.items));
+    while (page.next) {
+      page = await store.query({ ...query, after: page.next });
+      pages.push(slots(page.items));
+    }
+    return pages;
+  };
+
+  beforeEach(async () => {
+    store = createSandwichStore(`test-${Date.now()}-${Math.random()}`);
+    // Slots 1 to 10, with 4 to 7 landing in the same second
+    await store.put([1, 2, 3, 4, 5, 6, 7, 8, 9, 10].map(slot =>
+      makeSandwich(slot, { timestamp: slot >= 4 && slot <= 7 ? 1700000004 : 1700000000 + slot, mint: slot % 2 ? 'MintOdd' : 'MintEven' })
+    ));
+  });
+
+  afterEach(async () => {
+    await store.clear();
+    store.close();
+  });
+
+  it('pages newest first through sandwiches sharing a timestamp', async () => {
+    expect(await allPages({ limit: 3 })).toEqual([[10, 9, 8], [7, 6, 5], [4, 3, 2], [1]]);
+  });
+
+  it('pages within the filters', async () => {
+    expect(await allPages({ mint: 'MintOdd', limit: 2 })).toEqual([[9, 7], [5, 3], [1]]);
+    expect(await allPages({ from: 1700000003, to: 1700000008, limit: 4 })).toEqual([[8, 7, 6, 5], [4, 3]]);
+  });
+
+  it('has no next page when the last page is full', async () => {
+    const page = await store.query({ limit: 10 });
+
+    expect(page.items).toHaveLength(10);
+    expect(page.next).toBeNull();
+  });
+
+  it('keeps later pages in place when newer sandwiches arrive', async () => {
+    const first = await store.query({ limit: 3 });
+    await store.put([makeSandwich(11, { timestamp: 1700000011 })]);
+
+    expect(slots((await store.query({ limit: 3, after: first.next ?? undefined })).items)).toEqual([7, 6, 5]);
+  });
+
+  it('walks the sandwiches of a token or wallet newest first within the other filters', async () => {
+    const other = makeSandwich(11, { timestamp: 1700000011, mint: 'MintOdd' });
+    await store.put([{ ...other, data: { ...other.data, publicKey: 'Victim2' } }]);
+    const walked = async (filter: SandwichFilter) => {
+      const found: SandwichData[] = [];
+      await store.walk(filter, sandwich => found.push(sandwich));
+      return slots(found);
+    };
+
+    expect(await walked({ mint: 'MintOdd' })).toEqual([11, 9, 7, 5, 3, 1]);
+    expect(await walked({ mint: 'MintOdd', from: 1700000004, to: 1700000009 })).toEqual([9, 7, 5]);
+    expect(await walked({ publicKey: 'Victim2' })).toEqual([11]);
+    expect(await walked({ publicKey: 'Victim1111111111111111111111111111111111111', mint: 'MintOdd' })).toEqual([9, 7, 5, 3, 1]);
+  });
+
+  it('counts matches with and without an index', async () => {
+    expect(await store.count({})).toBe(10);
+    expect(await store.count({ from: 1700000004, to: 1700000008 })).toBe(5);
+    expect(await store.count({ mint: 'MintEven' })).toBe(5);
+    expect(await store.count({ mint: 'MintEven', from: 1700000004 })).toBe(4);
+    expect(await store.count({ mint: 'MintEven', minSolChange: 20000000 })).toBe(0);
+  });
+});
+
+describe('withLiveSandwiches', () => {
+  it('puts live sandwiches missing from the history ahead of it', () => {
+    const stored = [makeSandwich(2), makeSandwich(1)];
+    expect(slots(withLiveSandwiches(stored, [makeSandwich(3), makeSandwich(2)]))).toEqual([3, 2, 1]);
+  });
+});
@@ -0,0 +1,288 @@
+import { SandwichData } from '../types/sandwich';
+
+// One database per environment, sandwiches keyed by slot like the live feed dedupe
+const DB_PREFIX = 'sandwichHistory';
+const DB_VERSION = 1;
+const STORE_NAME = 'sandwiches';
+
+export interface StoredSandwich {
+  slot: number;
+  mint: string;
+  timestamp: number;
+  publicKey: string;
+  solChange: number;
+  payload: SandwichData;
+}
+
+export interface SandwichFilter {
+  // Unix seconds, inclusive
+  from?: number;
+  to?: number;
+  mint?: string;
+  publicKey?: string;
+  // Minimum solChange in lamports
+  minSolChange?: number;
+}
+
+// The last sandwich of a page, pages are ordered by timestamp then slot, newest first
+export interface SandwichCursor {
+  timestamp: number;
+  slot: number;
+}
+
+export interface SandwichQuery extends SandwichFilter {
+  // Continue after this sandwich, omitted for the first page
+  after?: SandwichCursor;
+  limit: number;
+}
+
+export interface SandwichPage {
+  items: SandwichData[];
+  // Where the next page starts, null on the last page
+  next: SandwichCursor | null;
+}
+
+export interface StoreStats {
+  count: number;
+  oldestTimestamp: number | null;
+  newestTimestamp: number | null;
+}
+
+export interface SandwichStore {
+  put: (sandwiches: SandwichData[]) => Promise<void>;
+  query: (query: SandwichQuery) => Promise<SandwichPage>;
+  count: (filter: SandwichFilter) => Promise<number>;
+  // Calls visit for every match, newest first, without holding them all in memory.
+  // A wallet's or token's sandwiches are read through its index, ordered by slot.
+  walk: (filter: SandwichFilter, visit: (sandwich: SandwichData) => void) => Promise<void>;
+  stats: () => Promise<StoreStats>;
+  deleteOlderThan: (timestamp: number) => Promise<number>;
+  // Drop everything beyond the newest maxEntries
+  trimTo: (maxEntries: number) => Promise<number>;
+  clear: () => Promise<void>;
+  close: () => void;
+}
+
+const toStored = (s: SandwichData): StoredSandwich => ({
+  slot: s.data.sandwich.slot,
+  mint: s.data.sandwich.mint,
+  timestamp: s.data.sandwich.timestamp,
+  publicKey: s.data.publicKey ?? '',
+  solChange: s.data.sandwich.solChange ?? 0,
+  payload: s,
+});
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const openDatabase = (name: string): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not available'));
+  }
+  const request = indexedDB.open(name, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(STORE_NAME)) {
+      const store = db.createObjectStore(STORE_NAME, { keyPath: 'slot' });
+      store.createIndex('mint', 'mint');
+      store.createIndex('timestamp', 'timestamp');
+      store.createIndex('publicKey', 'publicKey');
+    }
+  };
+  return promisify(request);
+};
+
+const matches = (record: StoredSandwich, query: SandwichFilter) =>
+  (query.from === undefined || record.timestamp >= query.from) &&
+  (query.to === undefined || record.timestamp <= query.to) &&
+  (!query.mint || record.mint === query.mint) &&
+  (!query.publicKey || record.publicKey === query.publicKey) &&
+  (query.minSolChange === undefined || record.solChange >= query.minSolChange);
+
+const timestampRange = (from?: number, to?: number): IDBKeyRange | undefined => {
+  if (from !== undefined && to !== undefined) return IDBKeyRange.bound(from, to);
+  if (from !== undefined) return IDBKeyRange.lowerBound(from);
+  if (to !== undefined) return IDBKeyRange.upperBound(to);
+  return undefined;
+};
+
+interface WalkSource {
+  index: string;
+  range: IDBKeyRange | undefined;
+  // Filters the range applies by itself, the others are checked on each record
+  covers: (keyof SandwichFilter)[];
+}
+
+// A wallet or token has few sandwiches next to the whole history, so its index is read instead of the time range
+const walkSource = (filter: SandwichFilter): WalkSource => {
+  if (filter.publicKey) return { index: 'publicKey', range: IDBKeyRange.only(filter.publicKey), covers: ['publicKey'] };
+  if (filter.mint) return { index: 'mint', range: IDBKeyRange.only(filter.mint), covers: ['mint'] };
+  return { index: 'timestamp', range: timestampRange(filter.from, filter.to), covers: ['from', 'to'] };
+};
+
+export const createSandwichStore = (environmentId: string): SandwichStore => {
+  const dbPromise = openDatabase(`${DB_PREFIX}.${environmentId}`);
+
+  const put = async (sandwiches: SandwichData[]) => {
+    if (sandwiches.length === 0) return;
+    const db = await dbPromise;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    sandwiches.forEach(s => store.put(toStored(s)));
+    await transactionDone(tx);
+  };
+
+  // Walks an index backwards, filtering in the cursor, until visit returns false
+  const scan = async (
+    indexName: string,
+    range: IDBKeyRange | undefined,
+    filter: SandwichFilter,
+    visit: (record: StoredSandwich) => boolean
+  ) => {
+    const db = await dbPromise;
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const index = tx.objectStore(STORE_NAME).index(indexName);
+
+    await new Promise<void>((resolve, reject) => {
+      const request = index.openCursor(range, 'prev');
+      request.onerror = () => reject(request.error);
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        const record = cursor.value as StoredSandwich;
+        if (matches(record, filter) && !visit(record)) {
+          resolve();
+          return;
+        }
+        cursor.continue();
+      };
+    });
+  };
+
+  const walk = (filter: SandwichFilter, visit: (sandwich: SandwichData) => void) => {
+    const { index, range } = walkSource(filter);
+    return scan(index, range, filter, record => {
+      visit(record.payload);
+      return true;
+    });
+  };
+
+  // Starts the range at the cursor's timestamp, so a page only reads its own sandwiches and the few sharing that second
+  const query = async (q: SandwichQuery): Promise<SandwichPage> => {
+    const records: StoredSandwich[] = [];
+    let hasMore = false;
+    await scan('timestamp', timestampRange(q.from, q.after ? q.after.timestamp : q.to), q, record => {
+      // Slots at the cursor's timestamp come in descending order, those up to the cursor were on earlier pages
+      if (q.after && record.timestamp === q.after.timestamp && record.slot >= q.after.slot) return true;
+      if (records.length === q.limit) {
+        hasMore = true;
+        return false;
+      }
+      records.push(record);
+      return true;
+    });
+    const last = records[records.length - 1];
+    return {
+      items: records.map(record => record.payload),
+      next: hasMore ? { timestamp: last.timestamp, slot: last.slot } : null,
+    };
+  };
+
+  // Straight from the index when its range is the only filter, otherwise a walk
+  const count = async (filter: SandwichFilter): Promise<number> => {
+    const { index, range, covers } = walkSource(filter);
+    const rest = (Object.keys(filter) as (keyof SandwichFilter)[])
+      .filter(key => filter[key] !== undefined && !covers.includes(key));
+    if (rest.length === 0) {
+      const db = await dbPromise;
+      return promisify(db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).index(index).count(range));
+    }
+    let total = 0;
+    await walk(filter, () => {
+      total++;
+    });
+    return total;
+  };
+
+  const stats = async (): Promise<StoreStats> => {
+    const db = await dbPromise;
+    const tx = db.transaction(STORE_NAME, 'readonly');
+    const store = tx.objectStore(STORE_NAME);
+    const index = store.index('timestamp');
+    const [count, oldest, newest] = await Promise.all([
+      promisify(store.count()),
+      promisify(index.openCursor(null, 'next')),
+      promisify(index.openCursor(null, 'prev')),
+    ]);
+    return {
+      count,
+      oldestTimestamp: oldest ? (oldest.value as StoredSandwich).timestamp : null,
+      newestTimestamp: newest ? (newest.value as StoredSandwich).timestamp : null,
+    };
+  };
+
+  const deleteWhere = async (range: IDBKeyRange | null, direction: IDBCursorDirection, skip: number) => {
+    const db = await dbPromise;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const index = tx.objectStore(STORE_NAME).index('timestamp');
+    let seen = 0;
+    let deleted = 0;
+    const request = index.openCursor(range, direction);
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      if (seen >= skip) {
+        cursor.delete();
+        deleted++;
+      }
+      seen++;
+      cursor.continue();
+    };
+    await transactionDone(tx);
+    return deleted;
+  };
+
+  const deleteOlderThan = (timestamp: number) => deleteWhere(IDBKeyRange.upperBound(timestamp, true), 'next', 0);
+
+  const trimTo = (maxEntries: number) => deleteWhere(null, 'prev', maxEntries);
+
+  const clear = async () => {
+    const db = await dbPromise;
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    tx.objectStore(STORE_NAME).clear();
+    await transactionDone(tx);
+  };
+
+  const close = () => {
+    dbPromise.then(db => db.close()).catch(() => {});
+  };
+
+  return { put, query, count, walk, stats, deleteOlderThan, trimTo, clear, close };
+};
+
+// A read of the history can start before the newest live sandwiches are written, those go ahead of what it returned
+export const withLiveSandwiches = (stored: SandwichData[], live: SandwichData[]): SandwichData[] => {
+  const storedSlots = new Set(stored.map(s => s.data.sandwich.slot));
+  return [...live.filter(s => !storedSlots.has(s.data.sandwich.slot)), ...stored];
+};
+
+// Apply the retention settings: drop sandwiches past retentionDays, then anything beyond maxEntries
+export const compactStore = async (store: SandwichStore, retentionDays: number, maxEntries: number): Promise<number> => {
+  const cutoff = Math.floor(Date.now() / 1000) - retentionDays * 24 * 60 * 60;
+  const expired = await store.deleteOlderThan(cutoff);
+  const trimmed = await store.trimTo(maxEntries);
+  return expired + trimmed;
+};
@@ -0,0 +1,90 @@
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; reason: string };
+
+// Checks an unknown value found at `path`, the path ends up in rejection reasons
+export type Validator<T> = (value: unknown, path: string) => ValidationResult<T>;
+
+// One validator per field, optional fields included, so a schema can't silently miss part of its type
+export type Shape<T> = { [K in keyof T]-?: Validator<T[K]> };
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown) => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  return typeof value;
+};
+
+export const valid = <T>(value: T): ValidationResult<T> => ({ ok: true, value });
+
+// An empty path is the root of a feed message
+export const invalid = (path: string, expected: string, value: unknown): { ok: false; reason: string } => ({
+  ok: false,
+  reason: `${path || 'message'}: expected ${expected}, got ${describe(value)}`,
+});
+
+const fieldPath = (path: string, key: string) => (path ? `${path}.${key}` : key);
+
+export const number: Validator<number> = (value, path) =>
+  typeof value === 'number' && Number.isFinite(value) ? valid(value) : invalid(path, 'a number', value);
+
+export const string: Validator<string> = (value, path) =>
+  typeof value === 'string' ? valid(value) : invalid(path, 'a string', value);
+
+export const boolean: Validator<boolean> = (value, path) =>
+  typeof value === 'boolean' ? valid(value) : invalid(path, 'a boolean', value);
+
+// Bots in other languages send null for missing fields, so it counts as absent
+export const optional = <T>(validator: Validator<T>): Validator<T | undefined> => (value, path) =>
+  value === undefined || value === null ? valid(undefined) : validator(value, path);
+
+export const withDefault = <T>(validator: Validator<T>, fallback: T): Validator<T> => (value, path) =>
+  value === undefined || value === null ? valid(fallback) : validator(value, path);
+
+export const arrayOf = <T>(validator: Validator<T>): Validator<T[]> => (value, path) => {
+  if (!Array.isArray(value)) return invalid(path, 'an array', value);
+  const items: T[] = [];
+  for (let i = 0; i < value.length; i++) {
+    const item = validator(value[i], `${path}[${i}]`);
+    if (!item.ok) return item;
+    items.push(item.value);
+  }
+  return valid(items);
+};
+
+// Fields outside the shape are passed through, so a bot adding fields doesn't break older dashboards
+export const object = <T>(shape: Shape<T>): Validator<T> => (value, path) => {
+  if (!isRecord(value)) return invalid(path, 'an object', value);
+  const result: Record<string, unknown> = { ...value };
+  for (const key of Object.keys(shape) as (keyof T & string)[]) {
+    const field = shape[key](value[key], fieldPath(path, key));
+    if (!field.ok) return field;
+    if (field.value === undefined) {
+      delete result[key];
+    } else {
+      result[key] = field.value;
+    }
+  }
+  return valid(result as T);
+};
+
+// For input the dashboard writes itself, where a field outside the shape is a mistake
+export const exactObject = <T>(shape: Shape<T>): Validator<T> => (value, path) => {
+  const unknown = isRecord(value) ? Object.keys(value).find(key => !(key in shape)) : undefined;
+  return unknown === undefined ? object(shape)(value, path) : { ok: false, reason: `${fieldPath(path, unknown)}: unknown field` };
+};
+
+export const oneOf = <T extends string>(values: readonly T[]): Validator<T> => (value, path) =>
+  values.includes(value as T) ? valid(value as T) : invalid(path, `one of ${values.join(', ')}`, value);
+
+export const recordOf = <T>(validator: Validator<T>): Validator<Record<string, T>> => (value, path) => {
+  if (!isRecord(value)) return invalid(path, 'an object', value);
+  const result: Record<string, T> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const field = validator(item, fieldPath(path, key));
+    if (!field.ok) return field;
+    result[key] = field.value;
+  }
+  return valid(result);
+};
@@ -0,0 +1,20 @@
+import { defaultSettings, sharedPart } from '../store/settingsSlice';
+import { validateSharedSettings } from './settingsSchema';
+
+describe('validateSharedSettings', () => {
+  it('accepts what the dashboard saves', () => {
+    const shared = sharedPart({ ...defaultSettings, tokenDecimalOverrides: { Mint1: 6 } });
+    expect(validateSharedSettings(shared)).toEqual({ ok: true, value: shared });
+  });
+
+  it('names the first field that is unknown or of the wrong type', () => {
+    expect(validateSharedSettings({ timezone: 'utc' })).toEqual({ ok: false, reason: 'settings.timezone: unknown field' });
+    expect(validateSharedSettings({ alerts: { ...defaultSettings.alerts, rules: [{ id: 'x', type: 'priceDrop' }] } }))
+      .toEqual({
+        ok: false,
+        reason: 'settings.alerts.rules[0].type: expected one of balanceDrop, feedSilence, fallbackMode, lowProfit, got string "priceDrop"',
+      });
+    expect(validateSharedSettings({ pricing: { ...defaultSettings.pricing, staticPrices: { Mint1: '1.5' } } }))
+      .toEqual({ ok: false, reason: 'settings.pricing.staticPrices.Mint1: expected a number, got string "1.5"' });
+  });
+});
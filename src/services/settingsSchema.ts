@@ -0,0 +1,40 @@
+import { HistorySettings, Settings } from '../store/settingsSlice';
+import { OperatorSettingKey } from '../types/auth';
+import { ALERT_RULE_DEFINITIONS, AlertRule, AlertRuleType, AlertSettings } from './alertRules';
+import { PriceSourceId, PricingSettings } from './priceSource';
+import { arrayOf, boolean, exactObject, invalid, number, oneOf, optional, recordOf, string, valid, ValidationResult, Validator } from './schema';
+
+export type SharedSettingValues = Partial<Pick<Settings, OperatorSettingKey>>;
+
+const decimals: Validator<number> = (value, path) =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 18
+    ? valid(value)
+    : invalid(path, 'an integer from 0 to 18', value);
+
+const sharedSettings = exactObject<SharedSettingValues>({
+  alerts: optional(exactObject<AlertSettings>({
+    rules: arrayOf(exactObject<AlertRule>({
+      id: string,
+      type: oneOf(Object.keys(ALERT_RULE_DEFINITIONS) as AlertRuleType[]),
+      enabled: boolean,
+      threshold: number,
+      windowMinutes: number,
+    })),
+    sound: boolean,
+    browserNotifications: boolean,
+  })),
+  pricing: optional(exactObject<PricingSettings>({
+    source: oneOf<PriceSourceId>(['prometheus', 'static']),
+    prometheusMetric: string,
+    staticPrices: recordOf(number),
+  })),
+  history: optional(exactObject<HistorySettings>({
+    retentionDays: number,
+    maxEntries: number,
+  })),
+  tokenDecimalOverrides: optional(recordOf(decimals)),
+});
+
+// Checks a PUT /settings body: operator settings only, each complete and of its type
+export const validateSharedSettings = (value: unknown): ValidationResult<SharedSettingValues> =>
+  sharedSettings(value, 'settings');
@@ -0,0 +1,61 @@
+import { TOKEN_LIST } from '../data/tokenList';
+import { SandwichData } from '../types/sandwich';
+
+export type DecimalsSource = 'override' | 'feed' | 'cache' | 'list' | 'pump' | 'default';
+
+export interface TokenInfo {
+  mint: string;
+  decimals: number;
+  source: DecimalsSource;
+}
+
+// Mint -> decimals
+export type DecimalsMap = Record<string, number>;
+
+// Used when nothing is known about a mint, same as SOL
+export const DEFAULT_DECIMALS = 9;
+
+// pump.fun mints end in "pump" and are always created with 6 decimals
+const PUMP_DECIMALS = 6;
+
+const tokenListDecimals: DecimalsMap = TOKEN_LIST.reduce(
+  (acc, entry) => ({ ...acc, [entry.mint]: entry.decimals }),
+  {} as DecimalsMap
+);
+
+const isValidDecimals = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= 18;
+
+export const payloadDecimals = (sandwich: SandwichData): number | undefined => {
+  const decimals = sandwich.data.permanentTokenData?.rawTokenMetadata?.decimals;
+  return isValidDecimals(decimals) ? decimals : undefined;
+};
+
+// Resolution order: manual override, feed payload, learned cache, bundled list, pump heuristic, default
+export const resolveToken = (
+  mint: string,
+  overrides: DecimalsMap,
+  cache: DecimalsMap,
+  fromPayload?: number
+): TokenInfo => {
+  if (isValidDecimals(overrides[mint])) return { mint, decimals: overrides[mint], source: 'override' };
+  if (isValidDecimals(fromPayload)) return { mint, decimals: fromPayload, source: 'feed' };
+  if (isValidDecimals(cache[mint])) return { mint, decimals: cache[mint], source: 'cache' };
+  if (isValidDecimals(tokenListDecimals[mint])) return { mint, decimals: tokenListDecimals[mint], source: 'list' };
+  if (mint.endsWith('pump')) return { mint, decimals: PUMP_DECIMALS, source: 'pump' };
+  return { mint, decimals: DEFAULT_DECIMALS, source: 'default' };
+};
+
+// Collect decimals the feed sent for mints not yet in the cache, null if nothing is new
+export const learnDecimals = (cache: DecimalsMap, sandwiches: SandwichData[]): DecimalsMap | null => {
+  let next: DecimalsMap | null = null;
+  for (const s of sandwiches) {
+    const decimals = payloadDecimals(s);
+    const mint = s.data.sandwich.mint;
+    if (decimals !== undefined && cache[mint] !== decimals) {
+      next = next ?? { ...cache };
+      next[mint] = decimals;
+    }
+  }
+  return next;
+};
@@ -0,0 +1,35 @@
+import { ENVIRONMENTS } from '../config';
+import balanceSlice, { balanceFailed, balanceFetched, selectBalanceUpdatedAt, selectLiveBalance } from './balanceSlice';
+import { Connection, connected } from './connection';
+
+const samples = [
+  { labels: { wallet: 'a' }, value: 1.5 },
+  { labels: { wallet: 'b' }, value: 2 },
+];
+
+const fetched = balanceSlice.reducer(undefined, balanceFetched({ samples, fetchedAt: 1000 }));
+
+describe('balanceSlice', () => {
+  it('sums the series matching the filter', () => {
+    expect(selectLiveBalance({ balance: fetched })).toBe(3.5);
+    expect(selectLiveBalance({ balance: fetched }, { label: 'wallet', value: 'b' })).toBe(2);
+    expect(selectLiveBalance({ balance: fetched }, { label: 'wallet', value: 'c' })).toBeNull();
+  });
+
+  it('is null before the first fetch', () => {
+    expect(selectLiveBalance({ balance: balanceSlice.getInitialState() })).toBeNull();
+  });
+
+  it('keeps the last balance and its time when a fetch fails', () => {
+    const failed = balanceSlice.reducer(fetched, balanceFailed('timeout'));
+    expect(selectLiveBalance({ balance: failed })).toBe(3.5);
+    expect(selectBalanceUpdatedAt({ balance: failed })).toBe(1000);
+    expect(failed.error).toBe('timeout');
+    expect(balanceSlice.reducer(failed, balanceFetched({ samples, fetchedAt: 2000 })).error).toBeNull();
+  });
+
+  it('forgets the balance of the previous connection', () => {
+    const state = balanceSlice.reducer(fetched, connected({ environment: ENVIRONMENTS[0], token: null, role: 'operator', connection: {} as Connection }));
+    expect(state).toEqual(balanceSlice.getInitialState());
+  });
+});
@@ -0,0 +1,42 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { LabelFilter, SeriesSample, sumSamples } from '../utils/series';
+import { connected } from './connection';
+
+export interface BalanceState {
+  // sandwich_bank_balance_amount per series, in SOL
+  samples: SeriesSample[];
+  // Time of the last successful fetch
+  updatedAt: number | null;
+  error: string | null;
+}
+
+const initialState: BalanceState = { samples: [], updatedAt: null, error: null };
+
+const balanceSlice = createSlice({
+  name: 'balance',
+  initialState,
+  reducers: {
+    balanceFetched: (state, action: PayloadAction<{ samples: SeriesSample[]; fetchedAt: number }>) => {
+      state.samples = action.payload.samples;
+      state.updatedAt = action.payload.fetchedAt;
+      state.error = null;
+    },
+    // The last balance is kept, the stale badge tells how old it is
+    balanceFailed: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    // Another environment's balance must not show while the new one loads
+    builder.addCase(connected, () => initialState);
+  },
+  selectors: {
+    // Summed over the series matching the filter, null before the first fetch or when none match
+    selectLiveBalance: (state, filter: LabelFilter | null = null) => sumSamples(state.samples, filter),
+    selectBalanceUpdatedAt: (state) => state.updatedAt,
+  },
+});
+
+export const { balanceFetched, balanceFailed } = balanceSlice.actions;
+export const { selectLiveBalance, selectBalanceUpdatedAt } = balanceSlice.selectors;
+export default balanceSlice;
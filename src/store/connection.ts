@@ -0,0 +1,38 @@
+import { createAction } from '@reduxjs/toolkit';
+import { PrometheusDriver } from 'prometheus-query';
+import { Environment, isDashboardServerUrl } from '../config';
+import { PromQueryClient } from '../services/promQueryClient';
+import { browserSocket, FeedSocketFactory } from '../services/sandwichFeed';
+import { Role } from '../types/auth';
+
+// What the listeners of one connection talk to. The environment's own Prometheus client, so the store's queries
+// are counted, cached and deduplicated with the pages' and a rejected token expires the session.
+export interface Connection {
+  prom: PrometheusDriver;
+  queryClient: PromQueryClient;
+  createSocket: FeedSocketFactory;
+}
+
+export interface ConnectionParams {
+  environment: Environment;
+  // Null without a dashboard server
+  token: string | null;
+  role: Role | null;
+  connection: Connection;
+}
+
+// Starts the feed, the pollers and the settings sync for a signed-in session, ending those of the previous one
+export const connected = createAction<ConnectionParams>('connection/connected');
+export const disconnected = createAction('connection/disconnected');
+
+// Browsers can't set headers on WebSockets, so the token goes in the query string
+const withToken = (url: string, token: string) => {
+  const parsed = new URL(url);
+  parsed.searchParams.set('token', token);
+  return parsed.toString();
+};
+
+// Status keeps reporting the plain URL, so the token never shows up in the UI. Bots connected to directly
+// don't get it at all.
+export const browserFeedSocket = (token: string | null): FeedSocketFactory =>
+  (url, handlers) => browserSocket(token && isDashboardServerUrl(url) ? withToken(url, token) : url, handlers);
@@ -0,0 +1,81 @@
+import { makeSandwich } from '../testing/fixtures';
+import { FeedEvent } from '../types/feed';
+import feedSlice, {
+  eventReceived,
+  FEED_LIMIT,
+  feedReset,
+  FeedSliceState,
+  messageRejected,
+  QUARANTINE_LIMIT,
+  quarantineCleared,
+  replayStatusChanged,
+  sandwichReceived,
+  selectFeedEvents,
+  selectQuarantine,
+  selectReplayStatus,
+  selectSandwiches,
+  statusChanged,
+} from './feedSlice';
+
+const reduce = (...actions: Parameters<typeof feedSlice.reducer>[1][]) =>
+  actions.reduce<FeedSliceState>(feedSlice.reducer, feedSlice.getInitialState());
+
+const rejected = (data: string) => ({ receivedAt: 0, data, source: 'WebSocket' as const, reason: 'invalid', schemaVersion: null });
+
+const tip = (slot: number): FeedEvent => ({
+  kind: 'tip',
+  payload: { type: 'tip', data: { slot, timestamp: 1700000000 + slot, tipAmount: 1000 } },
+});
+
+describe('feedSlice', () => {
+  it('puts new sandwiches first and ignores slots it already holds', () => {
+    const state = reduce(sandwichReceived(makeSandwich(1)), sandwichReceived(makeSandwich(2)), sandwichReceived(makeSandwich(1)));
+    expect(selectSandwiches({ feed: state }).map(s => s.data.sandwich.slot)).toEqual([2, 1]);
+  });
+
+  it('keeps the newest sandwiches and events up to the limit', () => {
+    const slots = Array.from({ length: FEED_LIMIT + 5 }, (_, i) => i);
+    const state = reduce(
+      ...slots.map(slot => sandwichReceived(makeSandwich(slot))),
+      ...slots.map(slot => eventReceived(tip(slot)))
+    );
+    expect(state.sandwiches).toHaveLength(FEED_LIMIT);
+    expect(state.sandwiches[0].data.sandwich.slot).toBe(FEED_LIMIT + 4);
+    expect(selectFeedEvents({ feed: state })).toHaveLength(FEED_LIMIT);
+  });
+
+  it('dedupes events by their key', () => {
+    const state = reduce(eventReceived(tip(1)), eventReceived(tip(1)), eventReceived({ kind: 'sandwich', payload: makeSandwich(1) }));
+    expect(state.events.map(e => e.kind)).toEqual(['sandwich', 'tip']);
+  });
+
+  it('restarts from the given sandwiches, as events too, with an empty quarantine', () => {
+    const state = reduce(eventReceived(tip(9)), messageRejected(rejected('{}')), feedReset([makeSandwich(3), makeSandwich(2)]));
+    expect(state.sandwiches.map(s => s.data.sandwich.slot)).toEqual([3, 2]);
+    expect(state.events).toEqual([
+      { kind: 'sandwich', payload: makeSandwich(3) },
+      { kind: 'sandwich', payload: makeSandwich(2) },
+    ]);
+    expect(selectQuarantine({ feed: state })).toEqual([]);
+  });
+
+  it('leaves the status alone on reset, the new feed reports its own', () => {
+    const status = { state: 'open' as const, url: 'ws://bot', reconnectAttempts: 0, lastMessageAt: 5, rejectedMessages: 0 };
+    expect(reduce(statusChanged(status), feedReset([])).status).toEqual(status);
+  });
+
+  it('quarantines the newest rejected messages up to the limit until cleared', () => {
+    const messages = Array.from({ length: QUARANTINE_LIMIT + 1 }, (_, i) => messageRejected(rejected(String(i))));
+    const state = reduce(...messages);
+    expect(state.quarantine).toHaveLength(QUARANTINE_LIMIT);
+    expect(state.quarantine[0].data).toBe(String(QUARANTINE_LIMIT));
+    expect(feedSlice.reducer(state, quarantineCleared()).quarantine).toEqual([]);
+  });
+
+  it('tracks the replay until it is cleared', () => {
+    const status = { playing: true, position: 3, total: 10, speed: 1 as const, currentTime: null };
+    const state = reduce(replayStatusChanged(status));
+    expect(selectReplayStatus({ feed: state })).toEqual(status);
+    expect(selectReplayStatus({ feed: feedSlice.reducer(state, replayStatusChanged(null)) })).toBeNull();
+  });
+});
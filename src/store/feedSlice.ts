@@ -0,0 +1,111 @@
+import { createAction, createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { eventKey } from '../services/feedEvents';
+import { RecorderStatus, ReplaySpeed, ReplayStatus } from '../services/feedReplay';
+import { FeedMessage, FeedStatus, RejectedMessage } from '../services/sandwichFeed';
+import { FeedEvent } from '../types/feed';
+import { SandwichData } from '../types/sandwich';
+
+// Newest sandwiches and events kept for the pages, older sandwiches are read from the IndexedDB history
+export const FEED_LIMIT = 50;
+// Newest rejected messages kept for the quarantine, the feed status counts all of them
+export const QUARANTINE_LIMIT = 100;
+
+export interface FeedSliceState {
+  sandwiches: SandwichData[];
+  // Newest events of every kind for the Live Feed
+  events: FeedEvent[];
+  status: FeedStatus;
+  // Newest messages that failed validation, newest first
+  quarantine: RejectedMessage[];
+  // Set while a recording is played instead of the live sockets
+  replay: ReplayStatus | null;
+  recording: RecorderStatus;
+}
+
+const initialState: FeedSliceState = {
+  sandwiches: [],
+  events: [],
+  status: { state: 'stopped', url: null, reconnectAttempts: 0, lastMessageAt: null, rejectedMessages: 0 },
+  quarantine: [],
+  replay: null,
+  recording: { recording: false, count: 0, startedAt: null },
+};
+
+const feedSlice = createSlice({
+  name: 'feed',
+  initialState,
+  reducers: {
+    // A new feed starts from the stored sandwiches, only sandwiches are persisted so restored events start as those
+    feedReset: (state, action: PayloadAction<SandwichData[]>) => {
+      state.sandwiches = action.payload.slice(0, FEED_LIMIT);
+      state.events = state.sandwiches.map(payload => ({ kind: 'sandwich' as const, payload }));
+      // Kept per feed, in step with its rejected counter
+      state.quarantine = [];
+    },
+    // The feed dedupes recent slots, this also covers sandwiches restored from storage
+    sandwichReceived: (state, action: PayloadAction<SandwichData>) => {
+      const slot = action.payload.data.sandwich.slot;
+      if (state.sandwiches.some(s => s.data.sandwich.slot === slot)) return;
+      state.sandwiches = [action.payload, ...state.sandwiches].slice(0, FEED_LIMIT);
+    },
+    eventReceived: (state, action: PayloadAction<FeedEvent>) => {
+      const key = eventKey(action.payload);
+      if (state.events.some(e => eventKey(e) === key)) return;
+      state.events = [action.payload, ...state.events].slice(0, FEED_LIMIT);
+    },
+    statusChanged: (state, action: PayloadAction<FeedStatus>) => {
+      state.status = action.payload;
+    },
+    messageRejected: (state, action: PayloadAction<RejectedMessage>) => {
+      state.quarantine = [action.payload, ...state.quarantine].slice(0, QUARANTINE_LIMIT);
+    },
+    quarantineCleared: (state) => {
+      state.quarantine = [];
+    },
+    replayStatusChanged: (state, action: PayloadAction<ReplayStatus | null>) => {
+      state.replay = action.payload;
+    },
+    recordingStatusChanged: (state, action: PayloadAction<RecorderStatus>) => {
+      state.recording = action.payload;
+    },
+  },
+  selectors: {
+    selectSandwiches: (state) => state.sandwiches,
+    selectFeedEvents: (state) => state.events,
+    selectFeedStatus: (state) => state.status,
+    selectQuarantine: (state) => state.quarantine,
+    selectReplayStatus: (state) => state.replay,
+    selectRecordingStatus: (state) => state.recording,
+  },
+});
+
+// Commands for the feed listener, which holds the recorder and the replay and reports back through the reducers above
+export const replayStarted = createAction<FeedMessage[]>('feed/replayStarted');
+export const replayStopped = createAction('feed/replayStopped');
+export const replayPlayed = createAction('feed/replayPlayed');
+export const replayPaused = createAction('feed/replayPaused');
+export const replaySought = createAction<number>('feed/replaySought');
+export const replaySpeedChanged = createAction<ReplaySpeed>('feed/replaySpeedChanged');
+export const recordingStarted = createAction('feed/recordingStarted');
+// Downloads what was recorded
+export const recordingStopped = createAction('feed/recordingStopped');
+
+export const {
+  feedReset,
+  sandwichReceived,
+  eventReceived,
+  statusChanged,
+  messageRejected,
+  quarantineCleared,
+  replayStatusChanged,
+  recordingStatusChanged,
+} = feedSlice.actions;
+export const {
+  selectSandwiches,
+  selectFeedEvents,
+  selectFeedStatus,
+  selectQuarantine,
+  selectReplayStatus,
+  selectRecordingStatus,
+} = feedSlice.selectors;
+export default feedSlice;
@@ -0,0 +1,36 @@
+import { useCallback, useEffect } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { useAuth } from '../context/AuthContext';
+import { useEnvironment } from '../context/EnvironmentContext';
+import { browserFeedSocket, connected, disconnected } from './connection';
+import { selectSettings, Settings, settingsUpdated } from './settingsSlice';
+import type { AppDispatch, RootState } from './index';
+
+export const useAppDispatch = useDispatch.withTypes<AppDispatch>();
+export const useAppSelector = useSelector.withTypes<RootState>();
+
+export const useSettings = () => {
+  const settings = useAppSelector(selectSettings);
+  const dispatch = useAppDispatch();
+  const updateSettings = useCallback((changes: Partial<Settings>) => {
+    dispatch(settingsUpdated(changes));
+  }, [dispatch]);
+  return { settings, updateSettings };
+};
+
+// Keeps the store connected to the selected environment while someone is signed in
+export const useConnection = () => {
+  const dispatch = useAppDispatch();
+  const { environment, prom, queryClient } = useEnvironment();
+  const { user, token } = useAuth();
+  const role = user?.role ?? null;
+
+  useEffect(() => {
+    if (!role) return;
+    dispatch(connected({ environment, token, role, connection: { prom, queryClient, createSocket: browserFeedSocket(token) } }));
+
+    return () => {
+      dispatch(disconnected());
+    };
+  }, [dispatch, environment, token, role, prom, queryClient]);
+};
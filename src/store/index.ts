@@ -0,0 +1,32 @@
+import { combineSlices, configureStore, createListenerMiddleware } from '@reduxjs/toolkit';
+import balanceSlice from './balanceSlice';
+import feedSlice, { replayStarted } from './feedSlice';
+import { addAppListeners, AppStartListening } from './listeners';
+import metricsSlice from './metricsSlice';
+import settingsSlice from './settingsSlice';
+
+const rootReducer = combineSlices(feedSlice, balanceSlice, metricsSlice, settingsSlice);
+
+export type RootState = ReturnType<typeof rootReducer>;
+
+// State every page shares, with the connections behind it run by listeners rather than components
+export const createAppStore = (preloadedState?: Partial<RootState>) => {
+  const listenerMiddleware = createListenerMiddleware();
+  const store = configureStore({
+    reducer: rootReducer,
+    preloadedState,
+    middleware: (getDefaultMiddleware) => getDefaultMiddleware({
+      serializableCheck: {
+        // Recordings can hold a hundred thousand messages, too many to check on every replay
+        ignoredActions: [replayStarted.type],
+        // The environment's Prometheus client and socket factory, handed to the listeners and never kept in state
+        ignoredActionPaths: ['payload.connection'],
+      },
+    }).prepend(listenerMiddleware.middleware),
+  });
+  addAppListeners(listenerMiddleware.startListening as AppStartListening);
+  return store;
+};
+
+export type AppStore = ReturnType<typeof createAppStore>;
+export type AppDispatch = AppStore['dispatch'];
@@ -0,0 +1,189 @@
+import axios, { AxiosError } from 'axios';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { PrometheusDriver } from 'prometheus-query';
+import { WebSocketServer } from 'ws';
+import { nodeSocket } from '../../server/nodeSocket';
+import { ENVIRONMENTS, Environment } from '../config';
+import { createPrometheusClient } from '../services/prometheusClient';
+import { createPromQueryClient } from '../services/promQueryClient';
+import { FeedState } from '../services/sandwichFeed';
+import { makeSandwich } from '../testing/fixtures';
+import { selectLiveBalance } from './balanceSlice';
+import { Connection, connected, disconnected } from './connection';
+import { replayStarted, replayStopped, selectFeedStatus, selectReplayStatus, selectSandwiches } from './feedSlice';
+import { AppStore, createAppStore } from './index';
+import { selectProfit } from './metricsSlice';
+
+const waitFor = async (check: () => boolean, timeoutMs: number = 2000) => {
+  const started = Date.now();
+  while (!check()) {
+    if (Date.now() - started > timeoutMs) throw new Error('Timed out waiting for the condition');
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+// Nothing listens there, so connecting fails right away
+const DEAD_URL = 'ws://127.0.0.1:1';
+
+// Retries within the test timeouts, fallback polling stays out of the way
+const FAST_RECONNECT = {
+  maxAttempts: 2,
+  delayMs: 10,
+  backoffMultiplier: 1,
+  maxDelayMs: 10,
+  jitter: 0,
+  periodicReconnectMs: 60000,
+  fallbackPollMs: 60000,
+};
+
+// Every instant query returns one series, profit windows the profit and anything else the balance
+const fakeConnection = (balance: number, profit: number): Connection => {
+  const prom = {
+    instantQuery: async (query: string) => ({
+      resultType: 'vector',
+      result: [{ metric: { labels: {} }, value: { value: query.startsWith('increase') ? profit : balance } }],
+    }),
+  } as unknown as PrometheusDriver;
+  return { prom, queryClient: createPromQueryClient(() => prom), createSocket: nodeSocket };
+};
+
+describe('store listeners', () => {
+  let server: WebSocketServer;
+  let environment: Environment;
+  let store: AppStore;
+
+  const connect = (connection: Connection, id: string = environment.id) =>
+    store.dispatch(connected({ environment: { ...environment, id }, token: null, role: 'operator', connection }));
+
+  // Every feed state the store goes through from now on, repeats left out
+  const recordStates = () => {
+    const states: FeedState[] = [selectFeedStatus(store.getState()).state];
+    store.subscribe(() => {
+      const { state } = selectFeedStatus(store.getState());
+      if (states[states.length - 1] !== state) states.push(state);
+    });
+    return states;
+  };
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    server = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+    await once(server, 'listening');
+    const url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    environment = { ...ENVIRONMENTS[0], id: 'test', primaryWsUrl: url, fallbackWsUrl: url, reconnect: FAST_RECONNECT };
+    store = createAppStore();
+  });
+
+  afterEach(async () => {
+    store.dispatch(disconnected());
+    server.clients.forEach(socket => socket.terminate());
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('runs the feed and the pollers without any component', async () => {
+    connect(fakeConnection(12, 3));
+    await waitFor(() => server.clients.size === 1);
+    server.clients.forEach(socket => socket.send(JSON.stringify(makeSandwich(7))));
+
+    await waitFor(() => selectSandwiches(store.getState()).length === 1);
+    await waitFor(() => selectLiveBalance(store.getState()) === 12 && selectProfit(store.getState(), '1h') === 3);
+  });
+
+  it('closes the socket on disconnect', async () => {
+    connect(fakeConnection(12, 3));
+    await waitFor(() => server.clients.size === 1);
+
+    store.dispatch(disconnected());
+    await waitFor(() => server.clients.size === 0);
+    expect(selectFeedStatus(store.getState()).state).toBe('stopped');
+  });
+
+  it('reconnects after the socket drops and keeps receiving', async () => {
+    const states = recordStates();
+    connect(fakeConnection(12, 3));
+    await waitFor(() => server.clients.size === 1);
+    server.clients.forEach(socket => socket.terminate());
+
+    await waitFor(() => states.length === 5);
+    expect(states).toEqual(['stopped', 'connecting', 'open', 'reconnecting', 'open']);
+    await waitFor(() => server.clients.size === 1);
+    server.clients.forEach(socket => socket.send(JSON.stringify(makeSandwich(8))));
+    await waitFor(() => selectSandwiches(store.getState()).length === 1);
+  });
+
+  it('fails over to the fallback URL when the primary is down', async () => {
+    const states = recordStates();
+    const fallbackUrl = environment.fallbackWsUrl;
+    environment = { ...environment, primaryWsUrl: DEAD_URL };
+    connect(fakeConnection(12, 3));
+
+    await waitFor(() => selectFeedStatus(store.getState()).state === 'open');
+    expect(states).toEqual(['stopped', 'connecting', 'reconnecting', 'open']);
+    expect(selectFeedStatus(store.getState()).url).toBe(fallbackUrl);
+  });
+
+  it('polls Prometheus once the reconnect attempts run out', async () => {
+    const states = recordStates();
+    environment = { ...environment, primaryWsUrl: DEAD_URL, fallbackWsUrl: DEAD_URL };
+    connect(fakeConnection(12, 3));
+
+    await waitFor(() => selectFeedStatus(store.getState()).state === 'polling-fallback');
+    expect(states).toEqual(['stopped', 'connecting', 'reconnecting', 'polling-fallback']);
+    expect(selectFeedStatus(store.getState()).reconnectAttempts).toBe(FAST_RECONNECT.maxAttempts);
+  });
+
+  it('stops when the server closes the socket normally', async () => {
+    const states = recordStates();
+    connect(fakeConnection(12, 3));
+    await waitFor(() => server.clients.size === 1);
+    server.clients.forEach(socket => socket.close(1000));
+
+    await waitFor(() => selectFeedStatus(store.getState()).state === 'stopped');
+    expect(states).toEqual(['stopped', 'connecting', 'open', 'stopped']);
+  });
+
+  it('replaces the connection of the previous environment', async () => {
+    connect(fakeConnection(12, 3));
+    await waitFor(() => selectLiveBalance(store.getState()) === 12);
+
+    connect(fakeConnection(40, 1), 'other');
+    await waitFor(() => selectLiveBalance(store.getState()) === 40);
+    // The old socket is closed once the new one is open
+    await waitFor(() => server.clients.size === 1);
+  });
+
+  it('plays a recording in place of the socket and goes back to live', async () => {
+    connect(fakeConnection(12, 3));
+    await waitFor(() => server.clients.size === 1);
+
+    store.dispatch(replayStarted([{ receivedAt: 1000, data: JSON.stringify(makeSandwich(3)) }]));
+    expect(selectReplayStatus(store.getState())?.total).toBe(1);
+    await waitFor(() => server.clients.size === 0);
+
+    store.dispatch(replayStopped());
+    expect(selectReplayStatus(store.getState())).toBeNull();
+    await waitFor(() => server.clients.size === 1);
+  });
+
+  it('expires the session when Prometheus rejects the token while polling', async () => {
+    // Answers every request of the environment's Prometheus client with a 401
+    const adapter = axios.defaults.adapter;
+    axios.defaults.adapter = async (config) => {
+      const response = { data: {}, status: 401, statusText: 'Unauthorized', headers: {}, config };
+      throw new AxiosError('Request failed with status code 401', AxiosError.ERR_BAD_REQUEST, config, null, response);
+    };
+    const expireSession = jest.fn();
+
+    try {
+      const client = createPrometheusClient(environment, null, expireSession);
+      connect({ prom: client.prom, queryClient: client.queryClient, createSocket: nodeSocket });
+      await waitFor(() => store.getState().balance.error !== null);
+      expect(expireSession).toHaveBeenCalled();
+    } finally {
+      axios.defaults.adapter = adapter;
+    }
+  });
+});
@@ -0,0 +1,330 @@
+import { Dispatch, ForkedTaskAPI, isAnyOf, TypedStartListening, UnknownAction } from '@reduxjs/toolkit';
+import { toast } from 'react-toastify';
+import { AUTH_URL } from '../config';
+import { createFeedRecorder, createFeedReplay, FeedReplay, toNdjson } from '../services/feedReplay';
+import { PromQueryClient } from '../services/promQueryClient';
+import { createPrometheusFallback, createSandwichFeed, FeedMessage } from '../services/sandwichFeed';
+import { SharedSettings } from '../types/auth';
+import { SandwichData } from '../types/sandwich';
+import { downloadFile } from '../utils/export';
+import { instantSamples } from '../utils/series';
+import { balanceFailed, balanceFetched } from './balanceSlice';
+import { ConnectionParams, connected, disconnected } from './connection';
+import {
+  eventReceived,
+  FEED_LIMIT,
+  feedReset,
+  messageRejected,
+  recordingStarted,
+  recordingStatusChanged,
+  recordingStopped,
+  replayPaused,
+  replayPlayed,
+  replaySought,
+  replaySpeedChanged,
+  replayStarted,
+  replayStatusChanged,
+  replayStopped,
+  sandwichReceived,
+  statusChanged,
+} from './feedSlice';
+import { metricsFailed, PROFIT_WINDOWS, profitFetched } from './metricsSlice';
+import { saveSettings, settingsUpdated, sharedPart, sharedSettingsLoaded } from './settingsSlice';
+import type { RootState } from './index';
+
+export type AppStartListening = TypedStartListening<RootState>;
+
+const BALANCE_REFRESH = 30 * 1000;
+const PROFIT_REFRESH = 60 * 1000;
+
+// Key for localStorage, suffixed with the environment id
+const SANDWICHES_STORAGE_KEY = 'sandwichesData';
+
+const storageKey = (environmentId: string) => `${SANDWICHES_STORAGE_KEY}.${environmentId}`;
+
+// The newest sandwiches of the environment, shown before its socket delivers any
+const loadStoredSandwiches = (environmentId: string): SandwichData[] => {
+  try {
+    const storedData = localStorage.getItem(storageKey(environmentId));
+    if (storedData) {
+      const parsedData = JSON.parse(storedData);
+      if (Array.isArray(parsedData)) {
+        return parsedData.slice(0, FEED_LIMIT);
+      }
+    }
+  } catch (error) {
+    console.error('Error reading sandwiches from localStorage:', error);
+  }
+  return [];
+};
+
+const saveStoredSandwiches = (environmentId: string, sandwiches: SandwichData[]) => {
+  try {
+    localStorage.setItem(storageKey(environmentId), JSON.stringify(sandwiches.slice(0, FEED_LIMIT)));
+  } catch (error) {
+    console.error('Error saving sandwiches to localStorage:', error);
+  }
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+// Served from the query client's cache when a page fetched the same query within the last poll
+const fetchInstant = (queryClient: PromQueryClient, query: string, maxAgeMs: number) =>
+  queryClient.fetchQuery({ kind: 'instant', query }, maxAgeMs);
+
+const fetchBalance = async (queryClient: PromQueryClient): Promise<UnknownAction> => {
+  try {
+    const result = await fetchInstant(queryClient, 'sandwich_bank_balance_amount', BALANCE_REFRESH);
+    return balanceFetched({ samples: instantSamples(result), fetchedAt: Date.now() });
+  } catch (error) {
+    console.error('Error fetching live balance:', error);
+    return balanceFailed(errorMessage(error));
+  }
+};
+
+const fetchProfit = async (queryClient: PromQueryClient): Promise<UnknownAction> => {
+  try {
+    const results = await Promise.all(PROFIT_WINDOWS.map(range => Promise.all([
+      fetchInstant(queryClient, `increase(sandwich_possible_profit_total[${range}])`, PROFIT_REFRESH),
+      // The window of the same length right before
+      fetchInstant(queryClient, `increase(sandwich_possible_profit_total[${range}] offset ${range})`, PROFIT_REFRESH),
+    ])));
+    return profitFetched({
+      profit: Object.fromEntries(PROFIT_WINDOWS.map((range, i) => [range, instantSamples(results[i][0])])),
+      previousProfit: Object.fromEntries(PROFIT_WINDOWS.map((range, i) => [range, instantSamples(results[i][1])])),
+      fetchedAt: Date.now(),
+    });
+  } catch (error) {
+    console.error('Error fetching profit per hour:', error);
+    return metricsFailed(errorMessage(error));
+  }
+};
+
+// Unlike forkApi.delay, clears its timer once aborted rather than leaving it to fire
+const wait = (ms: number, signal: AbortSignal) => new Promise<void>(resolve => {
+  const timer = setTimeout(resolve, ms);
+  signal.addEventListener('abort', () => {
+    clearTimeout(timer);
+    resolve();
+  }, { once: true });
+});
+
+// Fetches right away and then every refreshMs until the connection ends
+const poll = (dispatch: Dispatch, refreshMs: number, fetchOnce: () => Promise<UnknownAction>) =>
+  async (forkApi: ForkedTaskAPI) => {
+    while (!forkApi.signal.aborted) {
+      dispatch(await forkApi.pause(fetchOnce()));
+      await wait(refreshMs, forkApi.signal);
+    }
+  };
+
+const loadSharedSettings = async (token: string): Promise<SharedSettings | null> => {
+  try {
+    const response = await fetch(`${AUTH_URL}/settings`, { headers: { Authorization: `Bearer ${token}` } });
+    if (!response.ok) throw new Error(`Loading settings failed (${response.status})`);
+    return await response.json();
+  } catch (error) {
+    console.error('Error loading shared settings:', error);
+    return null;
+  }
+};
+
+const saveSharedSettings = async (token: string, shared: SharedSettings) => {
+  try {
+    const response = await fetch(`${AUTH_URL}/settings`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: JSON.stringify(shared),
+    });
+    if (!response.ok) throw new Error(`Saving settings failed (${response.status})`);
+  } catch (error) {
+    console.error('Error saving shared settings:', error);
+    toast.error('Could not save the settings on the dashboard server', { toastId: 'settings-save-failed' });
+  }
+};
+
+const isFeedCommand = isAnyOf(
+  replayStarted,
+  replayStopped,
+  replayPlayed,
+  replayPaused,
+  replaySought,
+  replaySpeedChanged,
+  recordingStarted,
+  recordingStopped
+);
+
+// The livefeed of one connection with its recorder, and the replay playing in place of the sockets
+const createFeedSession = (
+  { environment, connection }: ConnectionParams,
+  dispatch: Dispatch,
+  getState: () => RootState
+) => {
+  const recorder = createFeedRecorder();
+  const unsubscribeRecorder = recorder.subscribe(() => dispatch(recordingStatusChanged(recorder.getStatus())));
+  let replay: FeedReplay | null = null;
+
+  // Live and replayed messages each go through a feed of their own
+  const openFeed = () => {
+    const feed = createSandwichFeed({
+      primaryUrl: environment.primaryWsUrl,
+      fallbackUrl: environment.fallbackWsUrl,
+      reconnect: environment.reconnect,
+      fetchFallback: createPrometheusFallback(connection.prom),
+      createSocket: connection.createSocket,
+    });
+    const unsubscribes = [
+      feed.on('state', status => dispatch(statusChanged(status))),
+      feed.on('event', event => dispatch(eventReceived(event))),
+      feed.on('sandwich', sandwich => {
+        dispatch(sandwichReceived(sandwich));
+        // Replayed sandwiches are never saved
+        if (!replay) saveStoredSandwiches(environment.id, getState().feed.sandwiches);
+      }),
+      feed.on('rejected', message => dispatch(messageRejected(message))),
+      feed.on('message', recorder.record),
+    ];
+    // Stopped before unsubscribing, so the store doesn't keep the status of a feed that is gone
+    const close = () => {
+      feed.stop();
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+    };
+    return { feed, close };
+  };
+
+  const goLive = () => {
+    dispatch(feedReset(loadStoredSandwiches(environment.id)));
+    const { feed, close } = openFeed();
+    feed.start();
+    return close;
+  };
+
+  const play = (messages: FeedMessage[]) => {
+    const next = createFeedReplay(messages);
+    const { feed, close } = openFeed();
+    const unsubscribeStatus = next.subscribe(() => dispatch(replayStatusChanged(next.getStatus())));
+    replay = next;
+    dispatch(replayStatusChanged(next.getStatus()));
+    const detach = next.attach({
+      reset: () => {
+        feed.startReplay();
+        dispatch(feedReset([]));
+      },
+      ingest: feed.ingest,
+    });
+    return () => {
+      detach();
+      unsubscribeStatus();
+      close();
+    };
+  };
+
+  let closeFeed = goLive();
+
+  const stopReplay = () => {
+    closeFeed();
+    replay = null;
+    dispatch(replayStatusChanged(null));
+    closeFeed = goLive();
+  };
+
+  const handle = (action: UnknownAction) => {
+    if (replayStarted.match(action)) {
+      closeFeed();
+      closeFeed = play(action.payload);
+    } else if (replayStopped.match(action)) {
+      if (replay) stopReplay();
+    } else if (replayPlayed.match(action)) {
+      replay?.play();
+    } else if (replayPaused.match(action)) {
+      replay?.pause();
+    } else if (replaySought.match(action)) {
+      replay?.seek(action.payload);
+    } else if (replaySpeedChanged.match(action)) {
+      replay?.setSpeed(action.payload);
+    } else if (recordingStarted.match(action)) {
+      recorder.start();
+    } else if (recordingStopped.match(action)) {
+      recorder.stop();
+      if (recorder.getMessages().length > 0) {
+        downloadFile(toNdjson(recorder.getMessages()), 'application/x-ndjson', 'livefeed-recording', 'ndjson');
+      }
+    }
+  };
+
+  let closed = false;
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    closeFeed();
+    unsubscribeRecorder();
+    if (replay) dispatch(replayStatusChanged(null));
+  };
+
+  return { handle, close };
+};
+
+type FeedSession = ReturnType<typeof createFeedSession>;
+
+// Runs the livefeed, the balance and profit pollers and the shared settings sync outside of any component,
+// so they live as long as the session rather than a page
+export const addAppListeners = (startListening: AppStartListening) => {
+  let active: { params: ConnectionParams; session: FeedSession } | null = null;
+
+  startListening({
+    actionCreator: connected,
+    effect: async (action, api) => {
+      api.cancelActiveListeners();
+      // A cancelled effect only cleans up after its next await, too late to keep its socket from reporting
+      active?.session.close();
+
+      const params = action.payload;
+      const { queryClient } = params.connection;
+      const current = { params, session: createFeedSession(params, api.dispatch, api.getState) };
+      active = current;
+
+      api.fork(poll(api.dispatch, BALANCE_REFRESH, () => fetchBalance(queryClient)));
+      api.fork(poll(api.dispatch, PROFIT_REFRESH, () => fetchProfit(queryClient)));
+      const { token } = params;
+      if (AUTH_URL && token) {
+        api.fork(async (forkApi) => {
+          const shared = await forkApi.pause(loadSharedSettings(token));
+          if (shared) api.dispatch(sharedSettingsLoaded(shared));
+        });
+      }
+
+      try {
+        // The forks above are cancelled once this returns
+        await api.condition(disconnected.match);
+      } finally {
+        current.session.close();
+        if (active === current) active = null;
+      }
+    },
+  });
+
+  startListening({
+    matcher: isFeedCommand,
+    effect: (action) => {
+      active?.session.handle(action);
+    },
+  });
+
+  startListening({
+    matcher: isAnyOf(settingsUpdated, sharedSettingsLoaded),
+    effect: (_, api) => {
+      saveSettings(api.getState().settings);
+    },
+  });
+
+  // What every dashboard applies is kept on the dashboard server, which only takes it from operators
+  startListening({
+    actionCreator: settingsUpdated,
+    effect: (action) => {
+      const { token, role } = active?.params ?? { token: null, role: null };
+      const shared = sharedPart(action.payload);
+      if (!AUTH_URL || !token || role !== 'operator' || Object.keys(shared).length === 0) return;
+      saveSharedSettings(token, shared);
+    },
+  });
+};
@@ -0,0 +1,42 @@
+import { ENVIRONMENTS } from '../config';
+import { Connection, connected } from './connection';
+import metricsSlice, { metricsFailed, profitFetched, selectMetricsUpdatedAt, selectProfit, selectProfitChange } from './metricsSlice';
+
+const sample = (bot: string, value: number) => ({ labels: { bot }, value });
+
+const fetched = metricsSlice.reducer(undefined, profitFetched({
+  profit: { '1h': [sample('a', 3), sample('b', 1)], '24h': [sample('a', 10)] },
+  previousProfit: { '1h': [sample('a', 1), sample('b', 1)], '24h': [sample('a', 0)] },
+  fetchedAt: 1000,
+}));
+const state = { metrics: fetched };
+
+describe('metricsSlice', () => {
+  it('sums the profit of a window over the series matching the filter', () => {
+    expect(selectProfit(state, '1h')).toBe(4);
+    expect(selectProfit(state, '1h', { label: 'bot', value: 'b' })).toBe(1);
+    expect(selectProfit(state, '3h')).toBeNull();
+  });
+
+  it('compares each window with the one before', () => {
+    expect(selectProfitChange(state, '1h')).toBe(100);
+    expect(selectProfitChange(state, '1h', { label: 'bot', value: 'b' })).toBe(0);
+  });
+
+  it('has no change without a previous profit to compare to', () => {
+    expect(selectProfitChange(state, '24h')).toBeNull();
+    expect(selectProfitChange(state, '3h')).toBeNull();
+  });
+
+  it('keeps the last profit when a fetch fails', () => {
+    const failed = metricsSlice.reducer(fetched, metricsFailed('timeout'));
+    expect(selectProfit({ metrics: failed }, '1h')).toBe(4);
+    expect(selectMetricsUpdatedAt({ metrics: failed })).toBe(1000);
+    expect(failed.error).toBe('timeout');
+  });
+
+  it('forgets the profit of the previous connection', () => {
+    const reset = metricsSlice.reducer(fetched, connected({ environment: ENVIRONMENTS[0], token: null, role: 'viewer', connection: {} as Connection }));
+    expect(reset).toEqual(metricsSlice.getInitialState());
+  });
+});
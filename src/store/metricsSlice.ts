@@ -0,0 +1,53 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { percentChange } from '../utils/comparison';
+import { LabelFilter, SeriesSample, sumSamples } from '../utils/series';
+import { connected } from './connection';
+
+export const PROFIT_WINDOWS = ['1h', '3h', '6h', '12h', '24h'] as const;
+export type ProfitWindow = typeof PROFIT_WINDOWS[number];
+
+type WindowSamples = Partial<Record<ProfitWindow, SeriesSample[]>>;
+
+export interface MetricsState {
+  // increase(sandwich_possible_profit_total) over each window, in SOL
+  profit: WindowSamples;
+  // The same over the window of the same length right before each one
+  previousProfit: WindowSamples;
+  // Time of the last successful fetch
+  updatedAt: number | null;
+  error: string | null;
+}
+
+const initialState: MetricsState = { profit: {}, previousProfit: {}, updatedAt: null, error: null };
+
+const metricsSlice = createSlice({
+  name: 'metrics',
+  initialState,
+  reducers: {
+    profitFetched: (state, action: PayloadAction<{ profit: WindowSamples; previousProfit: WindowSamples; fetchedAt: number }>) => {
+      state.profit = action.payload.profit;
+      state.previousProfit = action.payload.previousProfit;
+      state.updatedAt = action.payload.fetchedAt;
+      state.error = null;
+    },
+    metricsFailed: (state, action: PayloadAction<string>) => {
+      state.error = action.payload;
+    },
+  },
+  extraReducers: (builder) => {
+    builder.addCase(connected, () => initialState);
+  },
+  selectors: {
+    // Null before the first fetch or when no series matches the filter
+    selectProfit: (state, window: ProfitWindow, filter: LabelFilter | null = null) =>
+      sumSamples(state.profit[window], filter),
+    // Percent change against the window before, null without a previous profit to compare to
+    selectProfitChange: (state, window: ProfitWindow, filter: LabelFilter | null = null) =>
+      percentChange(sumSamples(state.profit[window], filter) ?? 0, sumSamples(state.previousProfit[window], filter)),
+    selectMetricsUpdatedAt: (state) => state.updatedAt,
+  },
+});
+
+export const { profitFetched, metricsFailed } = metricsSlice.actions;
+export const { selectProfit, selectProfitChange, selectMetricsUpdatedAt } = metricsSlice.selectors;
+export default metricsSlice;
@@ -0,0 +1,50 @@
+import settingsSlice, {
+  defaultSettings,
+  loadStoredSettings,
+  saveSettings,
+  selectSettings,
+  selectTimezone,
+  settingsUpdated,
+  sharedPart,
+  sharedSettingsLoaded,
+} from './settingsSlice';
+
+describe('settingsSlice', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('starts from the defaults without stored settings', () => {
+    expect(settingsSlice.reducer(undefined, { type: 'init' })).toEqual(defaultSettings);
+  });
+
+  it('merges stored settings over the defaults so new fields get a value', () => {
+    localStorage.setItem('dashboardSettings', JSON.stringify({ timezone: 'utc', history: { retentionDays: 30 } }));
+    const settings = loadStoredSettings();
+    expect(settings.timezone).toBe('utc');
+    expect(settings.history).toEqual({ ...defaultSettings.history, retentionDays: 30 });
+    expect(settings.alerts).toEqual(defaultSettings.alerts);
+  });
+
+  it('round-trips through localStorage', () => {
+    const settings = { ...defaultSettings, timezone: 'utc' as const };
+    saveSettings(settings);
+    expect(loadStoredSettings()).toEqual(settings);
+  });
+
+  it('replaces the updated settings only', () => {
+    const state = settingsSlice.reducer(defaultSettings, settingsUpdated({ timezone: 'utc' }));
+    expect(selectTimezone({ settings: state })).toBe('utc');
+    expect(selectSettings({ settings: state }).explorer).toBe(defaultSettings.explorer);
+  });
+
+  it('applies the shared settings over the local ones', () => {
+    const local = settingsSlice.reducer(defaultSettings, settingsUpdated({ timezone: 'utc' }));
+    const state = settingsSlice.reducer(local, sharedSettingsLoaded({ history: { retentionDays: 3 } }));
+    expect(state.history).toEqual({ ...defaultSettings.history, retentionDays: 3 });
+    expect(state.timezone).toBe('utc');
+  });
+
+  it('picks the operator settings out of the changes', () => {
+    expect(sharedPart({ timezone: 'utc', history: defaultSettings.history })).toEqual({ history: defaultSettings.history });
+    expect(sharedPart({ explorer: defaultSettings.explorer })).toEqual({});
+  });
+});
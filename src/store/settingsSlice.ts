@@ -0,0 +1,91 @@
+import { createSlice, PayloadAction } from '@reduxjs/toolkit';
+import { AlertSettings, defaultAlertSettings } from '../services/alertRules';
+import { defaultPricingSettings, PricingSettings } from '../services/priceSource';
+import { DecimalsMap } from '../services/tokenRegistry';
+import { OPERATOR_SETTING_KEYS, SharedSettings } from '../types/auth';
+import { defaultExplorerSettings, ExplorerSettings } from '../utils/explorer';
+import { Timezone } from '../utils/timeRange';
+
+export interface Settings {
+  explorer: ExplorerSettings;
+  // Manual token decimals by mint, winning over every other source
+  tokenDecimalOverrides: DecimalsMap;
+  history: HistorySettings;
+  // Timezone used for chart axes and tooltips
+  timezone: Timezone;
+  alerts: AlertSettings;
+  pricing: PricingSettings;
+}
+
+export interface HistorySettings {
+  retentionDays: number;
+  maxEntries: number;
+}
+
+export const defaultSettings: Settings = {
+  explorer: defaultExplorerSettings,
+  tokenDecimalOverrides: {},
+  history: {
+    retentionDays: 7,
+    maxEntries: 200000,
+  },
+  timezone: 'local',
+  alerts: defaultAlertSettings,
+  pricing: defaultPricingSettings,
+};
+
+// Key for localStorage
+const LOCAL_STORAGE_KEY = 'dashboardSettings';
+
+// Stored settings are merged over the defaults so new fields get a value
+export const mergeSettings = (base: Settings, stored: Partial<Settings>): Settings => ({
+  ...base,
+  ...stored,
+  explorer: { ...base.explorer, ...stored.explorer },
+  history: { ...base.history, ...stored.history },
+  alerts: { ...base.alerts, ...stored.alerts },
+  pricing: { ...base.pricing, ...stored.pricing },
+});
+
+export const loadStoredSettings = (): Settings => {
+  try {
+    const storedData = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (storedData) {
+      return mergeSettings(defaultSettings, JSON.parse(storedData));
+    }
+  } catch (error) {
+    console.error('Error reading settings from localStorage:', error);
+  }
+  return defaultSettings;
+};
+
+export const saveSettings = (settings: Settings) => {
+  try {
+    localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error('Error saving settings to localStorage:', error);
+  }
+};
+
+// The operator settings among the changes, which the dashboard server keeps for every dashboard
+export const sharedPart = (changes: Partial<Settings>): SharedSettings =>
+  Object.fromEntries(OPERATOR_SETTING_KEYS.filter(key => changes[key] !== undefined).map(key => [key, changes[key]]));
+
+const settingsSlice = createSlice({
+  name: 'settings',
+  initialState: loadStoredSettings,
+  reducers: {
+    settingsUpdated: (state, action: PayloadAction<Partial<Settings>>) => ({ ...state, ...action.payload }),
+    // From the dashboard server, winning over what this browser stored
+    sharedSettingsLoaded: (state, action: PayloadAction<SharedSettings>) =>
+      mergeSettings(state, action.payload as Partial<Settings>),
+  },
+  selectors: {
+    selectSettings: (state) => state,
+    selectTimezone: (state) => state.timezone,
+  },
+});
+
+export const { settingsUpdated, sharedSettingsLoaded } = settingsSlice.actions;
+export const { selectSettings, selectTimezone } = settingsSlice.selectors;
+export default settingsSlice;
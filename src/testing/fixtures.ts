@@ -0,0 +1,23 @@
+import { SandwichData } from '../types/sandwich';
+
+// A sandwich payload as the bot sends it, for tests
+export const makeSandwich = (slot: number, changes: Partial<SandwichData['data']['sandwich']> = {}): SandwichData => ({
+  type: 'sandwich',
+  data: {
+    publicKey: 'Victim1111111111111111111111111111111111111',
+    sandwich: {
+      mint: 'Mint111111111111111111111111111111111111111',
+      slot,
+      timestamp: 1700000000 + slot,
+      frontrunInAmount: 1000000000,
+      frontrunOutAmount: 5000000,
+      backrunInAmount: 5000000,
+      backrunOutAmount: 1010000000,
+      solChange: 10000000,
+      tokenChange: 0,
+      isSell: false,
+      ...changes,
+    },
+    permanentTokenData: { rawTokenMetadata: { symbol: 'TOK', decimals: 6 } },
+  },
+});
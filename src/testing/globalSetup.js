@@ -0,0 +1,4 @@
+// Dates in tests are read in a zone with DST, whatever the machine's own zone
+module.exports = () => {
+  process.env.TZ = 'America/New_York';
+};
@@ -0,0 +1,25 @@
+// viewer can only look at the dashboard, operator can also change settings, alert rules and environments
+export type Role = 'viewer' | 'operator';
+
+export const ROLES: Role[] = ['viewer', 'operator'];
+
+export interface SessionUser {
+  username: string;
+  role: Role;
+}
+
+// Returned by the server's POST /auth/login
+export interface LoginResponse {
+  token: string;
+  user: SessionUser;
+  // Unix ms
+  expiresAt: number;
+}
+
+// Settings only operators may change, kept on the dashboard server and applied by every signed-in dashboard
+export const OPERATOR_SETTING_KEYS = ['alerts', 'pricing', 'history', 'tokenDecimalOverrides'] as const;
+
+export type OperatorSettingKey = typeof OPERATOR_SETTING_KEYS[number];
+
+// Returned by the server's GET /settings, keys no operator has set yet are missing
+export type SharedSettings = Partial<Record<OperatorSettingKey, unknown>>;
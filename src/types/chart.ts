@@ -0,0 +1,4 @@
+import { Payload } from 'recharts/types/component/DefaultTooltipContent';
+
+// A tooltip formatter's entry with the chart row it was read from, which recharts types as any
+export type TooltipItem<Row> = Omit<Payload<number, string>, 'payload'> & { payload?: Row };
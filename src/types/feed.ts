@@ -0,0 +1,69 @@
+import { SandwichData } from './sandwich';
+
+export type FeedEventType = 'sandwich' | 'arbitrage' | 'failedBundle' | 'tip';
+
+export interface SandwichEvent {
+  kind: 'sandwich';
+  payload: SandwichData;
+}
+
+// Backrun/arbitrage opportunities landed without a victim transaction
+export interface ArbitrageEvent {
+  kind: 'arbitrage';
+  payload: {
+    type: string;
+    data: {
+      slot: number;
+      timestamp: number;
+      mint?: string;
+      symbol?: string;
+      // DEXes or pools traversed, in order
+      route?: string[];
+      solChange: number;
+      signature?: string;
+      bundleId?: string;
+      tipAmount?: number;
+    };
+  };
+}
+
+// Bundles the block engine rejected or that never landed
+export interface FailedBundleEvent {
+  kind: 'failedBundle';
+  payload: {
+    type: string;
+    data: {
+      slot: number;
+      timestamp: number;
+      bundleId?: string;
+      strategy?: string;
+      reason: string;
+      tipAmount?: number;
+    };
+  };
+}
+
+// Tip transfers reported on their own, e.g. for bundles sent by other strategies
+export interface TipEvent {
+  kind: 'tip';
+  payload: {
+    type: string;
+    data: {
+      slot: number;
+      timestamp: number;
+      tipAmount: number;
+      bundleId?: string;
+      signature?: string;
+      strategy?: string;
+    };
+  };
+}
+
+export type FeedEvent = SandwichEvent | ArbitrageEvent | FailedBundleEvent | TipEvent;
+
+export const FEED_EVENT_LABELS: Record<FeedEventType, string> = {
+  sandwich: 'Sandwiches',
+  arbitrage: 'Arbitrage',
+  failedBundle: 'Failed bundles',
+  tip: 'Tips',
+};
@@ -0,0 +1,31 @@
+export interface SandwichData {
+  type: string;
+  data: {
+    publicKey: string;
+    sandwich: {
+      mint: string;
+      slot: number;
+      timestamp: number;
+      frontrunInAmount: number;
+      frontrunOutAmount: number;
+      backrunInAmount: number;
+      backrunOutAmount: number;
+      solChange: number;
+      tokenChange: number;
+      isSell: boolean;
+      // Transaction signatures of the bundle, sent by newer bot versions
+      frontrunSignature?: string;
+      victimSignature?: string;
+      backrunSignature?: string;
+      bundleId?: string;
+      // Tip paid for the bundle, in lamports
+      tipAmount?: number;
+    };
+    permanentTokenData: {
+      rawTokenMetadata: {
+        symbol: string;
+        decimals?: number;
+      };
+    };
+  };
+}
@@ -0,0 +1,30 @@
+declare global {
+  interface Window {
+    // Safari before 14.1 only has the prefixed constructor
+    webkitAudioContext?: typeof AudioContext;
+  }
+}
+
+// Two short beeps through Web Audio, so no sound asset has to be bundled
+export const playAlertSound = () => {
+  try {
+    const AudioContextClass = window.AudioContext || window.webkitAudioContext;
+    if (!AudioContextClass) return;
+    const context: AudioContext = new AudioContextClass();
+    [0, 0.25].forEach(offset => {
+      const oscillator = context.createOscillator();
+      const gain = context.createGain();
+      oscillator.type = 'sine';
+      oscillator.frequency.value = 880;
+      gain.gain.setValueAtTime(0.2, context.currentTime + offset);
+      gain.gain.exponentialRampToValueAtTime(0.001, context.currentTime + offset + 0.2);
+      oscillator.connect(gain);
+      gain.connect(context.destination);
+      oscillator.start(context.currentTime + offset);
+      oscillator.stop(context.currentTime + offset + 0.2);
+    });
+    setTimeout(() => context.close(), 1000);
+  } catch (error) {
+    console.error('Error playing alert sound:', error);
+  }
+};
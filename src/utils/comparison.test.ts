@@ -0,0 +1,67 @@
+import { TooltipItem } from '../types/chart';
+import { comparisonSeries, deltaSuffix, formatPercentChange, percentChange } from './comparison';
+import { ChartSeries, SeriesRow } from './series';
+
+const item = (payload: Record<string, number>): TooltipItem<SeriesRow> => ({
+  dataKey: 'profit',
+  payload: { time: 0, ...payload },
+});
+
+describe('percentChange', () => {
+  it('measures the change against the previous value', () => {
+    expect(percentChange(150, 100)).toBe(50);
+    expect(percentChange(50, 100)).toBe(-50);
+  });
+
+  it('measures against the size of a negative previous value', () => {
+    expect(percentChange(-50, -100)).toBe(50);
+    expect(percentChange(0, -100)).toBe(100);
+  });
+
+  it('has nothing to compare against a zero or missing previous value', () => {
+    expect(percentChange(5, 0)).toBeNull();
+    expect(percentChange(0, 0)).toBeNull();
+    expect(percentChange(5, null)).toBeNull();
+    expect(percentChange(5, undefined)).toBeNull();
+  });
+});
+
+describe('formatPercentChange', () => {
+  it('signs the change', () => {
+    expect(formatPercentChange(12.34)).toBe('+12.3%');
+    expect(formatPercentChange(0)).toBe('+0.0%');
+    expect(formatPercentChange(-5)).toBe('-5.0%');
+  });
+});
+
+describe('deltaSuffix', () => {
+  it('shows the change against the compared value of the same series', () => {
+    expect(deltaSuffix(3, item({ profit: 3, profitPrev: 2 }), '1d')).toBe(' (+50.0% vs 1d ago)');
+  });
+
+  it('shows nothing when the previous period is zero or missing', () => {
+    expect(deltaSuffix(3, item({ profit: 3, profitPrev: 0 }), '1d')).toBe('');
+    expect(deltaSuffix(3, item({ profit: 3 }), '1w')).toBe('');
+  });
+
+  it('shows nothing without a comparison', () => {
+    expect(deltaSuffix(3, item({ profit: 3, profitPrev: 2 }), null)).toBe('');
+  });
+});
+
+describe('comparisonSeries', () => {
+  const series = (key: string, label: string, color: string): ChartSeries => ({
+    key,
+    label,
+    color,
+    points: [{ time: 0, value: key.length }],
+  });
+
+  it('pairs the offset series by label and leaves out the missing ones', () => {
+    const current = [series('s0', 'main', '#10b981'), series('s1', 'backup', '#f59e42')];
+    const previous = [series('s0', 'backup', '#10b981')];
+    expect(comparisonSeries(current, previous, '1w')).toEqual([
+      { key: 's1Prev', label: 'backup (1w ago)', color: '#f59e42', points: previous[0].points },
+    ]);
+  });
+});
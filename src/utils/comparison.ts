@@ -0,0 +1,39 @@
+import { TooltipItem } from '../types/chart';
+import { ChartSeries, SeriesRow } from './series';
+
+export type CompareOffset = '1d' | '1w';
+
+export const COMPARE_OFFSETS: Record<CompareOffset, { label: string }> = {
+  '1d': { label: '1d ago' },
+  '1w': { label: '1w ago' },
+};
+
+// PromQL modifier shifting a selector back by the offset, empty without one.
+// Goes right after the selector or its range, e.g. `increase(metric[1h] offset 1d)`.
+export const offsetModifier = (offset: CompareOffset | null) => (offset ? ` offset ${offset}` : '');
+
+// Data key of the compared series next to a chart series
+export const comparisonKey = (key: string) => `${key}Prev`;
+
+// Series of the offset query paired with the current ones by label. Drawn in the same colour,
+// they line up with the current series since offset queries keep the current timestamps.
+export const comparisonSeries = (current: ChartSeries[], previous: ChartSeries[], offset: CompareOffset): ChartSeries[] =>
+  current.flatMap(s => {
+    const match = previous.find(p => p.label === s.label);
+    return match ? [{ ...match, key: comparisonKey(s.key), label: `${s.label} (${COMPARE_OFFSETS[offset].label})`, color: s.color }] : [];
+  });
+
+// Percent change from previous to current, null when there is nothing to compare against
+export const percentChange = (current: number, previous: number | null | undefined): number | null => {
+  if (previous === null || previous === undefined || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+};
+
+export const formatPercentChange = (change: number) => `${change >= 0 ? '+' : ''}${change.toFixed(1)}%`;
+
+// Appended to a tooltip value when its row has a compared value for the same series
+export const deltaSuffix = (value: number, item: TooltipItem<SeriesRow>, offset: CompareOffset | null) => {
+  if (!offset || !item.payload || item.dataKey === undefined) return '';
+  const change = percentChange(value, item.payload[comparisonKey(String(item.dataKey))]);
+  return change === null ? '' : ` (${formatPercentChange(change)} vs ${COMPARE_OFFSETS[offset].label})`;
+};
@@ -0,0 +1,50 @@
+export type ExplorerId = 'solscan' | 'solanafm' | 'custom';
+
+export interface ExplorerSettings {
+  id: ExplorerId;
+  // Templates for the custom explorer, {id} is replaced by the signature or address
+  customTxUrl: string;
+  customAccountUrl: string;
+}
+
+interface ExplorerPreset {
+  name: string;
+  txUrl: string;
+  accountUrl: string;
+}
+
+export const EXPLORERS: Record<ExplorerId, ExplorerPreset> = {
+  solscan: {
+    name: 'Solscan',
+    txUrl: 'https://solscan.io/tx/{id}',
+    accountUrl: 'https://solscan.io/account/{id}',
+  },
+  solanafm: {
+    name: 'SolanaFM',
+    txUrl: 'https://solana.fm/tx/{id}',
+    accountUrl: 'https://solana.fm/address/{id}',
+  },
+  custom: {
+    name: 'Custom',
+    txUrl: '',
+    accountUrl: '',
+  },
+};
+
+export const defaultExplorerSettings: ExplorerSettings = {
+  id: 'solscan',
+  customTxUrl: 'http://localhost:3001/tx/{id}',
+  customAccountUrl: 'http://localhost:3001/address/{id}',
+};
+
+const fillTemplate = (template: string, id: string) => template.replace('{id}', encodeURIComponent(id));
+
+export const txUrl = (settings: ExplorerSettings, signature: string): string => {
+  const template = settings.id === 'custom' ? settings.customTxUrl : EXPLORERS[settings.id].txUrl;
+  return fillTemplate(template, signature);
+};
+
+export const accountUrl = (settings: ExplorerSettings, address: string): string => {
+  const template = settings.id === 'custom' ? settings.customAccountUrl : EXPLORERS[settings.id].accountUrl;
+  return fillTemplate(template, address);
+};
@@ -0,0 +1,48 @@
+import { makeSandwich } from '../testing/fixtures';
+import { chartSeriesRows, sandwichRows, seriesRows, toCsv } from './export';
+
+describe('toCsv', () => {
+  it('quotes cells with commas, quotes or line breaks', () => {
+    expect(toCsv([{ a: 'x,y', b: 'say "hi"', c: 'one\ntwo', d: 'cr\rlf' }]))
+      .toBe('a,b,c,d\n"x,y","say ""hi""","one\ntwo","cr\rlf"');
+  });
+
+  it('leaves plain cells unquoted and empty values blank', () => {
+    expect(toCsv([{ a: 'plain', b: 1.5, c: null, d: undefined }])).toBe('a,b,c,d\nplain,1.5,,');
+  });
+
+  it('takes the columns from every row in first-seen order', () => {
+    expect(toCsv([{ a: 1 }, { b: 2, a: 3 }])).toBe('a,b\n1,\n3,2');
+  });
+});
+
+describe('sandwichRows', () => {
+  it('exports amounts in base and token units', () => {
+    const [row] = sandwichRows([makeSandwich(5, { tokenChange: 2500000, tipAmount: 100000 })], () => 6);
+    expect(row).toMatchObject({
+      slot: 5,
+      time: '2023-11-14T22:13:25.000Z',
+      solChangeLamports: 10000000,
+      solChange: 0.01,
+      tokenChangeRaw: 2500000,
+      tokenChange: 2.5,
+      tip: 0.0001,
+    });
+  });
+});
+
+describe('seriesRows', () => {
+  it('exports SOL values in lamports and SOL and leaves missing points blank', () => {
+    expect(seriesRows([{ time: 0, balance: 1.5 }, { time: 60000 }], 'balance', 'sol')).toEqual([
+      { time: '1970-01-01T00:00:00.000Z', timestamp: 0, balanceLamports: 1500000000, balanceSol: 1.5 },
+      { time: '1970-01-01T00:01:00.000Z', timestamp: 60000, balanceLamports: undefined, balanceSol: undefined },
+    ]);
+  });
+
+  it('labels each row of a multi-series export with its series', () => {
+    const series = [{ key: 's0', label: 'main', color: '#10b981', points: [{ time: 0, value: 3 }] }];
+    expect(chartSeriesRows(series, 'bundles', 'count')).toEqual([
+      { series: 'main', time: '1970-01-01T00:00:00.000Z', timestamp: 0, bundles: 3 },
+    ]);
+  });
+});
@@ -0,0 +1,88 @@
+import { format } from 'date-fns';
+import { SandwichData } from '../types/sandwich';
+import { ChartSeries } from './series';
+
+export type ExportFormat = 'csv' | 'json';
+export type ExportRow = Record<string, string | number | null | undefined>;
+
+// How a chart series is reported by Prometheus
+export type SeriesUnit = 'sol' | 'lamports' | 'count';
+
+const LAMPORTS_PER_SOL = 1e9;
+
+const toUnits = (amount: number | undefined, decimals: number): number | undefined =>
+  amount === undefined || amount === null || isNaN(amount) ? undefined : amount / Math.pow(10, decimals);
+
+const csvCell = (value: ExportRow[string]): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Columns are the union of all row keys, in first-seen order
+export const toCsv = (rows: ExportRow[]): string => {
+  const columns = Array.from(new Set(rows.flatMap(row => Object.keys(row))));
+  const lines = rows.map(row => columns.map(column => csvCell(row[column])).join(','));
+  return [columns.join(','), ...lines].join('\n');
+};
+
+// Saves the content as `<basename>-<timestamp>.<extension>`
+export const downloadFile = (content: string, type: string, basename: string, extension: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${basename}-${format(new Date(), 'yyyyMMdd-HHmmss')}.${extension}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+export const downloadRows = (rows: ExportRow[], exportFormat: ExportFormat, basename: string) => {
+  const content = exportFormat === 'csv' ? toCsv(rows) : JSON.stringify(rows, null, 2);
+  downloadFile(content, exportFormat === 'csv' ? 'text/csv' : 'application/json', basename, exportFormat);
+};
+
+// One row per sandwich, amounts in base units and in token units
+export const sandwichRows = (sandwiches: SandwichData[], getDecimals: (sandwich: SandwichData) => number): ExportRow[] =>
+  sandwiches.map(sandwich => {
+    const s = sandwich.data.sandwich;
+    const metadata = sandwich.data.permanentTokenData?.rawTokenMetadata;
+    const decimals = getDecimals(sandwich);
+    return {
+      slot: s.slot,
+      time: new Date(s.timestamp * 1000).toISOString(),
+      publicKey: sandwich.data.publicKey,
+      mint: s.mint,
+      symbol: metadata?.symbol,
+      solChangeLamports: s.solChange,
+      solChange: toUnits(s.solChange, 9),
+      tokenChangeRaw: s.tokenChange,
+      tokenChange: toUnits(s.tokenChange, decimals),
+      tokenDecimals: decimals,
+      tipLamports: s.tipAmount,
+      tip: toUnits(s.tipAmount, 9),
+      bundleId: s.bundleId,
+      frontrunSignature: s.frontrunSignature,
+      victimSignature: s.victimSignature,
+      backrunSignature: s.backrunSignature,
+    };
+  });
+
+// Chart points as plotted, amounts exported both in lamports and SOL
+export const seriesRows = (points: Array<{ time: number } & Record<string, number | undefined>>, key: string, unit: SeriesUnit): ExportRow[] =>
+  points.map(point => {
+    const value = point[key];
+    const base = { time: new Date(point.time).toISOString(), timestamp: point.time };
+    if (unit === 'count') return { ...base, [key]: value };
+    // Pivoted rows leave out series without a point at their time
+    const lamports = value === undefined ? undefined : unit === 'sol' ? Math.round(value * LAMPORTS_PER_SOL) : value;
+    return { ...base, [`${key}Lamports`]: lamports, [`${key}Sol`]: lamports === undefined ? undefined : lamports / LAMPORTS_PER_SOL };
+  });
+
+// Every plotted series of a multi-series chart, one row per series and point
+export const chartSeriesRows = (series: ChartSeries[], key: string, unit: SeriesUnit): ExportRow[] =>
+  series.flatMap(s =>
+    seriesRows(s.points.map(p => ({ time: p.time, [key]: p.value })), key, unit).map(row => ({ series: s.label, ...row }))
+  );
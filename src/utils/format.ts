@@ -0,0 +1,36 @@
+export const formatAmount = (amount: number | undefined, decimals: number = 9): string => {
+  if (amount === undefined || amount === null || isNaN(amount)) return 'N/A';
+  const divisor = Math.pow(10, decimals);
+  const fixedDecimals = decimals === 9 ? 3 : (decimals === 6 ? 2 : 1);
+  return (amount / divisor).toFixed(fixedDecimals);
+};
+
+// Function to format profit data (SOL and Token), token decimals come from the token registry
+export const formatProfit = (solChange: number | undefined, tokenChange: number | undefined, symbol: string | undefined, tokenDecimals: number): string => {
+  if (solChange === undefined || tokenChange === undefined || symbol === undefined ||
+      isNaN(solChange) || isNaN(tokenChange)) return 'N/A';
+  const solProfit = formatAmount(solChange, 9);
+  const tokenProfit = formatAmount(tokenChange, tokenDecimals);
+  return `${solProfit} SOL ${tokenProfit} ${symbol}`;
+};
+
+// Shorten a base58 address to "abcd…wxyz" for table cells
+export const shortenAddress = (address: string, chars: number = 4): string => {
+  if (!address || address.length <= chars * 2 + 1) return address;
+  return `${address.slice(0, chars)}…${address.slice(-chars)}`;
+};
+
+// Compact age such as "45s", "12m" or "3h 5m"
+export const formatAge = (ms: number): string => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+};
+
+export const formatUsd = (value: number | null | undefined): string => {
+  if (value === undefined || value === null || isNaN(value)) return 'N/A';
+  return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+};
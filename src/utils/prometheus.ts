@@ -0,0 +1,32 @@
+import { Metric, PrometheusConnectionOptions, QueryResult, RangeVector } from 'prometheus-query';
+import { Environment, isDashboardServerUrl } from '../config';
+
+// Human-readable identifier for a series, preferring the instance label
+export const seriesLabel = (metric: Metric | null | undefined): string => {
+  const labels = (metric?.labels ?? {}) as Record<string, string>;
+  if (labels.instance) return labels.instance;
+  const entries = Object.entries(labels).filter(([key]) => key !== '__name__');
+  if (entries.length === 0) return 'default';
+  return entries.map(([key, value]) => `${key}=${value}`).join(', ');
+};
+
+// Points of a range query summed over its series by timestamp, empty for anything else
+export const summedSeries = (result: QueryResult | null): { time: number; value: number }[] => {
+  if (!result || result.resultType !== 'matrix') return [];
+  const byTime = new Map<number, number>();
+  (result.result as RangeVector[]).forEach(series => {
+    series.values.forEach(val => {
+      const time = val.time.getTime();
+      byTime.set(time, (byTime.get(time) ?? 0) + val.value);
+    });
+  });
+  return Array.from(byTime, ([time, value]) => ({ time, value })).sort((a, b) => a.time - b.time);
+};
+
+// Driver options for an environment, the dashboard server only answers signed-in users and other
+// Prometheus hosts never see the token
+export const prometheusOptions = (environment: Environment, token: string | null): PrometheusConnectionOptions => ({
+  endpoint: environment.prometheusEndpoint,
+  baseURL: environment.prometheusBaseUrl,
+  headers: token && isDashboardServerUrl(environment.prometheusEndpoint) ? { Authorization: `Bearer ${token}` } : undefined,
+});
@@ -0,0 +1,135 @@
+import { InstantVector, Metric, QueryResult, RangeVector } from 'prometheus-query';
+import { seriesLabel } from './prometheus';
+
+// separate: one line or bar per series, stacked: the same stacked on each other, summed: a single total
+export type SeriesMode = 'separate' | 'stacked' | 'summed';
+
+export interface LabelFilter {
+  label: string;
+  value: string;
+}
+
+export interface SeriesView {
+  // Label to group and sum series by, null keeps every returned series apart
+  groupBy: string | null;
+  // Only series carrying this label value are shown
+  filter: LabelFilter | null;
+  mode: SeriesMode;
+}
+
+export const defaultSeriesView: SeriesView = { groupBy: null, filter: null, mode: 'separate' };
+
+export interface ChartSeries {
+  // Data key in the pivoted rows, labels can't be used since recharts reads dots in keys as paths
+  key: string;
+  label: string;
+  color: string;
+  points: { time: number; value: number }[];
+}
+
+export type SeriesRow = { time: number } & Record<string, number>;
+
+export const SERIES_COLORS = ['#10b981', '#f59e42', '#60a5fa', '#f472b6', '#a78bfa', '#facc15', '#22d3ee', '#f87171'];
+
+const NO_VALUE = '(none)';
+
+const labelsOf = (metric: Metric | null | undefined): Record<string, string> => {
+  const { __name__: _name, ...labels } = (metric?.labels ?? {}) as Record<string, string>;
+  return labels;
+};
+
+const matchesFilter = (metric: Metric | null | undefined, filter: LabelFilter | null) =>
+  !filter || labelsOf(metric)[filter.label] === filter.value;
+
+// Label names of a query result with their values, for the group-by and filter selectors
+export const resultLabels = (result: QueryResult | null): Record<string, string[]> => {
+  if (!result || (result.resultType !== 'matrix' && result.resultType !== 'vector')) return {};
+  const values: Record<string, Set<string>> = {};
+  (result.result as Array<RangeVector | InstantVector>).forEach(series => {
+    Object.entries(labelsOf(series.metric)).forEach(([label, value]) => {
+      (values[label] ??= new Set()).add(value);
+    });
+  });
+  return Object.fromEntries(Object.entries(values).map(([label, set]) => [label, Array.from(set).sort()]));
+};
+
+// Series of a range query after filtering and grouping. `name` labels the total and a lone ungrouped
+// series, `color` is used for the first series so single series charts keep their colour.
+export const chartSeries = (
+  result: QueryResult | null,
+  view: SeriesView,
+  { name, color }: { name: string; color: string }
+): ChartSeries[] => {
+  if (!result || result.resultType !== 'matrix') return [];
+  const matching = (result.result as RangeVector[]).filter(series => matchesFilter(series.metric, view.filter));
+
+  const groups = new Map<string, Map<number, number>>();
+  matching.forEach(series => {
+    const group = view.mode === 'summed'
+      ? name
+      : view.groupBy
+        ? labelsOf(series.metric)[view.groupBy] ?? NO_VALUE
+        : seriesLabel(series.metric);
+    const byTime = groups.get(group) ?? new Map<number, number>();
+    series.values.forEach(val => {
+      const time = val.time.getTime();
+      byTime.set(time, (byTime.get(time) ?? 0) + val.value);
+    });
+    groups.set(group, byTime);
+  });
+
+  const colors = [color, ...SERIES_COLORS.filter(c => c !== color)];
+  const lone = groups.size === 1 && !view.groupBy;
+  return Array.from(groups.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, byTime], i) => ({
+      key: `s${i}`,
+      label: lone ? name : label,
+      color: colors[i % colors.length],
+      points: Array.from(byTime.entries())
+        .sort(([a], [b]) => a - b)
+        .map(([time, value]) => ({ time, value })),
+    }));
+};
+
+// One row per timestamp with a column per series, as recharts expects. Series missing at a
+// timestamp are left out of its row.
+export const pivotSeries = (series: ChartSeries[]): SeriesRow[] => {
+  const rows = new Map<number, SeriesRow>();
+  series.forEach(s => {
+    s.points.forEach(p => {
+      const row = rows.get(p.time) ?? ({ time: p.time } as SeriesRow);
+      row[s.key] = p.value;
+      rows.set(p.time, row);
+    });
+  });
+  return Array.from(rows.values()).sort((a, b) => a.time - b.time);
+};
+
+// Sum over the series of an instant query matching the filter, null when none match
+export const sumValues = (result: QueryResult | null, filter: LabelFilter | null): number | null => {
+  if (!result || result.resultType !== 'vector') return null;
+  const values = (result.result as InstantVector[])
+    .filter(series => matchesFilter(series.metric, filter))
+    .flatMap(series => (series.value ? [series.value.value] : []));
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+};
+
+// One series of an instant query as plain data, which the Redux store can hold unlike prometheus-query's classes
+export interface SeriesSample {
+  labels: Record<string, string>;
+  value: number;
+}
+
+export const instantSamples = (result: QueryResult | null): SeriesSample[] => {
+  if (!result || result.resultType !== 'vector') return [];
+  return (result.result as InstantVector[]).flatMap(series =>
+    series.value ? [{ labels: labelsOf(series.metric), value: series.value.value }] : []
+  );
+};
+
+// The same sum as sumValues over stored samples
+export const sumSamples = (samples: SeriesSample[] | undefined, filter: LabelFilter | null): number | null => {
+  const values = (samples ?? []).filter(s => !filter || s.labels[filter.label] === filter.value).map(s => s.value);
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) : null;
+};
@@ -0,0 +1,45 @@
+import { formatTime, parseDateTimeInput, resolveRange, stepForDuration, toDateTimeInput } from './timeRange';
+
+// Tests run in America/New_York, where clocks went forward at 2024-03-10 07:00 UTC
+const BEFORE_DST = Date.UTC(2024, 2, 10, 6, 30);
+const AFTER_DST = Date.UTC(2024, 2, 10, 7, 30);
+
+describe('formatTime', () => {
+  it('prints UTC on both sides of a DST change', () => {
+    expect(formatTime(BEFORE_DST, 'yyyy-MM-dd HH:mm', 'utc')).toBe('2024-03-10 06:30');
+    expect(formatTime(AFTER_DST, 'yyyy-MM-dd HH:mm', 'utc')).toBe('2024-03-10 07:30');
+  });
+
+  it('prints local time with the offset in force at the time', () => {
+    expect(formatTime(BEFORE_DST, 'HH:mm', 'local')).toBe('01:30');
+    expect(formatTime(AFTER_DST, 'HH:mm', 'local')).toBe('03:30');
+  });
+});
+
+describe('datetime-local inputs', () => {
+  it('round-trip in either timezone', () => {
+    [BEFORE_DST, AFTER_DST].forEach(timestamp => {
+      expect(parseDateTimeInput(toDateTimeInput(timestamp, 'utc'), 'utc')).toBe(timestamp);
+      expect(parseDateTimeInput(toDateTimeInput(timestamp, 'local'), 'local')).toBe(timestamp);
+    });
+  });
+
+  it('show the same instant differently per timezone', () => {
+    expect(toDateTimeInput(AFTER_DST, 'utc')).toBe('2024-03-10T07:30');
+    expect(toDateTimeInput(AFTER_DST, 'local')).toBe('2024-03-10T03:30');
+  });
+});
+
+describe('resolveRange', () => {
+  it('ends presets now and keeps custom ranges as given', () => {
+    expect(resolveRange({ preset: '1h' }, AFTER_DST)).toEqual({ start: AFTER_DST - 60 * 60 * 1000, end: AFTER_DST });
+    expect(resolveRange({ preset: 'custom', start: BEFORE_DST, end: AFTER_DST })).toEqual({ start: BEFORE_DST, end: AFTER_DST });
+  });
+});
+
+describe('stepForDuration', () => {
+  it('picks the smallest step within the point budget', () => {
+    expect(stepForDuration(60 * 60 * 1000, 720)).toBe('15s');
+    expect(stepForDuration(24 * 60 * 60 * 1000, 720)).toBe('2m');
+  });
+});
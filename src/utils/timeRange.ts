@@ -0,0 +1,78 @@
+import { UTCDate } from '@date-fns/utc';
+import { format } from 'date-fns';
+
+export type RangePreset = '1h' | '6h' | '24h' | '7d' | '30d';
+
+export type ChartRange =
+  | { preset: RangePreset }
+  // Custom ranges are absolute, in milliseconds
+  | { preset: 'custom'; start: number; end: number };
+
+export type Timezone = 'local' | 'utc';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+export const RANGE_PRESETS: Record<RangePreset, number> = {
+  '1h': HOUR,
+  '6h': 6 * HOUR,
+  '24h': DAY,
+  '7d': 7 * DAY,
+  '30d': 30 * DAY,
+};
+
+// Steps Prometheus accepts, smallest first
+const STEPS: [string, number][] = [
+  ['15s', 15 * 1000],
+  ['30s', 30 * 1000],
+  ['1m', 60 * 1000],
+  ['2m', 2 * 60 * 1000],
+  ['5m', 5 * 60 * 1000],
+  ['10m', 10 * 60 * 1000],
+  ['15m', 15 * 60 * 1000],
+  ['30m', 30 * 60 * 1000],
+  ['1h', HOUR],
+  ['2h', 2 * HOUR],
+  ['6h', 6 * HOUR],
+  ['12h', 12 * HOUR],
+  ['1d', DAY],
+];
+
+export const resolveRange = (range: ChartRange, now: number = Date.now()): { start: number; end: number } => {
+  if (range.preset === 'custom') return { start: range.start, end: range.end };
+  return { start: now - RANGE_PRESETS[range.preset], end: now };
+};
+
+// Smallest step that keeps the series under maxPoints
+export const stepForDuration = (durationMs: number, maxPoints: number): string => {
+  const match = STEPS.find(([, ms]) => durationMs / ms <= maxPoints);
+  return (match ?? STEPS[STEPS.length - 1])[0];
+};
+
+// date-fns formats with the date's own getters, which UTCDate answers in UTC whatever the local DST rules
+export const formatTime = (timestamp: number, pattern: string, timezone: Timezone): string =>
+  format(timezone === 'utc' ? new UTCDate(timestamp) : new Date(timestamp), pattern);
+
+// Parse a datetime-local input value in the selected timezone
+export const parseDateTimeInput = (value: string, timezone: Timezone): number =>
+  timezone === 'utc' ? Date.parse(`${value}Z`) : new Date(value).getTime();
+
+export const toDateTimeInput = (timestamp: number, timezone: Timezone): string =>
+  formatTime(timestamp, "yyyy-MM-dd'T'HH:mm", timezone);
+
+export const rangeLabel = (range: ChartRange, timezone: Timezone): string => {
+  if (range.preset !== 'custom') return `last ${range.preset}`;
+  return `${formatTime(range.start, 'MMM d HH:mm', timezone)} – ${formatTime(range.end, 'MMM d HH:mm', timezone)}`;
+};
+
+export const tickValues = (start: number, end: number, count: number = 5): number[] =>
+  Array.from({ length: count }, (_, i) => start + ((end - start) * i) / (count - 1));
+
+// Multi-day ranges show the date, shorter ones only the time
+export const tickFormatter = (start: number, end: number, timezone: Timezone) => {
+  const pattern = end - start > DAY ? 'MMM d HH:mm' : 'HH:mm';
+  return (timestamp: number) => formatTime(timestamp, pattern, timezone);
+};
+
+export const tooltipTimeFormatter = (timezone: Timezone) =>
+  (timestamp: number) => `${formatTime(timestamp, 'yyyy-MM-dd HH:mm:ss', timezone)}${timezone === 'utc' ? ' UTC' : ''}`;
@@ -0,0 +1,99 @@
+import { makeSandwich } from '../testing/fixtures';
+import { FeedEvent } from '../types/feed';
+import { hourlyTipEfficiency, tipEfficiencyTotals, tipHistogram } from './tipStats';
+
+const HOUR = 3600 * 1000;
+
+const tip = (tipAmount: number, bundleId?: string): FeedEvent => ({
+  kind: 'tip',
+  payload: { type: 'tip', data: { slot: 1, timestamp: 1700000000, tipAmount, bundleId } },
+});
+
+const counts = (events: FeedEvent[]) => tipHistogram(events).map(b => b.count);
+
+describe('hourlyTipEfficiency', () => {
+  it('converts tips to SOL and joins the series by hour', () => {
+    const [hour] = hourlyTipEfficiency(
+      [{ time: HOUR, value: 2 }],
+      [{ time: HOUR, value: 500000000 }],
+      [{ time: HOUR, value: 4.9 }]
+    );
+    expect(hour).toEqual({
+      time: HOUR,
+      profit: 2,
+      tips: 0.5,
+      bundles: 5,
+      netProfit: 1.5,
+      tipRatio: 0.25,
+      avgTipPerBundle: 0.1,
+    });
+  });
+
+  it('leaves the ratios empty for hours without profit or bundles', () => {
+    const [hour] = hourlyTipEfficiency([{ time: HOUR, value: 0 }], [{ time: HOUR, value: 1000000 }], []);
+    expect(hour).toMatchObject({ tips: 0.001, bundles: 0, netProfit: -0.001, tipRatio: null, avgTipPerBundle: null });
+  });
+
+  it('counts hours without tips as zero tips', () => {
+    const [hour] = hourlyTipEfficiency([{ time: HOUR, value: 1 }], [], [{ time: HOUR, value: 3 }]);
+    expect(hour).toMatchObject({ tips: 0, netProfit: 1, tipRatio: 0, avgTipPerBundle: 0 });
+  });
+});
+
+describe('tipEfficiencyTotals', () => {
+  it('computes the ratios from the summed hours', () => {
+    const hours = hourlyTipEfficiency(
+      [{ time: HOUR, value: 1 }, { time: 2 * HOUR, value: 3 }],
+      [{ time: HOUR, value: 1000000000 }],
+      [{ time: 2 * HOUR, value: 2 }]
+    );
+    expect(tipEfficiencyTotals(hours)).toEqual({
+      profit: 4,
+      tips: 1,
+      bundles: 2,
+      netProfit: 3,
+      tipRatio: 0.25,
+      avgTipPerBundle: 0.5,
+    });
+  });
+
+  it('leaves the ratios empty without profit or bundles', () => {
+    expect(tipEfficiencyTotals([])).toEqual({
+      profit: 0,
+      tips: 0,
+      bundles: 0,
+      netProfit: 0,
+      tipRatio: null,
+      avgTipPerBundle: null,
+    });
+  });
+});
+
+describe('tipHistogram', () => {
+  it('puts tips on a bucket bound into the bucket above it', () => {
+    // 0.00001, 0.0001, 0.001, 0.01 and 0.1 SOL
+    expect(counts([tip(10000), tip(100000), tip(1000000), tip(10000000), tip(100000000)])).toEqual([0, 1, 1, 1, 1, 1]);
+    expect(counts([tip(9999), tip(99999), tip(99999999)])).toEqual([1, 1, 0, 0, 1, 0]);
+  });
+
+  it('counts zero tips in the lowest bucket', () => {
+    expect(counts([tip(0)])).toEqual([1, 0, 0, 0, 0, 0]);
+  });
+
+  it('labels the buckets by their bounds', () => {
+    expect(tipHistogram([]).map(b => b.label)).toEqual([
+      '<0.00001',
+      '0.00001–0.0001',
+      '0.0001–0.001',
+      '0.001–0.01',
+      '0.01–0.1',
+      '≥0.1',
+    ]);
+  });
+
+  it('counts a bundle once and skips events without a tip', () => {
+    const sandwich: FeedEvent = { kind: 'sandwich', payload: makeSandwich(1, { tipAmount: 50000, bundleId: 'b1' }) };
+    expect(counts([sandwich, tip(50000, 'b1'), tip(NaN), { kind: 'sandwich', payload: makeSandwich(2) }]))
+      .toEqual([0, 1, 0, 0, 0, 0]);
+  });
+});
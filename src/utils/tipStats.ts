@@ -0,0 +1,108 @@
+import { FeedEvent } from '../types/feed';
+
+const LAMPORTS_PER_SOL = 1e9;
+
+export interface HourlyTipEfficiency {
+  time: number;
+  // SOL, from sandwich_possible_profit_total
+  profit: number;
+  // SOL, from sandwich_tips_total which counts lamports
+  tips: number;
+  bundles: number;
+  netProfit: number;
+  // Tips as a share of profit, null for hours without profit
+  tipRatio: number | null;
+  // SOL per landed bundle, null for hours without bundles
+  avgTipPerBundle: number | null;
+}
+
+export interface TipEfficiencyTotals {
+  profit: number;
+  tips: number;
+  bundles: number;
+  netProfit: number;
+  tipRatio: number | null;
+  avgTipPerBundle: number | null;
+}
+
+type HourlySeries = { time: number; value: number }[];
+
+// Joins the three hourly increase() series on their timestamps
+export const hourlyTipEfficiency = (profit: HourlySeries, tips: HourlySeries, bundles: HourlySeries): HourlyTipEfficiency[] => {
+  const tipsByTime = new Map(tips.map(p => [p.time, p.value / LAMPORTS_PER_SOL]));
+  const bundlesByTime = new Map(bundles.map(p => [p.time, p.value]));
+
+  return profit.map(p => {
+    const tipSol = tipsByTime.get(p.time) ?? 0;
+    const landed = Math.round(bundlesByTime.get(p.time) ?? 0);
+    return {
+      time: p.time,
+      profit: p.value,
+      tips: tipSol,
+      bundles: landed,
+      netProfit: p.value - tipSol,
+      tipRatio: p.value > 0 ? tipSol / p.value : null,
+      avgTipPerBundle: landed > 0 ? tipSol / landed : null,
+    };
+  });
+};
+
+export const tipEfficiencyTotals = (hours: HourlyTipEfficiency[]): TipEfficiencyTotals => {
+  const profit = hours.reduce((sum, h) => sum + h.profit, 0);
+  const tips = hours.reduce((sum, h) => sum + h.tips, 0);
+  const bundles = hours.reduce((sum, h) => sum + h.bundles, 0);
+  return {
+    profit,
+    tips,
+    bundles,
+    netProfit: profit - tips,
+    tipRatio: profit > 0 ? tips / profit : null,
+    avgTipPerBundle: bundles > 0 ? tips / bundles : null,
+  };
+};
+
+// Tip paid with a feed event in lamports, if the event reports one
+export const eventTipAmount = (event: FeedEvent): number | undefined => {
+  switch (event.kind) {
+    case 'sandwich':
+      return event.payload.data.sandwich.tipAmount;
+    case 'arbitrage':
+    case 'failedBundle':
+    case 'tip':
+      return event.payload.data.tipAmount;
+  }
+};
+
+const eventBundleId = (event: FeedEvent): string | undefined =>
+  event.kind === 'sandwich' ? event.payload.data.sandwich.bundleId : event.payload.data.bundleId;
+
+export interface TipBucket {
+  label: string;
+  count: number;
+}
+
+// Upper bounds in SOL, tips span several orders of magnitude so the buckets are logarithmic
+const BUCKET_BOUNDS = [0.00001, 0.0001, 0.001, 0.01, 0.1];
+
+export const tipHistogram = (events: FeedEvent[]): TipBucket[] => {
+  const buckets: TipBucket[] = [
+    { label: `<${BUCKET_BOUNDS[0]}`, count: 0 },
+    ...BUCKET_BOUNDS.slice(1).map((bound, i) => ({ label: `${BUCKET_BOUNDS[i]}–${bound}`, count: 0 })),
+    { label: `≥${BUCKET_BOUNDS[BUCKET_BOUNDS.length - 1]}`, count: 0 },
+  ];
+  // A bundle's tip can arrive both on its sandwich and as a separate tip event
+  const seenBundles = new Set<string>();
+  events.forEach(event => {
+    const lamports = eventTipAmount(event);
+    if (lamports === undefined || lamports === null || isNaN(lamports)) return;
+    const bundleId = eventBundleId(event);
+    if (bundleId) {
+      if (seenBundles.has(bundleId)) return;
+      seenBundles.add(bundleId);
+    }
+    const sol = lamports / LAMPORTS_PER_SOL;
+    const index = BUCKET_BOUNDS.findIndex(bound => sol < bound);
+    buckets[index === -1 ? buckets.length - 1 : index].count++;
+  });
+  return buckets;
+};
@@ -0,0 +1,63 @@
+import { SandwichData } from '../types/sandwich';
+import { payloadDecimals } from '../services/tokenRegistry';
+
+export interface TokenStats {
+  mint: string;
+  symbol: string;
+  // Decimals carried by the feed payloads, if any
+  decimals?: number;
+  count: number;
+  totalSolChange: number;
+  totalTokenChange: number;
+  buys: number;
+  sells: number;
+  lastSlot: number;
+  lastTimestamp: number;
+}
+
+// Groups sandwiches by mint one at a time, keeping the symbol from the payload for display,
+// so a whole history can be counted without loading it
+export const createTokenAggregator = () => {
+  const byMint = new Map<string, TokenStats>();
+
+  const add = (s: SandwichData) => {
+    const { mint, slot, timestamp, solChange, tokenChange, isSell } = s.data.sandwich;
+    const symbol = s.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK';
+    let stats = byMint.get(mint);
+    if (!stats) {
+      stats = {
+        mint,
+        symbol,
+        count: 0,
+        totalSolChange: 0,
+        totalTokenChange: 0,
+        buys: 0,
+        sells: 0,
+        lastSlot: 0,
+        lastTimestamp: 0,
+      };
+      byMint.set(mint, stats);
+    }
+    stats.decimals = payloadDecimals(s) ?? stats.decimals;
+    stats.count++;
+    stats.totalSolChange += solChange || 0;
+    stats.totalTokenChange += tokenChange || 0;
+    if (isSell) {
+      stats.sells++;
+    } else {
+      stats.buys++;
+    }
+    if (slot > stats.lastSlot) {
+      stats.lastSlot = slot;
+      stats.lastTimestamp = timestamp;
+    }
+  };
+
+  return { add, result: (): TokenStats[] => Array.from(byMint.values()) };
+};
+
+export const aggregateByToken = (sandwiches: SandwichData[]): TokenStats[] => {
+  const aggregator = createTokenAggregator();
+  sandwiches.forEach(aggregator.add);
+  return aggregator.result();
+};
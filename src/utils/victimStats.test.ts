@@ -0,0 +1,77 @@
+import { makeSandwich } from '../testing/fixtures';
+import { SandwichData } from '../types/sandwich';
+import {
+  aggregateByVictim,
+  createVictimAggregator,
+  isQuietVictim,
+  isRepeatVictim,
+  QUIET_AFTER,
+  REPEAT_VICTIM_COUNT,
+  VictimStats,
+} from './victimStats';
+
+const onWallet = (publicKey: string, s: SandwichData): SandwichData => ({ ...s, data: { ...s.data, publicKey } });
+
+const victim = (count: number, lastTimestamp: number): VictimStats => ({
+  publicKey: 'Victim1111111111111111111111111111111111111',
+  count,
+  totalSolChange: 0,
+  tokens: [],
+  firstTimestamp: lastTimestamp,
+  lastTimestamp,
+});
+
+describe('createVictimAggregator', () => {
+  it('groups sandwiches by wallet with totals, tokens and first and last seen', () => {
+    const aggregator = createVictimAggregator();
+    aggregator.add(makeSandwich(20, { solChange: 5 }));
+    aggregator.add(makeSandwich(10, { solChange: 7, mint: 'Other' }));
+    aggregator.add(makeSandwich(30, { solChange: 1, mint: 'Other' }));
+    aggregator.add(onWallet('Victim2', makeSandwich(40)));
+
+    const [first, second] = aggregator.result();
+    expect(first).toMatchObject({
+      count: 3,
+      totalSolChange: 13,
+      firstTimestamp: 1700000010,
+      lastTimestamp: 1700000030,
+    });
+    expect(first.tokens.map(t => [t.mint, t.count])).toEqual([['Other', 2], ['Mint111111111111111111111111111111111111111', 1]]);
+    expect(second).toMatchObject({ publicKey: 'Victim2', count: 1 });
+  });
+
+  it('leaves out sandwiches without a wallet', () => {
+    expect(aggregateByVictim([onWallet('', makeSandwich(1))])).toEqual([]);
+  });
+});
+
+describe('isRepeatVictim', () => {
+  it('starts counting at REPEAT_VICTIM_COUNT sandwiches', () => {
+    expect(isRepeatVictim(victim(REPEAT_VICTIM_COUNT - 1, 0))).toBe(false);
+    expect(isRepeatVictim(victim(REPEAT_VICTIM_COUNT, 0))).toBe(true);
+  });
+
+  it('agrees with the aggregated count', () => {
+    const sandwiches = Array.from({ length: REPEAT_VICTIM_COUNT }, (_, i) => makeSandwich(i));
+    expect(isRepeatVictim(aggregateByVictim(sandwiches.slice(1))[0])).toBe(false);
+    expect(isRepeatVictim(aggregateByVictim(sandwiches)[0])).toBe(true);
+  });
+});
+
+describe('isQuietVictim', () => {
+  const newestTimestamp = 1700100000;
+
+  it('is quiet from QUIET_AFTER seconds before the newest sandwich', () => {
+    expect(isQuietVictim(victim(REPEAT_VICTIM_COUNT, newestTimestamp - QUIET_AFTER + 1), newestTimestamp)).toBe(false);
+    expect(isQuietVictim(victim(REPEAT_VICTIM_COUNT, newestTimestamp - QUIET_AFTER), newestTimestamp)).toBe(true);
+  });
+
+  it('measures against the newest sandwich rather than the clock', () => {
+    const lastTimestamp = 1700000000;
+    expect(isQuietVictim(victim(REPEAT_VICTIM_COUNT, lastTimestamp), lastTimestamp + 60)).toBe(false);
+  });
+
+  it('only applies to repeat victims', () => {
+    expect(isQuietVictim(victim(REPEAT_VICTIM_COUNT - 1, 0), newestTimestamp)).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import { SandwichData } from '../types/sandwich';
+
+// Sandwiched at least this often to count as a repeat victim
+export const REPEAT_VICTIM_COUNT = 3;
+
+// Repeat victims missing from the feed for this long may have moved to protected flow
+export const QUIET_AFTER = 24 * 60 * 60;
+
+export interface VictimTokenStats {
+  mint: string;
+  symbol: string;
+  count: number;
+}
+
+export interface VictimStats {
+  publicKey: string;
+  count: number;
+  // Lamports, the solChange of every sandwich on the wallet
+  totalSolChange: number;
+  tokens: VictimTokenStats[];
+  // Unix seconds
+  firstTimestamp: number;
+  lastTimestamp: number;
+}
+
+// Groups sandwiches by victim wallet one at a time, so a whole history can be counted without loading it.
+// Sandwiches without a wallet are left out.
+export const createVictimAggregator = () => {
+  const byWallet = new Map<string, VictimStats>();
+
+  const add = (s: SandwichData) => {
+    const publicKey = s.data.publicKey;
+    if (!publicKey) return;
+    const { mint, timestamp, solChange } = s.data.sandwich;
+    let stats = byWallet.get(publicKey);
+    if (!stats) {
+      stats = {
+        publicKey,
+        count: 0,
+        totalSolChange: 0,
+        tokens: [],
+        firstTimestamp: timestamp,
+        lastTimestamp: timestamp,
+      };
+      byWallet.set(publicKey, stats);
+    }
+    stats.count++;
+    stats.totalSolChange += solChange || 0;
+    stats.firstTimestamp = Math.min(stats.firstTimestamp, timestamp);
+    stats.lastTimestamp = Math.max(stats.lastTimestamp, timestamp);
+    let token = stats.tokens.find(t => t.mint === mint);
+    if (!token) {
+      token = { mint, symbol: s.data.permanentTokenData?.rawTokenMetadata?.symbol || 'TOK', count: 0 };
+      stats.tokens.push(token);
+    }
+    token.count++;
+  };
+
+  // Most sandwiched tokens first
+  const result = (): VictimStats[] => {
+    const victims = Array.from(byWallet.values());
+    victims.forEach(v => v.tokens.sort((a, b) => b.count - a.count));
+    return victims;
+  };
+
+  return { add, result };
+};
+
+export const aggregateByVictim = (sandwiches: SandwichData[]): VictimStats[] => {
+  const aggregator = createVictimAggregator();
+  sandwiches.forEach(aggregator.add);
+  return aggregator.result();
+};
+
+export const isRepeatVictim = (victim: VictimStats) => victim.count >= REPEAT_VICTIM_COUNT;
+
+// Judged against the newest sandwich rather than the clock, so a feed outage doesn't make everyone quiet
+export const isQuietVictim = (victim: VictimStats, newestTimestamp: number) =>
+  isRepeatVictim(victim) && newestTimestamp - victim.lastTimestamp >= QUIET_AFTER;